@@ -15,4 +15,4 @@
 export DOCROOT=$(dirname "${BASH_SOURCE[0]}")
 
 echo "Stopping and removing EVM Docker containers..."
-docker stop anvil
+docker ps -q --filter label=cctp-anvil | xargs -r docker stop
@@ -0,0 +1,615 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { bcs, BcsType } from "@mysten/sui/bcs";
+import { EventId, PaginatedEvents, SuiClient } from "@mysten/sui/client";
+import { Signer } from "@mysten/sui/cryptography";
+import { Transaction, TransactionArgument } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { keccak256 } from "ethereumjs-util";
+
+import { AttesterState } from "./attestation";
+import { callViewFunction, executeTransactionHelper } from "./helpers";
+import { normalizeAddress } from "./message";
+import { CctpDeployment, getLatestPackageIds, messageTransmitterAuthenticatorType } from "./transactions";
+
+export const CCTP_PACKAGES = ["message_transmitter", "token_messenger_minter"] as const;
+
+export type CctpPackage = typeof CCTP_PACKAGES[number];
+
+export type RoleManagementAction =
+  | "pause"
+  | "unpause"
+  | "update_pauser"
+  | "update_attester_manager"
+  | "update_token_controller"
+  | "transfer_ownership"
+  | "accept_ownership";
+
+/**
+ * Current role holders of a CCTP package, as stored in its State object.
+ * The third role is the attester manager on message_transmitter and the token controller on token_messenger_minter.
+ */
+export interface PackageRoles {
+  owner: string;
+  pendingOwner: string | null;
+  pauser: string;
+  attesterManager?: string;
+  tokenController?: string;
+  paused: boolean;
+}
+
+// Role that must sign each action, named after the PackageRoles field holding it.
+const REQUIRED_ROLES: Record<RoleManagementAction, keyof PackageRoles> = {
+  pause: "pauser",
+  unpause: "pauser",
+  update_pauser: "owner",
+  update_attester_manager: "owner",
+  update_token_controller: "owner",
+  transfer_ownership: "owner",
+  accept_ownership: "pendingOwner"
+};
+
+/**
+ * Returns the latest package version and State object ids of a CCTP package.
+ */
+export function getPackageIds(deployment: CctpDeployment, cctpPackage: CctpPackage): { packageId: string; stateId: string } {
+  const { messageTransmitterId, tokenMessengerMinterId } = getLatestPackageIds(deployment);
+  return cctpPackage === "message_transmitter"
+    ? { packageId: messageTransmitterId, stateId: deployment.messageTransmitterStateId }
+    : { packageId: tokenMessengerMinterId, stateId: deployment.tokenMessengerMinterStateId };
+}
+
+/**
+ * Reads the role holders and paused flag of a CCTP package through its `state` and `roles` getters.
+ */
+export async function fetchPackageRoles(
+  client: SuiClient,
+  deployment: CctpDeployment,
+  cctpPackage: CctpPackage
+): Promise<PackageRoles> {
+  const { packageId, stateId } = getPackageIds(deployment, cctpPackage);
+
+  const pausedTx = new Transaction();
+  pausedTx.moveCall({
+    target: `${packageId}::state::paused`,
+    arguments: [pausedTx.object(stateId)] // State object
+  });
+  const [paused] = await callViewFunction({ client, transaction: pausedTx, returnTypes: [bcs.bool()] });
+
+  const roles: PackageRoles = {
+    owner: await callRolesGetter(client, packageId, stateId, "owner", bcs.Address),
+    pendingOwner: (await callRolesGetter(client, packageId, stateId, "pending_owner", bcs.option(bcs.Address))) ?? null,
+    pauser: await callRolesGetter(client, packageId, stateId, "pauser", bcs.Address),
+    paused
+  };
+  if (cctpPackage === "message_transmitter") {
+    roles.attesterManager = await callRolesGetter(client, packageId, stateId, "attester_manager", bcs.Address);
+  } else {
+    roles.tokenController = await callRolesGetter(client, packageId, stateId, "token_controller", bcs.Address);
+  }
+  return roles;
+}
+
+// Calls roles::<getter> on the Roles borrowed from a State object.
+async function callRolesGetter<T, Input>(
+  client: SuiClient,
+  packageId: string,
+  stateId: string,
+  getter: string,
+  returnType: BcsType<T, Input>
+): Promise<T> {
+  const tx = new Transaction();
+  const [roles] = tx.moveCall({
+    target: `${packageId}::state::roles`,
+    arguments: [tx.object(stateId)] // State object
+  });
+  tx.moveCall({
+    target: `${packageId}::roles::${getter}`,
+    arguments: [roles] // Roles returned from state::roles
+  });
+  const [value] = await callViewFunction({ client, transaction: tx, returnTypes: [returnType] });
+  return value;
+}
+
+/**
+ * Returns the address that must sign a role management action, or null if the
+ * action requires a pending owner and there is none.
+ */
+export function getRequiredSigner(roles: PackageRoles, action: RoleManagementAction): string | null {
+  return roles[REQUIRED_ROLES[action]] as string | null;
+}
+
+/**
+ * Builds an unsigned PTB calling a pausable or role_management entry function of a CCTP package.
+ * @param args.deployment CCTP deployment ids
+ * @param args.cctpPackage package whose State object is updated
+ * @param args.action entry function to call
+ * @param args.address new role holder, required by the update and transfer actions
+ * @param args.transaction optional transaction to append the call to
+ * @throws if the action does not exist on the package or the address is missing
+ */
+export function buildRoleManagementTransaction(args: {
+  deployment: CctpDeployment;
+  cctpPackage: CctpPackage;
+  action: RoleManagementAction;
+  address?: string;
+  transaction?: Transaction;
+}): Transaction {
+  if (args.action === "update_attester_manager" && args.cctpPackage !== "message_transmitter") {
+    throw new Error("update_attester_manager only exists on message_transmitter.");
+  }
+  if (args.action === "update_token_controller" && args.cctpPackage !== "token_messenger_minter") {
+    throw new Error("update_token_controller only exists on token_messenger_minter.");
+  }
+  const takesAddress = args.action.startsWith("update_") || args.action === "transfer_ownership";
+  if (takesAddress && !args.address) {
+    throw new Error(`${args.action} requires a new address.`);
+  }
+
+  const { packageId, stateId } = getPackageIds(args.deployment, args.cctpPackage);
+  const roleTx = args.transaction ?? new Transaction();
+  const module = args.action === "pause" || args.action === "unpause" ? "pausable" : "role_management";
+
+  roleTx.moveCall({
+    target: `${packageId}::${module}::${args.action}`,
+    arguments: [
+      ...(takesAddress ? [roleTx.pure.address(args.address as string)] : []), // new role holder
+      roleTx.object(stateId) // State object
+    ]
+  });
+
+  return roleTx;
+}
+
+/**
+ * Call to one of the message_transmitter::attester_manager entry functions.
+ * Attesters are EVM addresses, given as 20 byte or 32 byte addresses.
+ */
+export type AttesterManagerAction =
+  | { type: "enable_attester"; attester: string }
+  | { type: "disable_attester"; attester: string }
+  | { type: "set_signature_threshold"; signatureThreshold: number };
+
+export interface AttesterManagerState extends AttesterState {
+  attesterManager: string;
+}
+
+/**
+ * Reads the enabled attesters, signature threshold and attester manager of message_transmitter through its
+ * `state` and `roles` getters.
+ */
+export async function fetchAttesterManagerState(client: SuiClient, deployment: CctpDeployment): Promise<AttesterManagerState> {
+  const { messageTransmitterId, messageTransmitterStateId } = deployment;
+
+  const attestersTx = new Transaction();
+  attestersTx.moveCall({
+    target: `${messageTransmitterId}::state::enabled_attesters`,
+    arguments: [attestersTx.object(messageTransmitterStateId)] // message_transmitter state
+  });
+  const [enabledAttesters] = await callViewFunction({
+    client,
+    transaction: attestersTx,
+    returnTypes: [bcs.struct("VecSet", { contents: bcs.vector(bcs.Address) })]
+  });
+
+  const thresholdTx = new Transaction();
+  thresholdTx.moveCall({
+    target: `${messageTransmitterId}::state::signature_threshold`,
+    arguments: [thresholdTx.object(messageTransmitterStateId)] // message_transmitter state
+  });
+  const [signatureThreshold] = await callViewFunction({ client, transaction: thresholdTx, returnTypes: [bcs.u64()] });
+
+  return {
+    signatureThreshold: Number(signatureThreshold),
+    enabledAttesters: enabledAttesters.contents.map(normalizeAddress),
+    attesterManager: await callRolesGetter(client, messageTransmitterId, messageTransmitterStateId, "attester_manager", bcs.Address)
+  };
+}
+
+/**
+ * Checks an attester manager action against the current state with the same assertions as
+ * message_transmitter::attester_manager, so that an aborting transaction is never sent.
+ * @returns the state expected after the action
+ * @throws naming the Move error the action would abort with
+ */
+export function checkAttesterManagerAction(state: AttesterState, action: AttesterManagerAction): AttesterState {
+  const numEnabledAttesters = state.enabledAttesters.length;
+
+  if (action.type === "enable_attester") {
+    const attester = normalizeAddress(action.attester);
+    if (state.enabledAttesters.includes(attester)) {
+      throw new Error(`Attester ${action.attester} is already enabled (EAttesterAlreadyEnabled).`);
+    }
+    return { ...state, enabledAttesters: [...state.enabledAttesters, attester] };
+  }
+
+  if (action.type === "disable_attester") {
+    const attester = normalizeAddress(action.attester);
+    if (numEnabledAttesters <= 1) {
+      throw new Error(`Cannot disable ${action.attester}, it would leave no enabled attester (ETooFewAttestersEnabled).`);
+    }
+    if (numEnabledAttesters <= state.signatureThreshold) {
+      throw new Error(
+        `Cannot disable ${action.attester}, ${numEnabledAttesters - 1} enabled attesters could not meet ` +
+        `the signature threshold of ${state.signatureThreshold} (ETooFewEnabledAttesters).`
+      );
+    }
+    if (!state.enabledAttesters.includes(attester)) {
+      throw new Error(`Attester ${action.attester} is not enabled (EAttesterNotEnabled).`);
+    }
+    return { ...state, enabledAttesters: state.enabledAttesters.filter((enabled) => enabled !== attester) };
+  }
+
+  const { signatureThreshold } = action;
+  if (!Number.isSafeInteger(signatureThreshold) || signatureThreshold <= 0) {
+    throw new Error(`Signature threshold must be a positive integer, found ${signatureThreshold} (EInvalidSignatureThreshold).`);
+  }
+  if (signatureThreshold > numEnabledAttesters) {
+    throw new Error(
+      `Signature threshold ${signatureThreshold} is higher than the number of enabled attesters (${numEnabledAttesters}) ` +
+      "(ESignatureThresholdTooHigh)."
+    );
+  }
+  if (signatureThreshold === state.signatureThreshold) {
+    throw new Error(`Signature threshold is already ${signatureThreshold} (ESignatureThresholdAlreadySet).`);
+  }
+  return { ...state, signatureThreshold };
+}
+
+/**
+ * Plans the rotation of an attester as ordered actions: enable the new attester, update the signature
+ * threshold if a different one is requested, then disable the old attester. Every action is checked
+ * against the state expected after the previous ones.
+ * @throws if any action of the rotation would abort
+ */
+export function planAttesterRotation(
+  state: AttesterState,
+  rotation: { oldAttester: string; newAttester: string; signatureThreshold?: number }
+): AttesterManagerAction[] {
+  const actions: AttesterManagerAction[] = [{ type: "enable_attester", attester: rotation.newAttester }];
+  if (rotation.signatureThreshold !== undefined && rotation.signatureThreshold !== state.signatureThreshold) {
+    actions.push({ type: "set_signature_threshold", signatureThreshold: rotation.signatureThreshold });
+  }
+  actions.push({ type: "disable_attester", attester: rotation.oldAttester });
+
+  actions.reduce(checkAttesterManagerAction, state);
+  return actions;
+}
+
+/**
+ * Builds an unsigned PTB calling a message_transmitter::attester_manager entry function.
+ * @param args.deployment CCTP deployment ids
+ * @param args.action attester manager action
+ * @param args.transaction optional transaction to append the call to
+ */
+export function buildAttesterManagerTransaction(args: {
+  deployment: CctpDeployment;
+  action: AttesterManagerAction;
+  transaction?: Transaction;
+}): Transaction {
+  const { deployment, action } = args;
+  const attesterTx = args.transaction ?? new Transaction();
+
+  attesterTx.moveCall({
+    target: `${getLatestPackageIds(deployment).messageTransmitterId}::attester_manager::${action.type}`,
+    arguments: [
+      action.type === "set_signature_threshold"
+        ? attesterTx.pure.u64(action.signatureThreshold) // new signature threshold
+        : attesterTx.pure.address(action.attester), // attester address
+      attesterTx.object(deployment.messageTransmitterStateId) // message_transmitter state
+    ]
+  });
+
+  return attesterTx;
+}
+
+/**
+ * Sends attester manager actions one transaction at a time. Before each one, the current state is read
+ * and the action checked against it; after each one, the state is read again and compared to the expected state.
+ * @param args.onExecuted optional callback receiving each executed action and its transaction digest
+ * @returns the final state
+ * @throws if an action would abort or the state after an action is not the expected one
+ */
+export async function executeAttesterManagerActions(args: {
+  client: SuiClient;
+  deployment: CctpDeployment;
+  signer: Signer;
+  actions: AttesterManagerAction[];
+  onExecuted?: (action: AttesterManagerAction, digest: string) => void;
+}): Promise<AttesterManagerState> {
+  let state = await fetchAttesterManagerState(args.client, args.deployment);
+
+  for (const action of args.actions) {
+    const expectedState = checkAttesterManagerAction(state, action);
+    const output = await executeTransactionHelper({
+      client: args.client,
+      signer: args.signer,
+      transaction: buildAttesterManagerTransaction({ deployment: args.deployment, action }),
+      deployment: args.deployment
+    });
+    args.onExecuted?.(action, output.digest);
+
+    state = await fetchAttesterManagerState(args.client, args.deployment);
+    if (!isSameAttesterState(state, expectedState)) {
+      throw new Error(
+        `Unexpected attester state after ${describeAttesterManagerAction(action)} (${output.digest}): ` +
+        `expected ${JSON.stringify(expectedState)}, found ${JSON.stringify(state)}.`
+      );
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Formats an action as the Move call it makes, e.g. `set_signature_threshold(2)`.
+ */
+export function describeAttesterManagerAction(action: AttesterManagerAction): string {
+  return action.type === "set_signature_threshold"
+    ? `set_signature_threshold(${action.signatureThreshold})`
+    : `${action.type}(${action.attester})`;
+}
+
+function isSameAttesterState(actual: AttesterState, expected: AttesterState): boolean {
+  return actual.signatureThreshold === expected.signatureThreshold &&
+    actual.enabledAttesters.length === expected.enabledAttesters.length &&
+    expected.enabledAttesters.every((attester) => actual.enabledAttesters.includes(attester));
+}
+
+/**
+ * Call to one of the token_messenger_minter::token_controller entry functions.
+ * Remote tokens are given as 20 byte EVM addresses or 32 byte addresses.
+ */
+export type TokenControllerAction =
+  | { type: "link_token_pair"; remoteDomain: number; remoteToken: string }
+  | { type: "unlink_token_pair"; remoteDomain: number; remoteToken: string }
+  | { type: "set_max_burn_amount_per_message"; burnLimitPerMessage: bigint | number | string }
+  | { type: "add_stablecoin_mint_cap"; mintCapId: string }
+  | { type: "remove_stablecoin_mint_cap"; treasuryId: string };
+
+/**
+ * Token controller settings of a coin type in token_messenger_minter.
+ */
+export interface TokenControllerState {
+  coinType: string;
+  // Token id computed by token_utils::calculate_token_id.
+  tokenId: string;
+  // Null if no burn limit was set, in which case the coin can't be burned.
+  burnLimitPerMessage: bigint | null;
+  mintCapAdded: boolean;
+  // Local token linked to each requested remote token, or null if the pair isn't linked.
+  tokenPairs: { remoteDomain: number; remoteToken: string; localToken: string | null }[];
+}
+
+/**
+ * Reads the burn limit, mint cap and token pairs of a coin type through the token_messenger_minter `state` getters.
+ * @param remoteTokens remote tokens whose linked local token is read
+ */
+export async function fetchTokenControllerState(
+  client: SuiClient,
+  deployment: CctpDeployment,
+  coinType: string,
+  remoteTokens: { remoteDomain: number; remoteToken: string }[]
+): Promise<TokenControllerState> {
+  // Calls a token_messenger_minter view function with the given arguments.
+  const callView = async <T, Input>(
+    target: string,
+    returnType: BcsType<T, Input>,
+    args: (tx: Transaction) => TransactionArgument[],
+    typeArguments: string[] = []
+  ): Promise<T> => {
+    const tx = new Transaction();
+    tx.moveCall({ target: `${deployment.tokenMessengerMinterId}::${target}`, arguments: args(tx), typeArguments });
+    const [value] = await callViewFunction({ client, transaction: tx, returnTypes: [returnType] });
+    return value;
+  };
+  const state = (tx: Transaction) => tx.object(deployment.tokenMessengerMinterStateId); // token_messenger_minter state
+
+  const tokenId = await callView("token_utils::calculate_token_id", bcs.Address, () => [], [coinType]);
+  const hasBurnLimit = await callView("state::burn_limit_for_token_id_exists", bcs.bool(), (tx) => [
+    state(tx),
+    tx.pure.address(tokenId) // token id
+  ]);
+  const burnLimitPerMessage = hasBurnLimit
+    ? BigInt(await callView("state::burn_limit_from_token_id", bcs.u64(), (tx) => [state(tx), tx.pure.address(tokenId)]))
+    : null;
+  const mintCapAdded = await callView("state::mint_cap_for_local_token_exists", bcs.bool(), (tx) => [
+    state(tx),
+    tx.pure.address(tokenId) // local token id
+  ]);
+
+  const tokenPairs: TokenControllerState["tokenPairs"] = [];
+  for (const { remoteDomain, remoteToken } of remoteTokens) {
+    const pairArguments = (tx: Transaction) => [
+      state(tx),
+      tx.pure.u32(remoteDomain), // remote domain
+      tx.pure.address(remoteToken) // remote token
+    ];
+    const linked = await callView("state::local_token_from_remote_token_exists", bcs.bool(), pairArguments);
+    const localToken = linked ? await callView("state::local_token_from_remote_token", bcs.Address, pairArguments) : null;
+    tokenPairs.push({ remoteDomain, remoteToken: normalizeAddress(remoteToken), localToken });
+  }
+
+  return { coinType, tokenId, burnLimitPerMessage, mintCapAdded, tokenPairs };
+}
+
+/**
+ * Builds an unsigned PTB calling a token_messenger_minter::token_controller entry function.
+ * @param args.deployment CCTP deployment ids
+ * @param args.coinType full type of the local coin, e.g. `${usdcId}::usdc::USDC`
+ * @param args.action token controller action
+ * @param args.transaction optional transaction to append the call to
+ */
+export function buildTokenControllerTransaction(args: {
+  deployment: CctpDeployment;
+  coinType: string;
+  action: TokenControllerAction;
+  transaction?: Transaction;
+}): Transaction {
+  const { deployment, action } = args;
+  const tokenTx = args.transaction ?? new Transaction();
+  const state = tokenTx.object(deployment.tokenMessengerMinterStateId); // token_messenger_minter state
+
+  let actionArguments: TransactionArgument[];
+  switch (action.type) {
+    case "link_token_pair":
+    case "unlink_token_pair":
+      actionArguments = [
+        tokenTx.pure.u32(action.remoteDomain), // remote domain
+        tokenTx.pure.address(action.remoteToken), // remote token address
+        state
+      ];
+      break;
+    case "set_max_burn_amount_per_message":
+      actionArguments = [tokenTx.pure.u64(action.burnLimitPerMessage), state]; // burn limit
+      break;
+    case "add_stablecoin_mint_cap":
+      actionArguments = [tokenTx.object(action.mintCapId), state]; // MintCap<T>
+      break;
+    case "remove_stablecoin_mint_cap":
+      actionArguments = [state, tokenTx.object(action.treasuryId)]; // treasury object Treasury<T>
+      break;
+  }
+
+  tokenTx.moveCall({
+    target: `${getLatestPackageIds(deployment).tokenMessengerMinterId}::token_controller::${action.type}`,
+    arguments: actionArguments,
+    typeArguments: [args.coinType]
+  });
+
+  return tokenTx;
+}
+
+/**
+ * Formats an action as the Move call it makes, e.g. `link_token_pair(0, 0x...)`.
+ */
+export function describeTokenControllerAction(action: TokenControllerAction): string {
+  switch (action.type) {
+    case "link_token_pair":
+    case "unlink_token_pair":
+      return `${action.type}(${action.remoteDomain}, ${action.remoteToken})`;
+    case "set_max_burn_amount_per_message":
+      return `${action.type}(${action.burnLimitPerMessage})`;
+    case "add_stablecoin_mint_cap":
+      return `${action.type}(${action.mintCapId})`;
+    case "remove_stablecoin_mint_cap":
+      return `${action.type}(${action.treasuryId})`;
+  }
+}
+
+/**
+ * Returns the 32 byte address that identifies Sui's token messenger on remote chains: the keccak256 of the
+ * MessageTransmitterAuthenticator type name, which token_messenger_minter stamps its receipts with.
+ * This is the address to register on EVM TokenMessengers for the Sui domain.
+ */
+export function getSuiTokenMessengerAddress(tokenMessengerMinterId: string): string {
+  // Move type names are formatted without the 0x prefix.
+  const authenticatorType = messageTransmitterAuthenticatorType(normalizeSuiAddress(tokenMessengerMinterId).slice(2));
+  return `0x${keccak256(Buffer.from(authenticatorType)).toString("hex")}`;
+}
+
+/**
+ * Reads the remote token messenger registered in token_messenger_minter for each given domain,
+ * or null for domains without one.
+ */
+export async function fetchRemoteTokenMessengers(
+  client: SuiClient,
+  deployment: CctpDeployment,
+  domains: number[]
+): Promise<{ domain: number; tokenMessenger: string | null }[]> {
+  const remoteTokenMessengers = [];
+  for (const domain of domains) {
+    const callView = async <T, Input>(getter: string, returnType: BcsType<T, Input>): Promise<T> => {
+      const tx = new Transaction();
+      tx.moveCall({
+        target: `${deployment.tokenMessengerMinterId}::state::${getter}`,
+        arguments: [
+          tx.object(deployment.tokenMessengerMinterStateId), // token_messenger_minter state
+          tx.pure.u32(domain) // remote domain
+        ]
+      });
+      const [value] = await callViewFunction({ client, transaction: tx, returnTypes: [returnType] });
+      return value;
+    };
+
+    const exists = await callView("remote_token_messenger_for_remote_domain_exists", bcs.bool());
+    const tokenMessenger = exists ? await callView("remote_token_messenger_from_remote_domain", bcs.Address) : null;
+    remoteTokenMessengers.push({ domain, tokenMessenger });
+  }
+  return remoteTokenMessengers;
+}
+
+/**
+ * Returns every domain a remote token messenger was ever added for, from the RemoteTokenMessengerAdded events.
+ * @param tokenMessengerMinterId original token_messenger_minter package id, which event types are named after
+ */
+export async function fetchAddedRemoteDomains(client: SuiClient, tokenMessengerMinterId: string): Promise<number[]> {
+  const domains = new Set<number>();
+  let cursor: EventId | null | undefined = null;
+  do {
+    const page: PaginatedEvents = await client.queryEvents({
+      query: { MoveEventType: `${tokenMessengerMinterId}::remote_token_messenger::RemoteTokenMessengerAdded` },
+      cursor
+    });
+    page.data.forEach((event) => domains.add(Number((event.parsedJson as { domain: number }).domain)));
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  return Array.from(domains).sort((a, b) => a - b);
+}
+
+/**
+ * Builds an unsigned PTB calling remote_token_messenger::add_remote_token_messenger, or
+ * remove_remote_token_messenger if no token messenger is given.
+ * @param args.deployment CCTP deployment ids
+ * @param args.domain remote domain
+ * @param args.tokenMessenger remote token messenger, as a 20 byte EVM address or a 32 byte address
+ * @param args.transaction optional transaction to append the call to
+ */
+export function buildRemoteTokenMessengerTransaction(args: {
+  deployment: CctpDeployment;
+  domain: number;
+  tokenMessenger?: string;
+  transaction?: Transaction;
+}): Transaction {
+  const { deployment } = args;
+  const { tokenMessengerMinterId } = getLatestPackageIds(deployment);
+  const remoteTokenMessengerTx = args.transaction ?? new Transaction();
+
+  if (args.tokenMessenger) {
+    remoteTokenMessengerTx.moveCall({
+      target: `${tokenMessengerMinterId}::remote_token_messenger::add_remote_token_messenger`,
+      arguments: [
+        remoteTokenMessengerTx.pure.u32(args.domain), // remote domain
+        remoteTokenMessengerTx.pure.address(args.tokenMessenger), // remote token messenger address
+        remoteTokenMessengerTx.object(deployment.tokenMessengerMinterStateId) // token_messenger_minter state
+      ]
+    });
+  } else {
+    remoteTokenMessengerTx.moveCall({
+      target: `${tokenMessengerMinterId}::remote_token_messenger::remove_remote_token_messenger`,
+      arguments: [
+        remoteTokenMessengerTx.pure.u32(args.domain), // remote domain
+        remoteTokenMessengerTx.object(deployment.tokenMessengerMinterStateId) // token_messenger_minter state
+      ]
+    });
+  }
+
+  return remoteTokenMessengerTx;
+}
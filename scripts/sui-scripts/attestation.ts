@@ -0,0 +1,374 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SuiClient } from "@mysten/sui/client";
+import { randomBytes } from "crypto";
+import * as ethutil from "ethereumjs-util";
+
+import { hashMessage, normalizeAddress } from "./message";
+
+// Attester key initialized in the local Anvil and Sui deployments.
+// This is not a valid attester key in any testnet or mainnet environment.
+export const LOCAL_ATTESTER_PRIVATE_KEY = "0xdbda1821b80551c9d65939329250298aa3472ba22feea921c0cf5d620ea67b97";
+
+// Signature constants from message_transmitter::attestation
+const SIGNATURE_LENGTH = 65;
+const HALF_CURVE_ORDER = BigInt("0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0");
+
+/**
+ * Produces attestations for raw CCTP messages.
+ */
+export interface AttestationProvider {
+  /**
+   * Resolves with the 0x-prefixed attestation for a raw message, waiting until it is available.
+   */
+  getAttestation(message: Uint8Array | string): Promise<string>;
+}
+
+export type AttestationStatus = "pending" | "complete";
+
+export interface AttestationResponse {
+  status: AttestationStatus;
+  attestation?: string;
+}
+
+export interface LocalAttester {
+  privateKey: string;
+  // 0x-prefixed, lowercase 20 byte EVM address of the attester.
+  address: string;
+}
+
+/**
+ * Deliberate defects that can be introduced in a local attestation, matching the
+ * checks performed by message_transmitter::attestation:
+ * - duplicate: the last signature repeats the previous signer (EInvalidSignatureOrder)
+ * - unsorted: signatures are ordered by decreasing signer address (EInvalidSignatureOrder)
+ * - wrongSigner: the last signer is replaced with a key that is not an attester (ESignerIsNotAttester)
+ */
+export type AttestationFault = "duplicate" | "unsorted" | "wrongSigner";
+
+export interface LocalAttesterSet {
+  attesters: LocalAttester[];
+  /**
+   * Produces a concatenated attestation with `threshold` signatures (defaults to all attesters),
+   * sorted by increasing signer address unless a fault is requested.
+   */
+  attest(message: Uint8Array | string, options?: { threshold?: number; fault?: AttestationFault }): string;
+  /**
+   * Returns a provider producing attestations with the given number of signatures.
+   */
+  provider(threshold?: number): AttestationProvider;
+}
+
+/**
+ * Attester configuration of a message_transmitter State object.
+ */
+export interface AttesterState {
+  signatureThreshold: number;
+  // 0x-prefixed, 32 byte normalized addresses.
+  enabledAttesters: string[];
+}
+
+/**
+ * Reasons an attestation is rejected, named after the message_transmitter::attestation
+ * abort codes they correspond to.
+ */
+export type AttestationVerificationFailure =
+  | "EInvalidAttestationLength"
+  | "EInvalidSignatureOrder"
+  | "ESignerIsNotAttester"
+  | "EInvalidSignatureRecoveryId"
+  | "EInvalidSignatureSValue"
+  | "EInvalidSignature";
+
+export class AttestationVerificationError extends Error {
+  constructor(
+    readonly reason: AttestationVerificationFailure,
+    message: string,
+    readonly signatureIndex?: number,
+    readonly signer?: string
+  ) {
+    super(message);
+    this.name = "AttestationVerificationError";
+  }
+}
+
+/**
+ * Thrown by a provider that stopped waiting for an attestation the API still reports as pending, e.g. because
+ * the message isn't final yet. Callers polling again later should not count it as a failure.
+ */
+export class AttestationPendingError extends Error {
+  constructor(readonly messageHash: string, message: string) {
+    super(message);
+    this.name = "AttestationPendingError";
+  }
+}
+
+export interface HttpAttestationProviderOptions {
+  // Base URL of the attestation API, e.g. https://iris-api-sandbox.circle.com
+  url: string;
+  // Delay before the first retry of a pending attestation.
+  initialDelayMs?: number;
+  // Upper bound on the delay between two polls.
+  maxDelayMs?: number;
+  // Factor applied to the delay after each pending poll.
+  backoffMultiplier?: number;
+  // Total time to wait for an attestation before failing with an AttestationPendingError.
+  timeoutMs?: number;
+}
+
+/**
+ * Signs a 0x-prefixed message hash with a secp256k1 private key, returning a 65 byte r || s || v signature.
+ */
+export function signMessageHash(messageHash: string, privateKey: string): string {
+  const signedMessage = ethutil.ecsign(ethutil.toBuffer(messageHash), ethutil.toBuffer(privateKey));
+  return ethutil.toRpcSig(signedMessage.v, signedMessage.r, signedMessage.s);
+}
+
+/**
+ * Creates a provider signing messages locally with the given attester key.
+ * Only intended for localnet, where the key has been enabled as an attester.
+ */
+export function createLocalAttestationProvider(
+  privateKey: string = LOCAL_ATTESTER_PRIVATE_KEY
+): AttestationProvider {
+  return {
+    getAttestation: async (message) => signMessageHash(hashMessage(message), privateKey)
+  };
+}
+
+/**
+ * Returns the 0x-prefixed, lowercase EVM address of a secp256k1 private key.
+ */
+export function attesterAddressFromPrivateKey(privateKey: string): string {
+  return `0x${ethutil.privateToAddress(ethutil.toBuffer(privateKey)).toString("hex")}`;
+}
+
+/**
+ * Creates a set of local attesters able to produce multi-signature attestations for any threshold.
+ * Only intended for localnet, where the keys have been enabled as attesters.
+ */
+export function createLocalAttesterSet(privateKeys: string[]): LocalAttesterSet {
+  if (privateKeys.length === 0) {
+    throw new Error("At least one attester key is required.");
+  }
+
+  // Attesters are kept sorted by increasing address, as required by verify_attestation_signatures.
+  const attesters = privateKeys
+    .map((privateKey) => ({ privateKey, address: attesterAddressFromPrivateKey(privateKey) }))
+    .sort(compareAttesters);
+
+  const attest = (message: Uint8Array | string, options: { threshold?: number; fault?: AttestationFault } = {}) => {
+    const threshold = options.threshold ?? attesters.length;
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > attesters.length) {
+      throw new Error(`Invalid threshold ${threshold} for ${attesters.length} attesters.`);
+    }
+    if (options.fault && options.fault !== "wrongSigner" && threshold < 2) {
+      throw new Error(`A ${options.fault} attestation requires a threshold of at least 2.`);
+    }
+
+    let signers = attesters.slice(0, threshold);
+    if (options.fault === "duplicate") {
+      signers = [...signers.slice(0, threshold - 1), signers[threshold - 2]];
+    } else if (options.fault === "unsorted") {
+      signers = signers.reverse();
+    } else if (options.fault === "wrongSigner") {
+      const privateKey = `0x${randomBytes(32).toString("hex")}`;
+      signers = [...signers.slice(0, threshold - 1), { privateKey, address: attesterAddressFromPrivateKey(privateKey) }]
+        .sort(compareAttesters);
+    }
+
+    const messageHash = hashMessage(message);
+    return `0x${signers.map((signer) => signMessageHash(messageHash, signer.privateKey).slice(2)).join("")}`;
+  };
+
+  return {
+    attesters,
+    attest,
+    provider: (threshold) => ({
+      getAttestation: async (message) => attest(message, { threshold })
+    })
+  };
+}
+
+/**
+ * Reads the signature threshold and enabled attesters from a message_transmitter State object.
+ */
+export async function fetchAttesterState(client: SuiClient, messageTransmitterStateId: string): Promise<AttesterState> {
+  const stateObject = await client.getObject({ id: messageTransmitterStateId, options: { showContent: true } });
+  const content = stateObject.data?.content;
+  if (!content || content.dataType !== "moveObject") {
+    throw new Error(`Could not read message_transmitter state ${messageTransmitterStateId}.`);
+  }
+
+  const fields = content.fields as any;
+  return {
+    signatureThreshold: Number(fields.signature_threshold),
+    enabledAttesters: (fields.enabled_attesters.fields.contents as string[]).map(normalizeAddress)
+  };
+}
+
+/**
+ * Verifies an attestation the same way as message_transmitter::attestation::verify_attestation_signatures.
+ * @returns the recovered signer addresses, 32 byte normalized
+ * @throws AttestationVerificationError naming the failing signature and signer
+ */
+export function verifyAttestation(
+  message: Uint8Array | string,
+  attestation: Uint8Array | string,
+  attesterState: AttesterState
+): string[] {
+  const attestationBytes = typeof attestation === "string"
+    ? Buffer.from(attestation.replace(/^0x/, ""), "hex")
+    : Buffer.from(attestation);
+  const expectedLength = attesterState.signatureThreshold * SIGNATURE_LENGTH;
+  if (attestationBytes.length !== expectedLength) {
+    throw new AttestationVerificationError(
+      "EInvalidAttestationLength",
+      `Attestation is ${attestationBytes.length} bytes, expected ${expectedLength} bytes ` +
+      `for a signature threshold of ${attesterState.signatureThreshold}.`
+    );
+  }
+
+  const messageHash = ethutil.toBuffer(hashMessage(message));
+  const enabledAttesters = new Set(attesterState.enabledAttesters.map(normalizeAddress));
+  const signers: string[] = [];
+  let latestSigner = BigInt(0);
+
+  for (let i = 0; i < attesterState.signatureThreshold; i++) {
+    const signature = attestationBytes.subarray(i * SIGNATURE_LENGTH, (i + 1) * SIGNATURE_LENGTH);
+    const r = signature.subarray(0, 32);
+    const s = signature.subarray(32, 64);
+    const v = signature[64];
+
+    if (BigInt(`0x${s.toString("hex")}`) > HALF_CURVE_ORDER) {
+      throw new AttestationVerificationError("EInvalidSignatureSValue", `Signature ${i} has a high s value.`, i);
+    }
+    if (v !== 27 && v !== 28) {
+      throw new AttestationVerificationError("EInvalidSignatureRecoveryId", `Signature ${i} has an invalid recovery id ${v}.`, i);
+    }
+
+    let signer: string;
+    try {
+      signer = normalizeAddress(ethutil.publicToAddress(ethutil.ecrecover(messageHash, v, r, s)).toString("hex"));
+    } catch (err) {
+      throw new AttestationVerificationError("EInvalidSignature", `Signature ${i} could not be recovered: ${err}`, i);
+    }
+
+    if (BigInt(signer) <= latestSigner) {
+      throw new AttestationVerificationError(
+        "EInvalidSignatureOrder",
+        `Signer ${signer} of signature ${i} is a duplicate or is not sorted by increasing address.`,
+        i,
+        signer
+      );
+    }
+    if (!enabledAttesters.has(signer)) {
+      throw new AttestationVerificationError("ESignerIsNotAttester", `Signer ${signer} of signature ${i} is not an enabled attester.`, i, signer);
+    }
+
+    latestSigner = BigInt(signer);
+    signers.push(signer);
+  }
+
+  return signers;
+}
+
+/**
+ * Fetches the attester configuration of a message_transmitter State object and verifies an attestation against it.
+ */
+export async function verifyAttestationOnChain(args: {
+  client: SuiClient;
+  messageTransmitterStateId: string;
+  message: Uint8Array | string;
+  attestation: Uint8Array | string;
+}): Promise<string[]> {
+  const attesterState = await fetchAttesterState(args.client, args.messageTransmitterStateId);
+  return verifyAttestation(args.message, args.attestation, attesterState);
+}
+
+/**
+ * Fetches the attestation status of a message hash once.
+ * The API returns a 404 until it has observed the message, which is treated as pending.
+ */
+export async function fetchAttestation(url: string, messageHash: string): Promise<AttestationResponse> {
+  const response = await fetch(`${url.replace(/\/$/, "")}/v1/attestations/${messageHash}`);
+  if (response.status === 404) {
+    return { status: "pending" };
+  }
+  if (!response.ok) {
+    throw new Error(`Attestation API returned ${response.status} for ${messageHash}: ${await response.text()}`);
+  }
+
+  const body = await response.json() as { status?: string; attestation?: string };
+  if (body.status === "complete" && body.attestation?.startsWith("0x")) {
+    return { status: "complete", attestation: body.attestation };
+  }
+  return { status: "pending" };
+}
+
+/**
+ * Creates a provider polling an attestation API by message hash, with exponential backoff
+ * between polls while the attestation is pending.
+ */
+export function createHttpAttestationProvider(options: HttpAttestationProviderOptions): AttestationProvider {
+  const initialDelayMs = options.initialDelayMs ?? 2_000;
+  const maxDelayMs = options.maxDelayMs ?? 30_000;
+  const backoffMultiplier = options.backoffMultiplier ?? 2;
+  const timeoutMs = options.timeoutMs ?? 30 * 60_000;
+
+  return {
+    getAttestation: async (message) => {
+      const messageHash = hashMessage(message);
+      const deadline = Date.now() + timeoutMs;
+      let delayMs = initialDelayMs;
+
+      for (;;) {
+        const response = await fetchAttestation(options.url, messageHash);
+        if (response.status === "complete") {
+          return response.attestation!;
+        }
+        if (Date.now() + delayMs > deadline) {
+          throw new AttestationPendingError(messageHash, `Timed out after ${timeoutMs}ms waiting for the attestation of ${messageHash}.`);
+        }
+
+        await sleep(delayMs);
+        delayMs = Math.min(delayMs * backoffMultiplier, maxDelayMs);
+      }
+    }
+  };
+}
+
+/**
+ * Creates the HTTP provider if ATTESTATION_API_URL is set, otherwise the local provider.
+ */
+export function createAttestationProviderFromEnv(): AttestationProvider {
+  if (process.env.ATTESTATION_API_URL) {
+    return createHttpAttestationProvider({ url: process.env.ATTESTATION_API_URL });
+  }
+  return createLocalAttestationProvider();
+}
+
+// Orders attesters by increasing address. Addresses share the same length and casing.
+function compareAttesters(a: LocalAttester, b: LocalAttester): number {
+  return a.address < b.address ? -1 : a.address > b.address ? 1 : 0;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,1035 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SuiClient, SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { Signer } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { fromB64, isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+import { Argument, InvalidArgumentError, program } from "commander";
+import dotenv from "dotenv";
+import fs from "fs";
+import path from "path";
+import readline from "readline/promises";
+
+import {
+  AttesterManagerAction,
+  AttesterManagerState,
+  buildAttesterManagerTransaction,
+  buildRemoteTokenMessengerTransaction,
+  buildRoleManagementTransaction,
+  buildTokenControllerTransaction,
+  CCTP_PACKAGES,
+  CctpPackage,
+  checkAttesterManagerAction,
+  describeAttesterManagerAction,
+  describeTokenControllerAction,
+  executeAttesterManagerActions,
+  fetchAddedRemoteDomains,
+  fetchAttesterManagerState,
+  fetchPackageRoles,
+  fetchRemoteTokenMessengers,
+  fetchTokenControllerState,
+  getPackageIds,
+  getRequiredSigner,
+  getSuiTokenMessengerAddress,
+  PackageRoles,
+  planAttesterRotation,
+  RoleManagementAction,
+  TokenControllerAction,
+  TokenControllerState
+} from "./admin";
+import { AttesterState } from "./attestation";
+import {
+  addEvmRemoteTokenMessenger,
+  EvmContractTarget,
+  fetchEvmRemoteTokenMessenger,
+  removeEvmRemoteTokenMessenger
+} from "./evmAdmin";
+import { executeSignedTransaction, executeTransactionHelper, inspectObject, recoverChangedObjectId } from "./helpers";
+import {
+  DeploymentManifest,
+  getDeployerSigner,
+  getDeploymentManifestPath,
+  getUsdcCoinType,
+  loadDeploymentManifest,
+  readDeploymentManifest,
+  toCctpDeployment,
+  toEvmAddress,
+  writeDeploymentManifest
+} from "./manifest";
+import { normalizeAddress } from "./message";
+import {
+  buildUnsignedTransaction,
+  combineTransactionSignatures,
+  readTransactionSignature,
+  readUnsignedTransaction,
+  signUnsignedTransaction,
+  summarizeUnsignedTransaction,
+  UnsignedTransaction
+} from "./offline";
+import { getMultisigPublicKey, loadSignerFromEnv } from "./signers";
+import { fetchCctpStatus, formatCctpStatusJson, formatCctpStatusText } from "./status";
+import { CctpDeployment } from "./transactions";
+import { fetchTransferStatus, formatTransferStatusJson, formatTransferStatusText, TransferLookup } from "./transferStatus";
+import {
+  buildMigrationTransaction,
+  buildPackage,
+  buildUpgradeTransaction,
+  checkCompatibleVersions,
+  CompatibleVersions,
+  executeMigrationStep,
+  fetchCompatibleVersions,
+  fetchCurrentVersion,
+  fetchUpgradeServiceType,
+  findOwnedUpgradeCap,
+  MIGRATION_STEPS,
+  MigrationStep
+} from "./upgrade";
+
+dotenv.config();
+
+const FULLNODE_PORT = process.env.FULLNODE_PORT ?? "7000";
+const SUI_RPC_URL = process.env.SUI_RPC_URL ?? `http://localhost:${FULLNODE_PORT}`;
+const DEFAULT_EVM_OWNER_KEY_ENV = "EVM_TOKEN_MESSENGER_DEPLOYER_KEY";
+
+interface CoinTypeOptions {
+  coinType?: string;
+}
+
+interface RemoteTokenMessengerOptions {
+  evmRpcUrl?: string;
+  evmOwnerKeyEnv: string;
+  suiOnly?: boolean;
+  evmOnly?: boolean;
+}
+
+interface UpgradeOptions {
+  packagePath?: string;
+  packageId?: string;
+  upgradeOnly?: boolean;
+  complete?: boolean;
+  abort?: boolean;
+}
+
+interface TransferStatusOptions {
+  suiDigest?: string;
+  evmTx?: string;
+  evmDomain?: number;
+  sourceDomain?: number;
+  nonce?: bigint;
+  json?: boolean;
+}
+
+interface AdminContext {
+  client: SuiClient;
+  manifest: DeploymentManifest;
+  deployment: CctpDeployment;
+  // Address the transactions are sent from, which is the signer's unless --sender is set with --unsigned.
+  sender: string;
+  // Not loaded with --unsigned, as the transactions are signed offline.
+  signer?: Signer;
+}
+
+/**
+ * Admin CLI for the CCTP packages of the deployment manifest written by `yarn deploy-local`.
+ *
+ * Transactions are signed by ADMIN_SIGNER or ADMIN_PRIVATE_KEY if set, or the deployer signer otherwise,
+ * which can be a multisig account (see loadSigner). Every command
+ * prints the current state and asks for confirmation before sending a transaction, unless --yes is set.
+ * With --dry-run, the first Sui transaction of a command is simulated and printed instead, and nothing is sent.
+ *
+ * For keys kept offline, --unsigned writes the first Sui transaction of a command to a file instead of sending it,
+ * along with a summary of its calls and arguments. The `sign` command signs the file on the offline machine, and
+ * `submit` combines the signatures and executes the transaction.
+ */
+const main = async () => {
+  program
+    .name("cctp-admin")
+    .description("Manage the roles, attesters and tokens of the CCTP packages on Sui")
+    .option("-y, --yes", "send transactions without asking for confirmation")
+    .option("--dry-run", "simulate the first Sui transaction of the command without sending anything")
+    .option("--unsigned <path>", "write the first Sui transaction of the command to a file for offline signing instead of sending it")
+    .option("--sender <address>", "address sending the transaction with --unsigned, defaults to the admin signer's");
+
+  program
+    .command("status")
+    .description("show the state of both CCTP packages, without sending any transaction")
+    .option("--json", "print the status as JSON")
+    .action(async (options: { json?: boolean }) => {
+      const { client, deployment, manifest } = await loadReadOnlyContext();
+      const status = await fetchCctpStatus({
+        client,
+        deployment,
+        remoteDomains: await getRemoteDomains(client, deployment, manifest),
+        tokens: [{ coinType: getUsdcCoinType(manifest), remoteTokens: getManifestRemoteTokens(manifest) }]
+      });
+      console.log(options.json ? formatCctpStatusJson(status) : formatCctpStatusText(status));
+    });
+
+  program
+    .command("transfer-status")
+    .description("show whether a transfer was burned, attested and received, from its source transaction or nonce")
+    .option("--sui-digest <digest>", "digest of the Sui transaction that sent the message")
+    .option("--evm-tx <hash>", "hash of the EVM transaction that sent the message, with --evm-domain")
+    .option("--evm-domain <domain>", "domain of the EVM chain the transaction was sent on", parseDomain)
+    .option("--source-domain <domain>", "domain the message was sent from, with --nonce", parseDomain)
+    .option("--nonce <nonce>", "nonce of the message", parseU64)
+    .option("--json", "print the status as JSON")
+    .action(async (options: TransferStatusOptions) => {
+      const { client, deployment, manifest } = await loadReadOnlyContext();
+      const status = await fetchTransferStatus({
+        client,
+        deployment,
+        localDomain: manifest.localDomain,
+        evmChains: manifest.remoteDomains
+          .filter((remoteDomain) => remoteDomain.evm)
+          .map((remoteDomain) => ({ domain: remoteDomain.domain, ...remoteDomain.evm! })),
+        lookup: getTransferLookup(options),
+        attestationApiUrl: process.env.ATTESTATION_API_URL || undefined
+      });
+      console.log(options.json ? formatTransferStatusJson(status) : formatTransferStatusText(status));
+    });
+
+  program
+    .command("roles")
+    .description("show the role holders of a package")
+    .addArgument(packageArgument())
+    .action(async (cctpPackage: CctpPackage) => {
+      const { client, deployment } = await loadReadOnlyContext();
+      printRoles(cctpPackage, await fetchPackageRoles(client, deployment, cctpPackage));
+    });
+
+  program
+    .command("pause")
+    .description("pause a package, as its pauser")
+    .addArgument(packageArgument())
+    .action((cctpPackage: CctpPackage) => runRoleManagementAction(cctpPackage, "pause"));
+
+  program
+    .command("unpause")
+    .description("unpause a package, as its pauser")
+    .addArgument(packageArgument())
+    .action((cctpPackage: CctpPackage) => runRoleManagementAction(cctpPackage, "unpause"));
+
+  program
+    .command("update-pauser")
+    .description("replace the pauser of a package, as its owner")
+    .addArgument(packageArgument())
+    .argument("<address>", "new pauser")
+    .action((cctpPackage: CctpPackage, address: string) => runRoleManagementAction(cctpPackage, "update_pauser", address));
+
+  program
+    .command("update-attester-manager")
+    .description("replace the attester manager of message_transmitter, as its owner")
+    .argument("<address>", "new attester manager")
+    .action((address: string) => runRoleManagementAction("message_transmitter", "update_attester_manager", address));
+
+  program
+    .command("update-token-controller")
+    .description("replace the token controller of token_messenger_minter, as its owner")
+    .argument("<address>", "new token controller")
+    .action((address: string) => runRoleManagementAction("token_messenger_minter", "update_token_controller", address));
+
+  program
+    .command("transfer-ownership")
+    .description("start transferring ownership of a package, as its owner")
+    .addArgument(packageArgument())
+    .argument("<address>", "new owner, who must then accept ownership")
+    .action((cctpPackage: CctpPackage, address: string) => runRoleManagementAction(cctpPackage, "transfer_ownership", address));
+
+  program
+    .command("accept-ownership")
+    .description("accept ownership of a package, as its pending owner")
+    .addArgument(packageArgument())
+    .action((cctpPackage: CctpPackage) => runRoleManagementAction(cctpPackage, "accept_ownership"));
+
+  program
+    .command("attesters")
+    .description("show the enabled attesters and signature threshold of message_transmitter")
+    .action(async () => {
+      const { client, deployment } = await loadReadOnlyContext();
+      printAttesterState(await fetchAttesterManagerState(client, deployment));
+    });
+
+  program
+    .command("enable-attester")
+    .description("enable an attester, as the attester manager")
+    .argument("<attester>", "EVM address of the attester", parseEvmAddress)
+    .action((attester: string) => runAttesterManagerActions(() => [{ type: "enable_attester", attester }]));
+
+  program
+    .command("disable-attester")
+    .description("disable an attester, as the attester manager")
+    .argument("<attester>", "EVM address of the attester", parseEvmAddress)
+    .action((attester: string) => runAttesterManagerActions(() => [{ type: "disable_attester", attester }]));
+
+  program
+    .command("set-signature-threshold")
+    .description("set the number of attester signatures required, as the attester manager")
+    .argument("<threshold>", "new signature threshold")
+    .action((threshold: string) => runAttesterManagerActions(() => [
+      { type: "set_signature_threshold", signatureThreshold: Number(threshold) }
+    ]));
+
+  program
+    .command("rotate-attester")
+    .description("replace an attester by enabling the new one, updating the threshold and disabling the old one")
+    .argument("<old-attester>", "EVM address of the attester to disable", parseEvmAddress)
+    .argument("<new-attester>", "EVM address of the attester to enable", parseEvmAddress)
+    .option("--signature-threshold <threshold>", "signature threshold to set between enabling and disabling")
+    .action((oldAttester: string, newAttester: string, options: { signatureThreshold?: string }) =>
+      runAttesterManagerActions((state) => planAttesterRotation(state, {
+        oldAttester,
+        newAttester,
+        signatureThreshold: options.signatureThreshold === undefined ? undefined : Number(options.signatureThreshold)
+      }))
+    );
+
+  program
+    .command("token-controller")
+    .description("show the burn limit, mint cap and token pairs of a coin")
+    .option("--coin-type <type>", "local coin type, defaults to USDC")
+    .action(async (options: CoinTypeOptions) => {
+      const { client, deployment, manifest } = await loadReadOnlyContext();
+      const coinType = options.coinType ?? getUsdcCoinType(manifest);
+      printTokenControllerState(await fetchTokenControllerState(client, deployment, coinType, getManifestRemoteTokens(manifest)));
+    });
+
+  program
+    .command("link-token-pair")
+    .description("link a remote token to a local coin, as the token controller")
+    .argument("<remote-domain>", "domain of the remote chain", parseDomain)
+    .argument("<remote-token>", "address of the token on the remote chain", parseRemoteAddress)
+    .option("--coin-type <type>", "local coin type, defaults to USDC")
+    .action((remoteDomain: number, remoteToken: string, options: CoinTypeOptions) =>
+      runTokenControllerAction(options, () => ({ type: "link_token_pair", remoteDomain, remoteToken })));
+
+  program
+    .command("unlink-token-pair")
+    .description("unlink a remote token from a local coin, as the token controller")
+    .argument("<remote-domain>", "domain of the remote chain", parseDomain)
+    .argument("<remote-token>", "address of the token on the remote chain", parseRemoteAddress)
+    .option("--coin-type <type>", "local coin type, defaults to USDC")
+    .action((remoteDomain: number, remoteToken: string, options: CoinTypeOptions) =>
+      runTokenControllerAction(options, () => ({ type: "unlink_token_pair", remoteDomain, remoteToken })));
+
+  program
+    .command("set-max-burn-amount-per-message")
+    .description("set the maximum amount of a coin burned per message, as the token controller")
+    .argument("<amount>", "burn limit per message, in the coin's smallest unit", parseU64)
+    .option("--coin-type <type>", "local coin type, defaults to USDC")
+    .action((burnLimitPerMessage: bigint, options: CoinTypeOptions) =>
+      runTokenControllerAction(options, () => ({ type: "set_max_burn_amount_per_message", burnLimitPerMessage })));
+
+  program
+    .command("add-stablecoin-mint-cap")
+    .description("store a MintCap owned by the signer in token_messenger_minter, as the token controller")
+    .argument("<mint-cap-id>", "id of the MintCap object")
+    .option("--coin-type <type>", "local coin type, defaults to USDC")
+    .action((mintCapId: string, options: CoinTypeOptions) =>
+      runTokenControllerAction(options, () => ({ type: "add_stablecoin_mint_cap", mintCapId })));
+
+  program
+    .command("remove-stablecoin-mint-cap")
+    .description("take back a MintCap deauthorized in the treasury, as the token controller")
+    .option("--coin-type <type>", "local coin type, defaults to USDC")
+    .option("--treasury <id>", "Treasury<T> object of the coin, defaults to the USDC treasury")
+    .action((options: CoinTypeOptions & { treasury?: string }) =>
+      runTokenControllerAction(options, (deployment) => {
+        if (options.coinType && !options.treasury) {
+          throw new Error("--treasury is required to remove the mint cap of a coin other than USDC.");
+        }
+        return { type: "remove_stablecoin_mint_cap", treasuryId: options.treasury ?? deployment.treasuryId };
+      }));
+
+  program
+    .command("remote-token-messengers")
+    .description("list the remote token messengers registered on Sui, and Sui's registration on EVM chains")
+    .action(async () => {
+      const { client, deployment, manifest } = await loadReadOnlyContext();
+      const remoteTokenMessengers = await fetchRemoteTokenMessengers(client, deployment, await getRemoteDomains(client, deployment, manifest));
+      const suiTokenMessenger = getSuiTokenMessengerAddress(deployment.tokenMessengerMinterId);
+
+      console.log(`Sui token messenger address on remote chains: ${suiTokenMessenger}\n`);
+      for (const { domain, tokenMessenger } of remoteTokenMessengers) {
+        console.log(`domain ${domain}:`);
+        console.log(`  registered on Sui: ${tokenMessenger ?? "none"}`);
+        const evm = getEvmTarget(manifest, domain, {});
+        if (evm) {
+          printEvmRegistration(await fetchEvmRemoteTokenMessenger(evm, manifest.localDomain), suiTokenMessenger);
+        }
+      }
+    });
+
+  program
+    .command("add-remote-token-messenger")
+    .description("register a remote token messenger on Sui, as the owner, and register Sui on the remote EVM chain")
+    .argument("<remote-domain>", "domain of the remote chain", parseDomain)
+    .argument("<token-messenger>", "address of the token messenger on the remote chain", parseRemoteAddress)
+    .option("--evm-rpc-url <url>", "RPC URL of the remote EVM chain, defaults to the one in the manifest")
+    .option("--evm-owner-key-env <name>", "environment variable holding the EVM TokenMessenger owner key", DEFAULT_EVM_OWNER_KEY_ENV)
+    .option("--sui-only", "only register the remote token messenger on Sui")
+    .option("--evm-only", "only register Sui on the remote EVM chain, without a Sui signer")
+    .action((domain: number, tokenMessenger: string, options: RemoteTokenMessengerOptions) =>
+      runRemoteTokenMessengerAction(domain, tokenMessenger, options));
+
+  program
+    .command("remove-remote-token-messenger")
+    .description("remove the token messenger of a remote domain on Sui, as the owner, and remove Sui on the remote EVM chain")
+    .argument("<remote-domain>", "domain of the remote chain", parseDomain)
+    .option("--evm-rpc-url <url>", "RPC URL of the remote EVM chain, defaults to the one in the manifest")
+    .option("--evm-owner-key-env <name>", "environment variable holding the EVM TokenMessenger owner key", DEFAULT_EVM_OWNER_KEY_ENV)
+    .option("--sui-only", "only remove the remote token messenger on Sui")
+    .option("--evm-only", "only remove Sui on the remote EVM chain, without a Sui signer")
+    .action((domain: number, options: RemoteTokenMessengerOptions) => runRemoteTokenMessengerAction(domain, undefined, options));
+
+  program
+    .command("versions")
+    .description("show the package versions each State object is compatible with")
+    .action(async () => {
+      const { client, deployment } = await loadReadOnlyContext();
+      printCompatibleVersions(await fetchCompatibleVersions(client, deployment));
+    });
+
+  program
+    .command("upgrade")
+    .description("build and upgrade a package through its UpgradeService, then start migrating its State, as the owner")
+    .addArgument(packageArgument())
+    .option("--package-path <path>", "Move package to build, defaults to the package in packages/")
+    .option("--package-id <id>", "package version being upgraded, defaults to the one in the manifest")
+    .option("--upgrade-only", "only upgrade the package, without starting the migration; required with --unsigned")
+    .option("--complete", "complete the migration once started")
+    .option("--abort", "abort the migration once started, e.g. to rehearse the abort path")
+    .action((cctpPackage: CctpPackage, options: UpgradeOptions) => runUpgrade(cctpPackage, options));
+
+  program
+    .command("migrate")
+    .description("run a migration step of a State object from an upgraded package version, as the owner")
+    .addArgument(packageArgument())
+    .addArgument(new Argument("<step>", "migration step").choices(MIGRATION_STEPS))
+    .requiredOption("--package-id <id>", "upgraded package version, which the State is migrated to")
+    .action(async (cctpPackage: CctpPackage, step: MigrationStep, options: { packageId: string }) => {
+      const context = await loadAdminContext();
+      await checkOwnerSigner(context, cctpPackage, step);
+      printCompatibleVersions(await fetchCompatibleVersions(context.client, context.deployment));
+      await confirm(`Send ${cctpPackage}::migration::${step} from ${options.packageId}?`);
+      await runMigrationStep(context, cctpPackage, options.packageId, step);
+    });
+
+  program
+    .command("sign")
+    .description("sign a transaction written with --unsigned, with the admin signer, without connecting to a node")
+    .argument("<unsigned-path>", "unsigned transaction file")
+    .option("-o, --output <path>", "signature file, defaults to <unsigned-path> with a .<signer address>.sig.json suffix")
+    .action((unsignedPath: string, options: { output?: string }) => runSign(unsignedPath, options.output));
+
+  program
+    .command("submit")
+    .description("combine the signatures of a transaction written with --unsigned and execute it")
+    .argument("<unsigned-path>", "unsigned transaction file")
+    .argument("<signature-paths...>", "signature files written by `sign`")
+    .option("--multisig <path>", "MultisigConfig JSON file of the sender, if it is a multisig account; its signers are ignored")
+    .action((unsignedPath: string, signaturePaths: string[], options: { multisig?: string }) =>
+      runSubmit(unsignedPath, signaturePaths, options.multisig));
+
+  await program.parseAsync();
+};
+
+function parseEvmAddress(address: string): string {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    throw new InvalidArgumentError("Expected a 20 byte EVM address.");
+  }
+  return address;
+}
+
+function parseRemoteAddress(address: string): string {
+  if (!/^0x([0-9a-fA-F]{40}|[0-9a-fA-F]{64})$/.test(address)) {
+    throw new InvalidArgumentError("Expected a 20 or 32 byte hex address.");
+  }
+  return address;
+}
+
+function parseDomain(domain: string): number {
+  if (!/^\d+$/.test(domain) || Number(domain) > 0xffffffff) {
+    throw new InvalidArgumentError("Expected a u32 domain.");
+  }
+  return Number(domain);
+}
+
+function parseU64(amount: string): bigint {
+  if (!/^\d+$/.test(amount) || BigInt(amount) > BigInt("0xffffffffffffffff")) {
+    throw new InvalidArgumentError("Expected a u64 amount.");
+  }
+  return BigInt(amount);
+}
+
+function getTransferLookup(options: TransferStatusOptions): TransferLookup {
+  if (options.suiDigest) {
+    return { suiDigest: options.suiDigest, nonce: options.nonce };
+  }
+  if (options.evmTx) {
+    if (options.evmDomain === undefined) {
+      throw new Error("--evm-domain is required with --evm-tx.");
+    }
+    return { evmTxHash: options.evmTx, evmDomain: options.evmDomain, nonce: options.nonce };
+  }
+  if (options.sourceDomain === undefined || options.nonce === undefined) {
+    throw new Error("Pass --sui-digest, --evm-tx and --evm-domain, or --source-domain and --nonce.");
+  }
+  return { sourceDomain: options.sourceDomain, nonce: options.nonce };
+}
+
+function packageArgument(): Argument {
+  return new Argument("<package>", "CCTP package").choices(CCTP_PACKAGES);
+}
+
+async function loadAdminContext(): Promise<AdminContext> {
+  const { sender, unsigned } = program.opts();
+  if (sender !== undefined && !unsigned) {
+    throw new Error("--sender is only used with --unsigned, transactions are otherwise sent from the admin signer.");
+  }
+  if (sender !== undefined && !isValidSuiAddress(sender)) {
+    throw new Error(`Invalid sender ${sender}, expected a 32 byte Sui address.`);
+  }
+  if (unsigned && isDryRun()) {
+    throw new Error("Pass either --unsigned or --dry-run, not both.");
+  }
+  const context = await loadReadOnlyContext();
+  if (unsigned) {
+    return { ...context, sender: normalizeSuiAddress(sender ?? getAdminSigner(context.manifest).toSuiAddress()) };
+  }
+  const signer = getAdminSigner(context.manifest);
+  return { ...context, sender: signer.toSuiAddress(), signer };
+}
+
+// Loads the context of commands that only read state, which don't need a signer.
+async function loadReadOnlyContext(): Promise<Omit<AdminContext, "sender" | "signer">> {
+  const client = new SuiClient({ url: SUI_RPC_URL });
+  const manifest = await loadDeploymentManifest({ client });
+  return { client, manifest, deployment: toCctpDeployment(manifest) };
+}
+
+// Returns the remote domains of the manifest and those a token messenger was ever added for.
+async function getRemoteDomains(client: SuiClient, deployment: CctpDeployment, manifest: DeploymentManifest): Promise<number[]> {
+  const addedDomains = await fetchAddedRemoteDomains(client, deployment.tokenMessengerMinterId);
+  return Array.from(new Set([...manifest.remoteDomains.map((remoteDomain) => remoteDomain.domain), ...addedDomains]))
+    .sort((a, b) => a - b);
+}
+
+function getAdminSigner(manifest: DeploymentManifest): Signer {
+  return loadSignerFromEnv("ADMIN_SIGNER", "ADMIN_PRIVATE_KEY") ?? getDeployerSigner(manifest);
+}
+
+async function runRoleManagementAction(cctpPackage: CctpPackage, action: RoleManagementAction, address?: string) {
+  if (address !== undefined && !isValidSuiAddress(address)) {
+    throw new Error(`Invalid address ${address}, expected a 32 byte Sui address.`);
+  }
+  const context = await loadAdminContext();
+  const { client, deployment, sender } = context;
+
+  const roles = await fetchPackageRoles(client, deployment, cctpPackage);
+  printRoles(cctpPackage, roles);
+
+  const requiredSigner = getRequiredSigner(roles, action);
+  if (requiredSigner !== sender) {
+    throw new Error(
+      `${action} must be signed by ${requiredSigner ?? "the pending owner, but there is none"}, ` +
+      `but the signer is ${sender}.`
+    );
+  }
+
+  const transaction = buildRoleManagementTransaction({ deployment, cctpPackage, action, address });
+  const description = `${cctpPackage}::${action}${address ? `(${address})` : ""}`;
+  await confirm(`Send ${description} from ${sender}?`);
+
+  const output = await sendTransaction(context, transaction, description);
+  if (!output) {
+    return;
+  }
+  console.log(`${description} transaction successful: ${output.digest}\n`);
+
+  printRoles(cctpPackage, await fetchPackageRoles(client, deployment, cctpPackage));
+}
+
+// Plans attester manager actions from the current state, checks them all before sending any, then sends them in order.
+async function runAttesterManagerActions(plan: (state: AttesterState) => AttesterManagerAction[]) {
+  const context = await loadAdminContext();
+  const { client, deployment, sender } = context;
+
+  const state = await fetchAttesterManagerState(client, deployment);
+  printAttesterState(state);
+  if (state.attesterManager !== sender) {
+    throw new Error(`Attester changes must be signed by the attester manager ${state.attesterManager}, but the signer is ${sender}.`);
+  }
+
+  const actions = plan(state);
+  actions.reduce(checkAttesterManagerAction, state);
+  console.log("Planned transactions:");
+  actions.forEach((action, i) => console.log(`  ${i + 1}. message_transmitter::attester_manager::${describeAttesterManagerAction(action)}`));
+  await confirm(`Send ${actions.length} transaction(s) from ${sender}?`);
+  if (isDryRun() || isUnsigned()) {
+    // The actions depend on each other, so they are simulated, or signed offline, together in a single PTB.
+    const transaction = actions.reduce(
+      (tx, action) => buildAttesterManagerTransaction({ deployment, action, transaction: tx }),
+      new Transaction()
+    );
+    const description = actions.map((action) => `message_transmitter::attester_manager::${describeAttesterManagerAction(action)}`).join(", ");
+    await sendTransaction(context, transaction, description);
+    return;
+  }
+
+  const finalState = await executeAttesterManagerActions({
+    client,
+    deployment,
+    signer: getSigner(context),
+    actions,
+    onExecuted: (action, digest) => console.log(`${describeAttesterManagerAction(action)} transaction successful: ${digest}`)
+  });
+  console.log();
+  printAttesterState(finalState);
+}
+
+// Sends a token controller action, showing the coin's settings before and after it.
+async function runTokenControllerAction(
+  options: CoinTypeOptions,
+  createAction: (deployment: CctpDeployment) => TokenControllerAction
+) {
+  const context = await loadAdminContext();
+  const { client, deployment, manifest, sender } = context;
+  const coinType = options.coinType ?? getUsdcCoinType(manifest);
+  const action = createAction(deployment);
+
+  // Show the pair being changed along with the pairs of the manifest.
+  const remoteTokens = getManifestRemoteTokens(manifest);
+  if (action.type === "link_token_pair" || action.type === "unlink_token_pair") {
+    remoteTokens.push({ remoteDomain: action.remoteDomain, remoteToken: action.remoteToken });
+  }
+  const uniqueRemoteTokens = remoteTokens.filter((token, i) => remoteTokens.findIndex((other) =>
+    other.remoteDomain === token.remoteDomain && normalizeAddress(other.remoteToken) === normalizeAddress(token.remoteToken)
+  ) === i);
+
+  const roles = await fetchPackageRoles(client, deployment, "token_messenger_minter");
+  printTokenControllerState(await fetchTokenControllerState(client, deployment, coinType, uniqueRemoteTokens));
+  if (roles.tokenController !== sender) {
+    throw new Error(`${action.type} must be signed by the token controller ${roles.tokenController}, but the signer is ${sender}.`);
+  }
+
+  const transaction = buildTokenControllerTransaction({ deployment, coinType, action });
+  const description = `token_messenger_minter::token_controller::${describeTokenControllerAction(action)}`;
+  await confirm(`Send ${description} for ${coinType} from ${sender}?`);
+
+  const output = await sendTransaction(context, transaction, `${description} for ${coinType}`);
+  if (!output) {
+    return;
+  }
+  console.log(`${description} transaction successful: ${output.digest}\n`);
+
+  printTokenControllerState(await fetchTokenControllerState(client, deployment, coinType, uniqueRemoteTokens));
+}
+
+// Adds the token messenger of a remote domain, or removes it if none is given, on both Sui and the remote EVM chain.
+// Each side is skipped if it is already in the requested state, so a partially applied link can be completed.
+async function runRemoteTokenMessengerAction(domain: number, tokenMessenger: string | undefined, options: RemoteTokenMessengerOptions) {
+  if (options.suiOnly && options.evmOnly) {
+    throw new Error("Pass either --sui-only or --evm-only, not both.");
+  }
+  // The EVM side is signed by the EVM owner key, so --evm-only doesn't load the Sui signer.
+  const context = options.evmOnly ? null : await loadAdminContext();
+  const { client, deployment, manifest } = context ?? await loadReadOnlyContext();
+  const action = tokenMessenger ? "add_remote_token_messenger" : "remove_remote_token_messenger";
+  const suiTokenMessenger = getSuiTokenMessengerAddress(deployment.tokenMessengerMinterId);
+
+  const roles = await fetchPackageRoles(client, deployment, "token_messenger_minter");
+  const [{ tokenMessenger: registered }] = await fetchRemoteTokenMessengers(client, deployment, [domain]);
+  console.log(`domain ${domain}:`);
+  console.log(`  registered on Sui: ${registered ?? "none"}`);
+
+  if (tokenMessenger && registered && registered !== normalizeAddress(tokenMessenger)) {
+    throw new Error(`Domain ${domain} already has token messenger ${registered} on Sui, remove it first (ERemoteTokenMessengerAlreadyAdded).`);
+  }
+  const sendSui = context !== null && (tokenMessenger ? registered === null : registered !== null);
+  if (context && sendSui && roles.owner !== context.sender) {
+    throw new Error(`${action} must be signed by the owner ${roles.owner}, but the signer is ${context.sender}.`);
+  }
+
+  // The remote chain's TokenMessenger is the one being added, or the one registered on Sui when removing,
+  // falling back to the manifest's once it is removed from Sui.
+  const remoteTokenMessenger = tokenMessenger ?? registered ?? undefined;
+  const evm = options.suiOnly ? null : getEvmTarget(manifest, domain, options, remoteTokenMessenger);
+  let sendEvm = false;
+  if (evm) {
+    if (!evm.privateKey && !isUnsigned()) {
+      throw new Error(`${options.evmOwnerKeyEnv} must be set to update the TokenMessenger of domain ${domain}, or pass --sui-only.`);
+    }
+    const evmRegistered = await fetchEvmRemoteTokenMessenger(evm, manifest.localDomain);
+    printEvmRegistration(evmRegistered, suiTokenMessenger);
+    if (tokenMessenger && evmRegistered && evmRegistered !== suiTokenMessenger) {
+      throw new Error(`TokenMessenger ${evm.address} already registers another token messenger for Sui, remove it first.`);
+    }
+    sendEvm = tokenMessenger ? evmRegistered === null : evmRegistered !== null;
+  }
+
+  if (!sendSui && !sendEvm) {
+    console.log(`\nDomain ${domain} is already ${tokenMessenger ? "linked" : "unlinked"}, no transaction to send.`);
+    return;
+  }
+  if (isUnsigned() && sendEvm) {
+    throw new Error(
+      `--unsigned only writes Sui transactions, but domain ${domain} needs a TokenMessenger transaction on its EVM chain. ` +
+      "Pass --sui-only, then run the command again with --evm-only once the Sui transaction is executed."
+    );
+  }
+  console.log("\nPlanned transactions:");
+  if (sendSui) {
+    console.log(`  Sui: token_messenger_minter::remote_token_messenger::${action}(${domain}${tokenMessenger ? `, ${tokenMessenger}` : ""})`);
+  }
+  if (evm && sendEvm) {
+    console.log(tokenMessenger
+      ? `  domain ${domain}: TokenMessenger.addRemoteTokenMessenger(${manifest.localDomain}, ${suiTokenMessenger})`
+      : `  domain ${domain}: TokenMessenger.removeRemoteTokenMessenger(${manifest.localDomain})`);
+  }
+  await confirm("Send these transactions?");
+
+  if (context && sendSui) {
+    const transaction = buildRemoteTokenMessengerTransaction({ deployment, domain, tokenMessenger });
+    const description = `token_messenger_minter::remote_token_messenger::${action}(${domain}${tokenMessenger ? `, ${tokenMessenger}` : ""})`;
+    const output = await sendTransaction(context, transaction, description);
+    if (output) {
+      console.log(`${action} transaction successful: ${output.digest}`);
+    }
+  }
+  if (isDryRun() || isUnsigned()) {
+    if (evm && sendEvm) {
+      console.log(`The EVM transaction is not simulated with --dry-run${sendSui ? ", run the command again once the Sui transaction is executed" : ""}.`);
+    }
+    return;
+  }
+  if (evm && sendEvm) {
+    const transactionHash = tokenMessenger
+      ? await addEvmRemoteTokenMessenger(evm, manifest.localDomain, suiTokenMessenger)
+      : await removeEvmRemoteTokenMessenger(evm, manifest.localDomain);
+    console.log(`EVM TokenMessenger transaction successful: ${transactionHash}`);
+  }
+}
+
+// Returns the TokenMessenger of an EVM domain, from the options or the manifest, or null for non-EVM domains.
+function getEvmTarget(
+  manifest: DeploymentManifest,
+  domain: number,
+  options: Partial<RemoteTokenMessengerOptions>,
+  tokenMessenger?: string
+): EvmContractTarget | null {
+  const remoteDomain = manifest.remoteDomains.find((remoteDomain) => remoteDomain.domain === domain);
+  const rpcUrl = options.evmRpcUrl ?? remoteDomain?.evm?.rpcUrl;
+  const address = tokenMessenger ?? remoteDomain?.tokenMessenger;
+  if (!rpcUrl || !address) {
+    return null;
+  }
+  const privateKey = options.evmOwnerKeyEnv ? process.env[options.evmOwnerKeyEnv] : undefined;
+  return { rpcUrl, address: toEvmAddress(address), privateKey };
+}
+
+// Upgrades a package and, unless --upgrade-only, starts the migration of its State, then completes or aborts it if requested.
+// If completing fails, the migration is aborted so that the State stays compatible with the previous version only.
+async function runUpgrade(cctpPackage: CctpPackage, options: UpgradeOptions) {
+  if (options.complete && options.abort) {
+    throw new Error("Pass either --complete or --abort, not both.");
+  }
+  if (options.upgradeOnly && (options.complete || options.abort)) {
+    throw new Error("--upgrade-only doesn't start the migration, so it can't be completed or aborted.");
+  }
+  if (isUnsigned() && !options.upgradeOnly) {
+    throw new Error(
+      "--unsigned writes a single transaction, but the migration can only be built from the upgraded package once the " +
+      `upgrade is executed. Pass --upgrade-only, then build each step with \`migrate ${cctpPackage} <step> --unsigned\`.`
+    );
+  }
+  const context = await loadAdminContext();
+  const { client, deployment, manifest, sender } = context;
+  const packageId = options.packageId ?? getPackageIds(deployment, cctpPackage).packageId;
+  const upgradeServiceId = cctpPackage === "message_transmitter"
+    ? manifest.objects.messageTransmitterUpgradeService
+    : manifest.objects.tokenMessengerMinterUpgradeService;
+
+  await checkOwnerSigner(context, cctpPackage, "start_migration");
+  const before = await fetchCompatibleVersions(client, deployment);
+  printCompatibleVersions(before);
+
+  const packagePath = options.packagePath ?? path.join(__dirname, `../../packages/${cctpPackage}`);
+  console.log(`Building ${packagePath}...`);
+  const build = buildPackage(packagePath);
+  const { suiExtensionsId, witnessType } = await fetchUpgradeServiceType(client, upgradeServiceId);
+  const upgradeCapId = await findOwnedUpgradeCap(client, sender, getPackageIds(deployment, cctpPackage).packageId);
+
+  console.log("Planned transactions:");
+  if (upgradeCapId) {
+    console.log(`  deposit UpgradeCap ${upgradeCapId} in UpgradeService ${upgradeServiceId}`);
+  }
+  console.log(`  upgrade ${cctpPackage} ${packageId} through UpgradeService ${upgradeServiceId}`);
+  if (!options.upgradeOnly) {
+    console.log(`  ${cctpPackage}::migration::start_migration`);
+  }
+  if (options.complete || options.abort) {
+    console.log(`  ${cctpPackage}::migration::${options.complete ? "complete_migration" : "abort_migration"}`);
+  }
+  await confirm(`Send these transactions from ${sender}?`);
+
+  const transaction = buildUpgradeTransaction({ suiExtensionsId, upgradeServiceId, witnessType, packageId, build, upgradeCapId: upgradeCapId ?? undefined });
+  const output = await sendTransaction(context, transaction, `upgrade ${cctpPackage} ${packageId}`);
+  if (!output) {
+    // The migration is run from the upgraded package, so it can't be simulated or built before the upgrade.
+    if (isUnsigned()) {
+      console.log(`Once the upgrade is executed, build the migration with \`migrate ${cctpPackage} start_migration --package-id <upgraded package>\`.`);
+    }
+    return;
+  }
+  const upgradedPackageId = recoverChangedObjectId(output, "published");
+  console.log(`Upgrade transaction successful: ${output.digest}`);
+  console.log(`${cctpPackage} upgraded to ${upgradedPackageId}, at version ${await fetchCurrentVersion(client, upgradedPackageId)}\n`);
+  checkCompatibleVersions(await fetchCompatibleVersions(client, deployment), before);
+  if (options.upgradeOnly) {
+    console.log(`Run \`migrate ${cctpPackage} start_migration --package-id ${upgradedPackageId}\` to start the migration.`);
+    return;
+  }
+
+  await runMigrationStep(context, cctpPackage, upgradedPackageId, "start_migration");
+  if (options.abort) {
+    await runMigrationStep(context, cctpPackage, upgradedPackageId, "abort_migration");
+  } else if (options.complete) {
+    try {
+      await runMigrationStep(context, cctpPackage, upgradedPackageId, "complete_migration");
+    } catch (error) {
+      console.error(`complete_migration failed, aborting the migration: ${error}`);
+      await runMigrationStep(context, cctpPackage, upgradedPackageId, "abort_migration");
+      throw error;
+    }
+  } else {
+    console.log(`Run \`migrate ${cctpPackage} complete_migration --package-id ${upgradedPackageId}\` once the upgrade is verified, ` +
+      "or abort_migration to roll back.");
+  }
+}
+
+async function runMigrationStep(context: AdminContext, cctpPackage: CctpPackage, packageId: string, step: MigrationStep) {
+  if (isDryRun() || isUnsigned()) {
+    const stateId = getPackageIds(context.deployment, cctpPackage).stateId;
+    const transaction = buildMigrationTransaction({ packageId, stateId, step });
+    await sendTransaction(context, transaction, `${cctpPackage}::migration::${step} from ${packageId}`);
+    return;
+  }
+  const compatibleVersions = await executeMigrationStep({
+    client: context.client,
+    deployment: context.deployment,
+    signer: getSigner(context),
+    cctpPackage,
+    packageId,
+    step,
+    onExecuted: (digest) => console.log(`${cctpPackage}::migration::${step} transaction successful: ${digest}`)
+  });
+  printCompatibleVersions(compatibleVersions);
+
+  if (step === "complete_migration") {
+    saveLatestPackageId(context.manifest, cctpPackage, packageId);
+  }
+}
+
+// Once migrated, the State only accepts calls from the upgraded package, so later transactions must target it.
+function saveLatestPackageId(manifest: DeploymentManifest, cctpPackage: CctpPackage, packageId: string) {
+  const latestPackageId = normalizeSuiAddress(packageId);
+  manifest.latestPackages = {
+    ...manifest.latestPackages,
+    [cctpPackage === "message_transmitter" ? "messageTransmitter" : "tokenMessengerMinter"]: latestPackageId
+  };
+  writeDeploymentManifest(manifest);
+  console.log(`Saved ${latestPackageId} as the latest ${cctpPackage} package in ${getDeploymentManifestPath()}`);
+}
+
+// Saves the upgraded package of a complete_migration call submitted from an unsigned transaction, as runMigrationStep does.
+function saveSubmittedMigration(unsigned: UnsignedTransaction) {
+  const data = Transaction.from(fromB64(unsigned.bytes)).getData();
+  for (const command of data.commands) {
+    const call = command.MoveCall;
+    const stateArgument = call?.arguments[0];
+    if (call?.module !== "migration" || call.function !== "complete_migration" || stateArgument?.$kind !== "Input") {
+      continue;
+    }
+    const stateId = data.inputs[stateArgument.Input].Object?.SharedObject?.objectId;
+    const manifest = readDeploymentManifest();
+    const deployment = toCctpDeployment(manifest);
+    const cctpPackage = CCTP_PACKAGES.find((candidate) => normalizeSuiAddress(getPackageIds(deployment, candidate).stateId) === stateId);
+    if (cctpPackage) {
+      saveLatestPackageId(manifest, cctpPackage, call.package);
+    }
+  }
+}
+
+async function checkOwnerSigner(context: AdminContext, cctpPackage: CctpPackage, action: string) {
+  const { owner } = await fetchPackageRoles(context.client, context.deployment, cctpPackage);
+  if (owner !== context.sender) {
+    throw new Error(`${action} must be signed by the ${cctpPackage} owner ${owner}, but the signer is ${context.sender}.`);
+  }
+}
+
+// Sends a transaction from the admin signer, or writes it for offline signing with --unsigned.
+// Returns the executed transaction, or null if it was only simulated with --dry-run or written with --unsigned.
+async function sendTransaction(
+  context: AdminContext,
+  transaction: Transaction,
+  description: string
+): Promise<SuiTransactionBlockResponse | null> {
+  const unsignedPath: string | undefined = program.opts().unsigned;
+  if (unsignedPath) {
+    const { unsigned } = await buildUnsignedTransaction({
+      client: context.client,
+      sender: context.sender,
+      transaction,
+      description,
+      deployment: context.deployment
+    });
+    fs.writeFileSync(unsignedPath, JSON.stringify(unsigned, null, 2));
+    console.log(`\n${summarizeUnsignedTransaction(unsigned)}\n`);
+    console.log(`Unsigned transaction written to ${unsignedPath}, sign it with \`sign ${unsignedPath}\` on the offline machine, ` +
+      "then execute it with `submit` before the sender's gas coins are used by another transaction.");
+    return null;
+  }
+  const output = await executeTransactionHelper({
+    client: context.client,
+    signer: getSigner(context),
+    transaction,
+    dryRun: isDryRun(),
+    deployment: context.deployment
+  });
+  return isDryRun() ? null : output;
+}
+
+function getSigner(context: AdminContext): Signer {
+  if (!context.signer) {
+    throw new Error("Transactions are signed offline with --unsigned, there is no signer to send them.");
+  }
+  return context.signer;
+}
+
+// Signs an unsigned transaction file with the admin signer. Nothing is read from the manifest or a node, so this runs
+// on a machine without network access; the summary shown is decoded from the signed bytes.
+async function runSign(unsignedPath: string, outputPath?: string) {
+  const signer = loadSignerFromEnv("ADMIN_SIGNER", "ADMIN_PRIVATE_KEY");
+  if (!signer) {
+    throw new Error("ADMIN_SIGNER or ADMIN_PRIVATE_KEY must be set to sign transactions.");
+  }
+  const unsigned = readUnsignedTransaction(unsignedPath);
+  console.log(`${summarizeUnsignedTransaction(unsigned)}\n`);
+  await confirm(`Sign this transaction with ${signer.toSuiAddress()}?`, "Aborted, the transaction was not signed.");
+
+  const signature = await signUnsignedTransaction(unsigned, signer);
+  const signaturePath = outputPath ?? `${unsignedPath.replace(/\.json$/, "")}.${signature.signer}.sig.json`;
+  fs.writeFileSync(signaturePath, JSON.stringify(signature, null, 2));
+  console.log(`Signature of ${signature.signer} written to ${signaturePath}`);
+}
+
+// Combines the signatures of an unsigned transaction file into the sender's signature and executes the transaction.
+async function runSubmit(unsignedPath: string, signaturePaths: string[], multisigPath?: string) {
+  const unsigned = readUnsignedTransaction(unsignedPath);
+  const multisigPublicKey = multisigPath ? getMultisigPublicKey(JSON.parse(fs.readFileSync(multisigPath, "utf-8"))) : undefined;
+  const signature = await combineTransactionSignatures(unsigned, signaturePaths.map(readTransactionSignature), multisigPublicKey);
+  console.log(`${summarizeUnsignedTransaction(unsigned)}\n`);
+  await confirm("Submit this transaction?");
+
+  const { client, deployment } = await loadReadOnlyContext();
+  const result = await executeSignedTransaction({ client, bytes: fromB64(unsigned.bytes), signature, deployment });
+  if (result.status === "failure") {
+    console.log(inspectObject(result.response));
+  }
+  if (result.error) {
+    throw result.error;
+  }
+  console.log(`${unsigned.description} transaction successful: ${result.digest}`);
+  const upgradedPackageId = result.response ? recoverChangedObjectId(result.response, "published") : "";
+  if (upgradedPackageId) {
+    console.log(`Upgraded to ${upgradedPackageId}, build the migration with \`migrate <package> start_migration --package-id ${upgradedPackageId}\`.`);
+  }
+  saveSubmittedMigration(unsigned);
+}
+
+function isDryRun(): boolean {
+  return program.opts().dryRun === true;
+}
+
+function isUnsigned(): boolean {
+  return program.opts().unsigned !== undefined;
+}
+
+function getManifestRemoteTokens(manifest: DeploymentManifest): { remoteDomain: number; remoteToken: string }[] {
+  return manifest.remoteDomains
+    .filter((remoteDomain) => remoteDomain.token)
+    .map((remoteDomain) => ({ remoteDomain: remoteDomain.domain, remoteToken: remoteDomain.token as string }));
+}
+
+// Nothing is sent with --dry-run or --unsigned, so there is nothing to confirm.
+async function confirm(question: string, abortMessage = "Aborted, no transaction was sent.") {
+  if (program.opts().yes || isDryRun() || isUnsigned()) {
+    return;
+  }
+  const prompt = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await prompt.question(`${question} [y/N] `);
+  prompt.close();
+  if (answer.trim().toLowerCase() !== "y") {
+    throw new Error(abortMessage);
+  }
+}
+
+function printRoles(cctpPackage: CctpPackage, roles: PackageRoles) {
+  console.log(`${cctpPackage} roles:`);
+  console.log(`  owner:            ${roles.owner}`);
+  console.log(`  pending owner:    ${roles.pendingOwner ?? "none"}`);
+  console.log(`  pauser:           ${roles.pauser}`);
+  if (roles.attesterManager) {
+    console.log(`  attester manager: ${roles.attesterManager}`);
+  }
+  if (roles.tokenController) {
+    console.log(`  token controller: ${roles.tokenController}`);
+  }
+  console.log(`  paused:           ${roles.paused}\n`);
+}
+
+function printAttesterState(state: AttesterManagerState) {
+  console.log(`message_transmitter attesters, managed by ${state.attesterManager}:`);
+  state.enabledAttesters.forEach((attester) => console.log(`  ${toEvmAddress(attester)}`));
+  console.log(`  signature threshold: ${state.signatureThreshold} of ${state.enabledAttesters.length}\n`);
+}
+
+function printTokenControllerState(state: TokenControllerState) {
+  console.log(`${state.coinType} (token id ${state.tokenId}):`);
+  console.log(`  burn limit per message: ${state.burnLimitPerMessage ?? "not set"}`);
+  console.log(`  mint cap added:         ${state.mintCapAdded}`);
+  state.tokenPairs.forEach((pair) => console.log(
+    `  domain ${pair.remoteDomain} token ${pair.remoteToken}: ${pair.localToken ? `linked to ${pair.localToken}` : "not linked"}`
+  ));
+  console.log();
+}
+
+function printEvmRegistration(registered: string | null, suiTokenMessenger: string) {
+  const status = registered === null ? "none" : registered === suiTokenMessenger ? "Sui token messenger" : `${registered} (not Sui's)`;
+  console.log(`  registered for Sui on the EVM chain: ${status}`);
+}
+
+function printCompatibleVersions(compatibleVersions: CompatibleVersions) {
+  console.log("State compatible versions:");
+  CCTP_PACKAGES.forEach((cctpPackage) => console.log(`  ${cctpPackage}: [${compatibleVersions[cctpPackage].join(", ")}]`));
+  console.log();
+}
+
+main();
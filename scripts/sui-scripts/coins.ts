@@ -0,0 +1,104 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CoinStruct, SuiClient } from "@mysten/sui/client";
+import { Transaction, TransactionObjectArgument } from "@mysten/sui/transactions";
+import { normalizeStructTag } from "@mysten/sui/utils";
+
+// Upper bound on the number of coins merged by a single MergeCoins command.
+const MAX_MERGE_COINS_PER_COMMAND = 500;
+
+/**
+ * Returns true if both coin types refer to the same Move type, regardless of address formatting.
+ */
+export function isSameCoinType(coinType: string, otherCoinType: string): boolean {
+  return normalizeStructTag(coinType) === normalizeStructTag(otherCoinType);
+}
+
+/**
+ * Pages through the coins of an exact coin type owned by an address, selecting coins
+ * (largest first) until their combined balance covers the requested amount.
+ * @throws if the total balance of the owner is lower than the requested amount
+ */
+export async function selectCoins(args: {
+  client: SuiClient;
+  owner: string;
+  coinType: string;
+  amount: bigint;
+}): Promise<CoinStruct[]> {
+  const coins: CoinStruct[] = [];
+  let cursor: string | null | undefined = undefined;
+  do {
+    const page = await args.client.getCoins({ owner: args.owner, coinType: args.coinType, cursor });
+    coins.push(...page.data.filter((coin) => isSameCoinType(coin.coinType, args.coinType)));
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  // Prefer larger coins to keep the number of merged objects low.
+  coins.sort((a, b) => {
+    const difference = BigInt(b.balance) - BigInt(a.balance);
+    return difference > BigInt(0) ? 1 : difference < BigInt(0) ? -1 : 0;
+  });
+
+  const selectedCoins: CoinStruct[] = [];
+  let selectedBalance = BigInt(0);
+  for (const coin of coins) {
+    if (selectedBalance >= args.amount) break;
+    selectedCoins.push(coin);
+    selectedBalance += BigInt(coin.balance);
+  }
+
+  if (selectedBalance < args.amount) {
+    throw new Error(
+      `Insufficient ${args.coinType} balance for ${args.owner}: ` +
+      `required ${args.amount}, available ${selectedBalance}, shortfall ${args.amount - selectedBalance}.`
+    );
+  }
+
+  return selectedCoins;
+}
+
+/**
+ * Adds commands to a transaction that merge the selected coins of the owner and split off
+ * exactly the requested amount.
+ * @returns the split coin holding exactly `amount`
+ * @throws if the amount is not positive, or the total balance of the owner is lower than the amount
+ */
+export async function splitCoinForAmount(args: {
+  client: SuiClient;
+  transaction: Transaction;
+  owner: string;
+  coinType: string;
+  amount: bigint;
+}): Promise<TransactionObjectArgument> {
+  if (args.amount <= BigInt(0)) {
+    throw new Error(`Invalid amount ${args.amount} of ${args.coinType}, expected a positive amount to split.`);
+  }
+  const [primaryCoin, ...otherCoins] = await selectCoins(args);
+  const primaryCoinArgument = args.transaction.object(primaryCoin.coinObjectId);
+
+  for (let i = 0; i < otherCoins.length; i += MAX_MERGE_COINS_PER_COMMAND) {
+    args.transaction.mergeCoins(
+      primaryCoinArgument,
+      otherCoins.slice(i, i + MAX_MERGE_COINS_PER_COMMAND).map((coin) => args.transaction.object(coin.coinObjectId))
+    );
+  }
+
+  const [coin] = args.transaction.splitCoins(primaryCoinArgument, [args.amount]);
+  return coin;
+}
@@ -16,176 +16,322 @@
  * limitations under the License.
  */
 
+import { Signer } from "@mysten/sui/cryptography";
 import { requestSuiFromFaucetV0 } from "@mysten/sui/faucet";
 import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
 import { Transaction } from "@mysten/sui/transactions";
 import { SuiClient } from "@mysten/sui/client";
 import { bcs } from "@mysten/sui/bcs";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
 
 import { execSync } from "child_process";
-import { keccak256 } from "ethereumjs-util";
-import { writeFile } from "fs";
+import { program } from "commander";
+import { appendFileSync } from "fs";
 import dotenv from "dotenv";
 
+import {
+  buildRemoteTokenMessengerTransaction,
+  buildTokenControllerTransaction,
+  fetchAttesterManagerState,
+  fetchRemoteTokenMessengers,
+  fetchTokenControllerState,
+  getSuiTokenMessengerAddress
+} from "./admin";
+import { DeploymentConfig, getDeploymentConfigPath, readDeploymentConfig } from "./deploymentConfig";
+import { addEvmRemoteTokenMessenger, linkEvmTokenPair } from "./evmAdmin";
+import {
+  DeploymentOutputs,
+  DeploymentStep,
+  getDeploymentCheckpointPath,
+  getIncompleteSteps,
+  runDeploymentSteps
+} from "./deploymentSteps";
 import {
   callViewFunction,
   deployHelper,
   executeTransactionHelper,
-  getEd25519KeypairFromPrivateKey,
   log,
   recoverChangedObjectId
 } from "./helpers";
+import { DEPLOYMENT_MANIFEST_VERSION, getDeploymentManifestPath, writeDeploymentManifest } from "./manifest";
+import { normalizeAddress } from "./message";
+import { loadSignerFromEnv } from "./signers";
+import { CctpDeployment } from "./transactions";
 
 dotenv.config();
 
 let client: SuiClient;
 
-let stablecoinPackageId: string;
-let usdcPackageId: string;
-let usdcTreasuryId: string;
-let mtPackageId: string;
-let mtStateId: string;
-let tmmPackageId: string;
-let tmmStateId: string;
-let usdcTokenId: string;
-let usdcFundsObjectId: string;
-let mintCapObjectId: string;
-let suiExtensionsPackageId: string;
-let messageTransmitterUpgradeServiceId: string;
-let tokenMessengerUpgradeServiceId: string;
-
 /**
- * Deploys and configures all packages for USDC + CCTP. 
+ * Deploys and configures all packages for USDC + CCTP, with the parameters from the deployment config.
+ *
+ * Each step's outputs are saved to the deployment checkpoint as soon as it completes, so a failed deployment
+ * can be rerun and resumes from the first incomplete step. `fromStep` reruns a step and every step after it,
+ * and `onlyStep` reruns a single step. `dryRun` validates the config and lists the steps that would run, without
+ * changing the Sui CLI config, the .env file or the chain.
  */
-export async function deploySuiContracts(): Promise<void> {
+export async function deploySuiContracts(
+  options: { config?: string; fromStep?: string; onlyStep?: string; dryRun?: boolean } = {}
+): Promise<void> {
+  const configPath = options.config ?? getDeploymentConfigPath();
+  const config = readDeploymentConfig(configPath);
+  log(`Using deployment config ${configPath}`);
+
   const suiRpcUrl = `http://localhost:${process.env.FULLNODE_PORT}`;
   const suiFaucetUrl = `http://localhost:${process.env.FAUCET_PORT}`;
 
   client = new SuiClient({ url: suiRpcUrl });
 
+  if (options.dryRun) {
+    const deployer = loadSignerFromEnv("DEPLOYER_SIGNER", "DEPLOYER_PRIVATE_KEY")?.toSuiAddress() ?? "a new deployer";
+    log(`Dry run for ${deployer}, no transaction is sent`);
+    await runDeploymentSteps({
+      client,
+      steps: getDeploymentSteps(Ed25519Keypair.generate(), config),
+      checkpointPath: getDeploymentCheckpointPath(),
+      network: process.env.SUI_NETWORK ?? "localnet",
+      deployer,
+      fromStep: options.fromStep,
+      onlyStep: options.onlyStep,
+      dryRun: true
+    });
+    return;
+  }
+
   // Configure local environment if not already set up
   const existingEnvs = JSON.parse(execSync("sui client envs --json", { encoding: "utf-8" }));
   if (!existingEnvs[0].some((suiEnvConfig: { alias: string; }) => suiEnvConfig.alias === "local")) {
     execSync(`sui client new-env --alias local --rpc ${suiRpcUrl}`);
   };
 
-  // Generate and switch to deployer key if not already set up
-  let deployerKeypair: Ed25519Keypair;
-  if (process.env.DEPLOYER_PRIVATE_KEY) {
-    log(`Using provided deployer key ${process.env.DEPLOYER_PRIVATE_KEY}`);
-    deployerKeypair = getEd25519KeypairFromPrivateKey(process.env.DEPLOYER_PRIVATE_KEY);
+  // Generate and switch to deployer key if not already set up. A generated key only lives in the Sui keystore, and
+  // the example scripts and tests find it there through the keystore signer saved to .env; no key is logged or saved.
+  let deployerSigner = loadSignerFromEnv("DEPLOYER_SIGNER", "DEPLOYER_PRIVATE_KEY");
+  if (deployerSigner) {
+    log(`Using provided deployer ${deployerSigner.toSuiAddress()}`);
   } else {
-    deployerKeypair = Ed25519Keypair.generate();
-    log(`Generating new deployer key ${deployerKeypair.getSecretKey()}`);
-    execSync(`sui keytool import ${deployerKeypair.getSecretKey()} ed25519`);
+    const keypair = Ed25519Keypair.generate();
+    execSync(`sui keytool import ${keypair.getSecretKey()} ed25519`, { stdio: "ignore" });
+    deployerSigner = keypair;
+    log(`Generated deployer ${keypair.toSuiAddress()} in the Sui keystore`);
+
+    appendFileSync(".env", `\nDEPLOYER_SIGNER=keystore:${keypair.toSuiAddress()}\n`);
+    log("Saved the deployer signer to .env");
   }
-  log(`Using address ${deployerKeypair.toSuiAddress()}`); 
+  log(`Using address ${deployerSigner.toSuiAddress()}`); 
 
-  execSync(`sui client switch --address ${deployerKeypair.toSuiAddress()} --env local`)
+  execSync(`sui client switch --address ${deployerSigner.toSuiAddress()} --env local`)
 
   log("Funding address...");
   await requestSuiFromFaucetV0({
     host: suiFaucetUrl,
-    recipient: deployerKeypair.toSuiAddress(),
+    recipient: deployerSigner.toSuiAddress(),
   });
 
-  await deployUSDCContracts();
-  log("Deployed USDC packages");
+  const network = process.env.SUI_NETWORK ?? "localnet";
+  const checkpointPath = getDeploymentCheckpointPath();
+  const steps = getDeploymentSteps(deployerSigner, config);
+  const outputs = await runDeploymentSteps({
+    client,
+    steps,
+    checkpointPath,
+    network,
+    deployer: deployerSigner.toSuiAddress(),
+    fromStep: options.fromStep,
+    onlyStep: options.onlyStep
+  });
 
-  await deployCCTPContracts(deployerKeypair);
-  log("Deployed CCTP packages");
+  const incompleteSteps = getIncompleteSteps(steps, checkpointPath);
+  if (incompleteSteps.length > 0) {
+    log(`Steps ${incompleteSteps.join(", ")} have not been completed, skipping the deployment manifest`);
+    return;
+  }
 
-  await configureCCTPContracts(deployerKeypair);
-  log("Configured CCTP packages");
+  // Export deployment output to the deployment manifest
+  writeDeploymentManifest({
+    version: DEPLOYMENT_MANIFEST_VERSION,
+    network,
+    deployer: deployerSigner.toSuiAddress(),
+    localDomain: config.localDomain,
+    packages: {
+      messageTransmitter: outputs.mtPackageId,
+      tokenMessengerMinter: outputs.tmmPackageId,
+      usdc: outputs.usdcPackageId,
+      stablecoin: outputs.stablecoinPackageId,
+      suiExtensions: outputs.suiExtensionsPackageId
+    },
+    objects: {
+      messageTransmitterState: outputs.mtStateId,
+      messageTransmitterUpgradeService: outputs.messageTransmitterUpgradeServiceId,
+      tokenMessengerMinterState: outputs.tmmStateId,
+      tokenMessengerMinterUpgradeService: outputs.tokenMessengerUpgradeServiceId,
+      treasury: outputs.usdcTreasuryId,
+      mintCap: outputs.mintCapObjectId
+    },
+    usdcTokenId: outputs.usdcTokenId,
+    remoteDomains: config.remoteDomains.map((remoteDomain) => ({
+      domain: remoteDomain.domain,
+      tokenMessenger: normalizeSuiAddress(remoteDomain.tokenMessenger),
+      token: normalizeSuiAddress(remoteDomain.token),
+      ...(remoteDomain.evm && {
+        evm: {
+          rpcUrl: remoteDomain.evm.rpcUrl,
+          messageTransmitter: remoteDomain.evm.messageTransmitter,
+          tokenMinter: remoteDomain.evm.tokenMinter
+        }
+      })
+    }))
+  });
+  log(`Deployment manifest written to ${getDeploymentManifestPath()}`);
+}
 
-  // Link EVM contracts to Sui. Can be skipped via environment variable if needed.
-  if (process.env.LINK_EVM_CONTRACTS === "true") {
-    execSync(`~/.foundry/bin/cast send ${process.env.EVM_TOKEN_MINTER_ADDRESS} "function linkTokenPair(address localToken,uint32 remoteDomain,bytes32 remoteToken)" ${process.env.EVM_USDC_ADDRESS} 8 ${usdcTokenId} --rpc-url ${process.env.EVM_RPC_URL} --private-key ${process.env.EVM_TOKEN_MINTER_DEPLOYER_KEY}`);
+/**
+ * Returns the deployment steps in the order they run.
+ * Linking the EVM contracts can be skipped via the LINK_EVM_CONTRACTS environment variable.
+ */
+export function getDeploymentSteps(deployerKey: Signer, config: DeploymentConfig): DeploymentStep[] {
+  const steps: DeploymentStep[] = [
+    { name: "publishSuiExtensions", objectOutputs: ["suiExtensionsPackageId"], run: publishSuiExtensions },
+    { name: "publishStablecoin", objectOutputs: ["stablecoinPackageId"], run: publishStablecoin },
+    { name: "publishUsdc", objectOutputs: ["usdcPackageId", "usdcTreasuryId"], run: publishUsdc },
+    {
+      name: "publishMessageTransmitter",
+      objectOutputs: ["mtPackageId", "messageTransmitterUpgradeServiceId"],
+      run: publishMessageTransmitter
+    },
+    {
+      name: "initMessageTransmitter",
+      objectOutputs: ["mtStateId"],
+      run: (outputs) => initMessageTransmitter(deployerKey, config, outputs)
+    },
+    {
+      name: "configureAttesters",
+      objectOutputs: [],
+      run: (outputs) => configureAttesters(deployerKey, config, outputs)
+    },
+    {
+      name: "publishTokenMessengerMinter",
+      objectOutputs: ["tmmPackageId", "tokenMessengerUpgradeServiceId"],
+      run: publishTokenMessengerMinter
+    },
+    {
+      name: "initTokenMessengerMinter",
+      objectOutputs: ["tmmStateId"],
+      run: (outputs) => initTokenMessengerMinter(deployerKey, config, outputs)
+    },
+    { name: "fetchUsdcTokenId", objectOutputs: [], run: fetchUsdcTokenId },
+    // Each of the following steps sends a single transaction, so that a failed deployment resumes with the
+    // transaction that failed. The CCTP configuration steps also skip what is already configured on chain.
+    {
+      name: "addRemoteTokenMessengers",
+      objectOutputs: [],
+      run: (outputs) => addRemoteTokenMessengers(deployerKey, config, outputs)
+    },
+    {
+      name: "setBurnLimit",
+      objectOutputs: [],
+      run: (outputs) => setBurnLimit(deployerKey, config, outputs)
+    },
+    // The mint cap is wrapped in the token_messenger_minter state by addMintCap, so it can't be checked on chain.
+    {
+      name: "configureMintController",
+      objectOutputs: [],
+      run: (outputs) => configureMintController(deployerKey, outputs)
+    },
+    {
+      name: "configureMinter",
+      objectOutputs: [],
+      run: (outputs) => configureMinter(deployerKey, config, outputs)
+    },
+    {
+      name: "mintStarterFunds",
+      objectOutputs: [],
+      run: (outputs) => mintStarterFunds(deployerKey, config, outputs)
+    },
+    {
+      name: "addMintCap",
+      objectOutputs: [],
+      run: (outputs) => addMintCap(deployerKey, outputs)
+    },
+    {
+      name: "linkTokenPairs",
+      objectOutputs: [],
+      run: (outputs) => linkTokenPairs(deployerKey, config, outputs)
+    }
+  ];
 
-    // Sui needs to be linked via the MessageTransmitterAuthenticator type as its recipient. 
-    const remoteRecipientType = `${tmmPackageId.replace("0x", "")}::message_transmitter_authenticator::MessageTransmitterAuthenticator`;
-    const hashedRecipient = keccak256(Buffer.from(remoteRecipientType));
-    const recipientAddress = `0x${hashedRecipient.toString('hex')}`
-  
-    execSync(`~/.foundry/bin/cast send ${process.env.EVM_TOKEN_MESSENGER_ADDRESS} "function addRemoteTokenMessenger(uint32 domain,bytes32 tokenMessenger)" 8 ${recipientAddress} --rpc-url ${process.env.EVM_RPC_URL} --private-key ${process.env.EVM_TOKEN_MESSENGER_DEPLOYER_KEY}`);
+  if (process.env.LINK_EVM_CONTRACTS === "true") {
+    steps.push({ name: "linkEvmContracts", objectOutputs: [], run: (outputs) => linkEvmContracts(config, outputs) });
   }
-
-  // Export deployment output to test_config.env
-  const deploymentConfig = 
-    `
-    SUI_MESSAGE_TRANSMITTER_ID=${mtPackageId}
-    SUI_MESSAGE_TRANSMITTER_STATE_ID=${mtStateId}
-    SUI_MESSAGE_TRANSMITTER_UPGRADE_SERVICE_ID=${messageTransmitterUpgradeServiceId}
-    SUI_TOKEN_MESSENGER_MINTER_ID=${tmmPackageId}
-    SUI_TOKEN_MESSENGER_MINTER_STATE_ID=${tmmStateId}
-    SUI_TOKEN_MESSENGER_MINTER_UPGRADE_SERVICE_ID=${tokenMessengerUpgradeServiceId}
-    SUI_USDC_ID=${usdcPackageId}
-    SUI_USDC_FUNDS_OBJECT_ID=${usdcFundsObjectId}
-    SUI_TREASURY_ID=${usdcTreasuryId}
-    SUI_EXTENSIONS_ID=${suiExtensionsPackageId}
-    SUI_STABLECOIN_ID=${stablecoinPackageId}
-    SUI_MINT_CAP_ID=${mintCapObjectId}
-    SUI_DEPLOYER_KEY=${deployerKeypair.getSecretKey()}
-    `
-
-  writeFile("test_config.env", deploymentConfig, (err) => {
-    if (err) throw err;
-  });
+  return steps;
 }
 
 /**
- * Deploy the sui_extensions, stablecoin, and USDC packages.
+ * Deploy the sui_extensions package.
  */
-export async function deployUSDCContracts () {
-  // Deploy USDC packages
+export async function publishSuiExtensions(): Promise<DeploymentOutputs> {
   const suiExtensionsDeploymentOutput = deployHelper(
     "../../stablecoin-sui/packages/sui_extensions",
     true
   );
-  suiExtensionsPackageId = recoverChangedObjectId(
+  const suiExtensionsPackageId = recoverChangedObjectId(
     suiExtensionsDeploymentOutput,
     "published",
   );
   log(`sui_extensions published at ${suiExtensionsPackageId}`);
 
+  return { suiExtensionsPackageId };
+}
+
+/**
+ * Deploy the stablecoin package.
+ */
+export async function publishStablecoin(): Promise<DeploymentOutputs> {
   const stablecoinDeploymentOutput = deployHelper(
     "../../stablecoin-sui/packages/stablecoin",
     true
   );
-  stablecoinPackageId = recoverChangedObjectId(
+  const stablecoinPackageId = recoverChangedObjectId(
     stablecoinDeploymentOutput,
     "published",
   );
   log(`stablecoin published at ${stablecoinPackageId}`);
 
+  return { stablecoinPackageId };
+}
+
+/**
+ * Deploy the USDC package, which creates the USDC treasury.
+ */
+export async function publishUsdc(): Promise<DeploymentOutputs> {
   const usdcDeploymentOutput = deployHelper(
     "../../stablecoin-sui/packages/usdc",
     true
   );
-  usdcPackageId = recoverChangedObjectId(
+  const usdcPackageId = recoverChangedObjectId(
     usdcDeploymentOutput,
     "published",
   );
   log(`usdc published at ${usdcPackageId}`);
 
   // Recover USDC treasury object
-  usdcTreasuryId = recoverChangedObjectId(
+  const usdcTreasuryId = recoverChangedObjectId(
     usdcDeploymentOutput,
     "created",
     "treasury::Treasury<",
   );
   log(`USDC treasury object created at ${usdcTreasuryId}`);
+
+  return { usdcPackageId, usdcTreasuryId };
 }
 
 /**
- * Deploys and initializes the message_transmitter and token_messenger_minter packages.
+ * Deploy the message_transmitter package.
  */
-export async function deployCCTPContracts(
-  deployerKey: Ed25519Keypair
-) {
+export async function publishMessageTransmitter(): Promise<DeploymentOutputs> {
   const mtDeploymentOutput = deployHelper("../../packages/message_transmitter", true);
-  mtPackageId = recoverChangedObjectId(mtDeploymentOutput, "published");
-  messageTransmitterUpgradeServiceId = recoverChangedObjectId(mtDeploymentOutput, "created", "UpgradeService");
+  const mtPackageId = recoverChangedObjectId(mtDeploymentOutput, "published");
+  const messageTransmitterUpgradeServiceId = recoverChangedObjectId(mtDeploymentOutput, "created", "UpgradeService");
   log(`message_transmitter published at ${mtPackageId}`);
   log(`message_transmitter upgrade service object created at ${messageTransmitterUpgradeServiceId}`);
 
@@ -197,16 +343,26 @@ export async function deployCCTPContracts(
   );
   log(`message_transmitter InitCap found at ${mtInitCapId}`);
 
-  // Initialize message_transmitter state
+  return { mtPackageId, messageTransmitterUpgradeServiceId, mtInitCapId };
+}
+
+/**
+ * Initialize the message_transmitter state with its InitCap.
+ */
+export async function initMessageTransmitter(
+  deployerKey: Signer,
+  config: DeploymentConfig,
+  outputs: DeploymentOutputs
+): Promise<DeploymentOutputs> {
   const mtInitializeTx = new Transaction();
   mtInitializeTx.moveCall({
-    target: `${mtPackageId}::initialize::init_state`,
+    target: `${outputs.mtPackageId}::initialize::init_state`,
     arguments: [
-      mtInitializeTx.object(mtInitCapId),
-      mtInitializeTx.pure.u32(8), // localDomain
-      mtInitializeTx.pure.u32(0), // messageVersion
-      mtInitializeTx.pure.u64(8192), // maxMessageSize
-      mtInitializeTx.pure.address("0x23618e81e3f5cdf7f54c3d65f7fbc0abf5b21e8f"), // attester
+      mtInitializeTx.object(outputs.mtInitCapId),
+      mtInitializeTx.pure.u32(config.localDomain), // localDomain
+      mtInitializeTx.pure.u32(config.messageVersion), // messageVersion
+      mtInitializeTx.pure.u64(config.maxMessageBodySize), // maxMessageSize
+      mtInitializeTx.pure.address(config.attesters[0]), // attester
     ],
   });
 
@@ -217,20 +373,76 @@ export async function deployCCTPContracts(
   });
 
   // Obtain message_transmitter state object id
-  mtStateId = recoverChangedObjectId(
+  const mtStateId = recoverChangedObjectId(
     mtInitTxOutput,
     "created",
     "state::State",
   );
   log(`message_transmitter state found at ${mtStateId}`);
 
+  return { mtStateId };
+}
+
+/**
+ * Enable the remaining attesters from the deployment config and set the signature threshold.
+ * init_state already enabled the first attester with a threshold of 1. Attesters that are already enabled and a
+ * threshold that is already set are skipped, so the step can be rerun.
+ */
+export async function configureAttesters(
+  deployerKey: Signer,
+  config: DeploymentConfig,
+  outputs: DeploymentOutputs
+): Promise<DeploymentOutputs> {
+  const state = await fetchAttesterManagerState(client, getCctpDeployment(outputs));
+  const attesters = config.attesters.filter((attester) => !state.enabledAttesters.includes(normalizeAddress(attester)));
+  const setThreshold = state.signatureThreshold !== config.signatureThreshold;
+  if (attesters.length === 0 && !setThreshold) {
+    log("Attesters and signature threshold already configured");
+    return {};
+  }
+
+  const configureAttestersTx = new Transaction();
+  for (const attester of attesters) {
+    configureAttestersTx.moveCall({
+      target: `${outputs.mtPackageId}::attester_manager::enable_attester`,
+      arguments: [
+        configureAttestersTx.pure.address(attester), // new attester
+        configureAttestersTx.object(outputs.mtStateId),
+      ],
+    });
+  }
+  if (setThreshold) {
+    configureAttestersTx.moveCall({
+      target: `${outputs.mtPackageId}::attester_manager::set_signature_threshold`,
+      arguments: [
+        configureAttestersTx.pure.u64(config.signatureThreshold), // new signature threshold
+        configureAttestersTx.object(outputs.mtStateId),
+      ],
+    });
+  }
+
+  await executeTransactionHelper({
+    client,
+    signer: deployerKey,
+    transaction: configureAttestersTx,
+    deployment: getCctpDeployment(outputs)
+  });
+  log(`Enabled ${config.attesters.length} attesters with a signature threshold of ${config.signatureThreshold}`);
+
+  return {};
+}
+
+/**
+ * Deploy the token_messenger_minter package.
+ */
+export async function publishTokenMessengerMinter(): Promise<DeploymentOutputs> {
   // Skip dependency verification for TokenMessengerMinter for now
   const tmmDeploymentOutput = deployHelper(
     "../../packages/token_messenger_minter",
     true
   );
-  tmmPackageId = recoverChangedObjectId(tmmDeploymentOutput, "published");
-  tokenMessengerUpgradeServiceId = recoverChangedObjectId(tmmDeploymentOutput, "created", "UpgradeService");
+  const tmmPackageId = recoverChangedObjectId(tmmDeploymentOutput, "published");
+  const tokenMessengerUpgradeServiceId = recoverChangedObjectId(tmmDeploymentOutput, "created", "UpgradeService");
   log(`token_messenger_minter deployed at ${tmmPackageId}`);
   log(`token_messenger_minter upgrade service object created at ${tokenMessengerUpgradeServiceId}`);
 
@@ -242,13 +454,23 @@ export async function deployCCTPContracts(
   );
   log(`token_messenger_minter InitCap found at ${tmmInitCapId}`);
 
-  // Initialize token_messenger_minter state
+  return { tmmPackageId, tokenMessengerUpgradeServiceId, tmmInitCapId };
+}
+
+/**
+ * Initialize the token_messenger_minter state with its InitCap.
+ */
+export async function initTokenMessengerMinter(
+  deployerKey: Signer,
+  config: DeploymentConfig,
+  outputs: DeploymentOutputs
+): Promise<DeploymentOutputs> {
   const tmmInitializeTx = new Transaction();
   tmmInitializeTx.moveCall({
-    target: `${tmmPackageId}::initialize::init_state`,
+    target: `${outputs.tmmPackageId}::initialize::init_state`,
     arguments: [
-      tmmInitializeTx.object(tmmInitCapId),
-      tmmInitializeTx.pure.u32(0), // messageBodyVersion
+      tmmInitializeTx.object(outputs.tmmInitCapId),
+      tmmInitializeTx.pure.u32(config.messageBodyVersion), // messageBodyVersion
     ],
   });
 
@@ -259,18 +481,24 @@ export async function deployCCTPContracts(
   });
 
   // Obtain token_messenger_minter state object id
-  tmmStateId = recoverChangedObjectId(
+  const tmmStateId = recoverChangedObjectId(
     tmmInitTxOutput,
     "created",
     "state::State",
   );
   log(`token_messenger_minter state found at ${tmmStateId}`);
 
-  // Fetch token id
+  return { tmmStateId };
+}
+
+/**
+ * Fetch the token id of USDC used by token_messenger_minter.
+ */
+export async function fetchUsdcTokenId(outputs: DeploymentOutputs): Promise<DeploymentOutputs> {
   const tokenIdTx = new Transaction();
   tokenIdTx.moveCall({
-    target: `${tmmPackageId}::token_utils::calculate_token_id`,
-    typeArguments: [`${usdcPackageId}::usdc::USDC`]
+    target: `${outputs.tmmPackageId}::token_utils::calculate_token_id`,
+    typeArguments: [`${outputs.usdcPackageId}::usdc::USDC`]
   });
 
   const tokenIdTxOutput = await callViewFunction({
@@ -279,62 +507,118 @@ export async function deployCCTPContracts(
     returnTypes: [bcs.Address]
   });
 
-  usdcTokenId = tokenIdTxOutput.toString();
+  const usdcTokenId = tokenIdTxOutput.toString();
   
   log(`Token ID is ${usdcTokenId}`);
+
+  return { usdcTokenId };
 }
 
 /**
- * Configure the CCTP contracts.
- * This adds a remote token messenger, remote token pair, and mint cap.
+ * Add the remote token messengers from the deployment config, skipping the domains that already have one.
+ * @throws if a domain already has another token messenger
  */
-export async function configureCCTPContracts(
-  deployerKey: Ed25519Keypair
-) {
-  // Add remote resources
+export async function addRemoteTokenMessengers(
+  deployerKey: Signer,
+  config: DeploymentConfig,
+  outputs: DeploymentOutputs
+): Promise<DeploymentOutputs> {
+  const deployment = getCctpDeployment(outputs);
+  const registered = await fetchRemoteTokenMessengers(client, deployment, config.remoteDomains.map((remoteDomain) => remoteDomain.domain));
+
   const addRemoteTmTx = new Transaction();
-  addRemoteTmTx.moveCall({
-    target: `${tmmPackageId}::remote_token_messenger::add_remote_token_messenger`,
-    arguments: [
-      addRemoteTmTx.pure.u32(0), // remoteDomain
-      addRemoteTmTx.pure.address(`${process.env.EVM_TOKEN_MESSENGER_ADDRESS}`), // remote tokenMessenger address
-      addRemoteTmTx.object(tmmStateId), // tokenMessenger state
-    ],
-  });
+  for (const [i, remoteDomain] of config.remoteDomains.entries()) {
+    const { tokenMessenger } = registered[i];
+    if (tokenMessenger && tokenMessenger !== normalizeAddress(remoteDomain.tokenMessenger)) {
+      throw new Error(
+        `Domain ${remoteDomain.domain} already has token messenger ${tokenMessenger}, ` +
+        `not ${remoteDomain.tokenMessenger} (ERemoteTokenMessengerAlreadyAdded).`
+      );
+    }
+    if (!tokenMessenger) {
+      buildRemoteTokenMessengerTransaction({
+        deployment,
+        domain: remoteDomain.domain,
+        tokenMessenger: remoteDomain.tokenMessenger,
+        transaction: addRemoteTmTx
+      });
+    }
+  }
+  if (addRemoteTmTx.getData().commands.length === 0) {
+    log("Remote token messengers already added");
+    return {};
+  }
 
   await executeTransactionHelper({
     client,
     signer: deployerKey,
     transaction: addRemoteTmTx,
+    deployment
   });
 
-  const setBurnLimitTx = new Transaction();
-  setBurnLimitTx.moveCall({
-    target: `${tmmPackageId}::token_controller::set_max_burn_amount_per_message`,
-    arguments: [
-      setBurnLimitTx.pure.u64(100000), // burn limit
-      setBurnLimitTx.object(tmmStateId),
-    ],
-    typeArguments: [`${usdcPackageId}::usdc::USDC`],
+  return {};
+}
+
+/**
+ * Set the USDC burn limit per message, unless it is already set to the configured limit.
+ */
+export async function setBurnLimit(
+  deployerKey: Signer,
+  config: DeploymentConfig,
+  outputs: DeploymentOutputs
+): Promise<DeploymentOutputs> {
+  const deployment = getCctpDeployment(outputs);
+  const { burnLimitPerMessage } = await fetchTokenControllerState(client, deployment, getUsdcCoinType(outputs), []);
+  if (burnLimitPerMessage === BigInt(config.burnLimitPerMessage)) {
+    log(`Burn limit already set to ${burnLimitPerMessage}`);
+    return {};
+  }
+
+  const setBurnLimitTx = buildTokenControllerTransaction({
+    deployment,
+    coinType: getUsdcCoinType(outputs),
+    action: { type: "set_max_burn_amount_per_message", burnLimitPerMessage: config.burnLimitPerMessage }
   });
 
   await executeTransactionHelper({
     client,
     signer: deployerKey,
     transaction: setBurnLimitTx,
+    deployment
   });
 
-  // Configure a new controller, configure TMM as a minter, & add the mint cap
+  return {};
+}
+
+/**
+ * Configure the deployer as a USDC controller and minter, which creates the mint cap added to token_messenger_minter.
+ * A mint cap already owned by the deployer is reused, e.g. when the step is rerun.
+ * @throws if the mint cap was already added to token_messenger_minter
+ */
+export async function configureMintController(deployerKey: Signer, outputs: DeploymentOutputs): Promise<DeploymentOutputs> {
+  const { mintCapAdded } = await fetchTokenControllerState(client, getCctpDeployment(outputs), getUsdcCoinType(outputs), []);
+  if (mintCapAdded) {
+    throw new Error("The USDC mint cap was already added to token_messenger_minter, rerun the steps after addMintCap instead.");
+  }
+  const { data: [ownedMintCap] } = await client.getOwnedObjects({
+    owner: deployerKey.toSuiAddress(),
+    filter: { StructType: `${outputs.stablecoinPackageId}::treasury::MintCap<${getUsdcCoinType(outputs)}>` }
+  });
+  if (ownedMintCap?.data) {
+    log(`Reusing mint cap ${ownedMintCap.data.objectId} owned by the deployer`);
+    return { mintCapObjectId: ownedMintCap.data.objectId };
+  }
+
   const configureNewControllerTx = new Transaction();
 
   configureNewControllerTx.moveCall({
-    target: `${stablecoinPackageId}::treasury::configure_new_controller`,
+    target: `${outputs.stablecoinPackageId}::treasury::configure_new_controller`,
     arguments: [
-      configureNewControllerTx.object(usdcTreasuryId),
+      configureNewControllerTx.object(outputs.usdcTreasuryId),
       configureNewControllerTx.pure.address(deployerKey.toSuiAddress()),
       configureNewControllerTx.pure.address(deployerKey.toSuiAddress())
     ],
-    typeArguments: [`${usdcPackageId}::usdc::USDC`],
+    typeArguments: [getUsdcCoinType(outputs)],
   });
 
   const configureNewControllerTxOutput = await executeTransactionHelper({
@@ -343,17 +627,34 @@ export async function configureCCTPContracts(
     transaction: configureNewControllerTx,
   });
 
-  // Configure the mintCap with a minter allowance
+  const mintCapObjectId = recoverChangedObjectId(
+    configureNewControllerTxOutput,
+    "created",
+    "treasury::MintCap",
+  );
+  log("mint cap object id:", mintCapObjectId);
+
+  return { mintCapObjectId };
+}
+
+/**
+ * Configure the mint cap with the minter allowance from the deployment config.
+ */
+export async function configureMinter(
+  deployerKey: Signer,
+  config: DeploymentConfig,
+  outputs: DeploymentOutputs
+): Promise<DeploymentOutputs> {
   const configureMinterTx = new Transaction();
 
   configureMinterTx.moveCall({
-    target: `${stablecoinPackageId}::treasury::configure_minter`,
+    target: `${outputs.stablecoinPackageId}::treasury::configure_minter`,
     arguments: [
-      configureMinterTx.object(usdcTreasuryId),
+      configureMinterTx.object(outputs.usdcTreasuryId),
       configureMinterTx.object("0x403"), // fixed denyList address
-      configureMinterTx.pure.u64(10000000), // mint allowance
+      configureMinterTx.pure.u64(config.minterAllowance), // mint allowance
     ],
-    typeArguments: [`${usdcPackageId}::usdc::USDC`],
+    typeArguments: [getUsdcCoinType(outputs)],
   })
 
   await executeTransactionHelper({
@@ -362,26 +663,33 @@ export async function configureCCTPContracts(
     transaction: configureMinterTx
   });
 
-  // Mint starter funds to the deployer address
-  mintCapObjectId = recoverChangedObjectId(
-    configureNewControllerTxOutput,
-    "created",
-    "treasury::MintCap",
-  );
-  log("mint cap object id:", mintCapObjectId);
+  return {};
+}
+
+/**
+ * Mint starter funds to the deployer address, before the mint cap is added to token_messenger_minter.
+ */
+export async function mintStarterFunds(
+  deployerKey: Signer,
+  config: DeploymentConfig,
+  outputs: DeploymentOutputs
+): Promise<DeploymentOutputs> {
+  if (BigInt(config.starterMint) === BigInt(0)) {
+    return {};
+  }
 
   const mintFundsTx = new Transaction();
 
   mintFundsTx.moveCall({
-    target: `${stablecoinPackageId}::treasury::mint`,
+    target: `${outputs.stablecoinPackageId}::treasury::mint`,
     arguments: [
-      mintFundsTx.object(usdcTreasuryId), // USDC treasury object
-      mintFundsTx.object(mintCapObjectId), // mint cap
+      mintFundsTx.object(outputs.usdcTreasuryId), // USDC treasury object
+      mintFundsTx.object(outputs.mintCapObjectId), // mint cap
       mintFundsTx.object("0x403"), // fixed denyList address
-      mintFundsTx.pure.u64(10000), // amount
+      mintFundsTx.pure.u64(config.starterMint), // amount
       mintFundsTx.pure.address(deployerKey.toSuiAddress()) // recipient
     ],
-    typeArguments: [`${usdcPackageId}::usdc::USDC`],
+    typeArguments: [getUsdcCoinType(outputs)],
   })
 
   const mintFundsTxOutput = await executeTransactionHelper({
@@ -390,48 +698,138 @@ export async function configureCCTPContracts(
     transaction: mintFundsTx
   });
 
-  usdcFundsObjectId = recoverChangedObjectId(
+  const usdcFundsObjectId = recoverChangedObjectId(
     mintFundsTxOutput,
     "created",
     "coin::Coin"
   );
+  log(`Funded deployer address with ${config.starterMint} USDC, stored at ${usdcFundsObjectId}`);
 
-  log(`Funded deployer address with 10000 USDC, stored at ${usdcFundsObjectId}`);
+  return { usdcFundsObjectId };
+}
 
-  // Add mint cap to the token_messenger_minter
-  const addMintCapTx = new Transaction();
-  addMintCapTx.moveCall({
-    target: `${tmmPackageId}::token_controller::add_stablecoin_mint_cap`,
-    arguments: [
-      addMintCapTx.object(mintCapObjectId),
-      addMintCapTx.object(tmmStateId),
-    ],
-    typeArguments: [`${usdcPackageId}::usdc::USDC`],
+/**
+ * Add the mint cap to token_messenger_minter, unless a mint cap was already added for USDC.
+ */
+export async function addMintCap(deployerKey: Signer, outputs: DeploymentOutputs): Promise<DeploymentOutputs> {
+  const deployment = getCctpDeployment(outputs);
+  const { mintCapAdded } = await fetchTokenControllerState(client, deployment, getUsdcCoinType(outputs), []);
+  if (mintCapAdded) {
+    log("Mint cap already added to token_messenger_minter");
+    return {};
+  }
+
+  const addMintCapTx = buildTokenControllerTransaction({
+    deployment,
+    coinType: getUsdcCoinType(outputs),
+    action: { type: "add_stablecoin_mint_cap", mintCapId: outputs.mintCapObjectId }
   });
 
   await executeTransactionHelper({
     client,
     signer: deployerKey,
     transaction: addMintCapTx,
+    deployment
   });
 
-  // Link evm token
+  return {};
+}
+
+/**
+ * Link the remote tokens from the deployment config to USDC, skipping the pairs that are already linked.
+ * @throws if a remote token is already linked to another local token
+ */
+export async function linkTokenPairs(
+  deployerKey: Signer,
+  config: DeploymentConfig,
+  outputs: DeploymentOutputs
+): Promise<DeploymentOutputs> {
+  const deployment = getCctpDeployment(outputs);
+  const { tokenId, tokenPairs } = await fetchTokenControllerState(
+    client,
+    deployment,
+    getUsdcCoinType(outputs),
+    config.remoteDomains.map((remoteDomain) => ({ remoteDomain: remoteDomain.domain, remoteToken: remoteDomain.token }))
+  );
+
   const linkTokenPairTx = new Transaction();
-  linkTokenPairTx.moveCall({
-    target: `${tmmPackageId}::token_controller::link_token_pair`,
-    arguments: [
-      linkTokenPairTx.pure.u32(0), // remote domain
-      linkTokenPairTx.pure.address(`${process.env.EVM_USDC_ADDRESS}`), // remote token address
-      linkTokenPairTx.object(tmmStateId),
-    ],
-    typeArguments: [`${usdcPackageId}::usdc::USDC`],
-  });
+  for (const { remoteDomain, remoteToken, localToken } of tokenPairs) {
+    if (localToken && normalizeAddress(localToken) !== normalizeAddress(tokenId)) {
+      throw new Error(`Remote token ${remoteToken} of domain ${remoteDomain} is already linked to ${localToken} (ETokenPairAlreadyLinked).`);
+    }
+    if (!localToken) {
+      buildTokenControllerTransaction({
+        deployment,
+        coinType: getUsdcCoinType(outputs),
+        action: { type: "link_token_pair", remoteDomain, remoteToken },
+        transaction: linkTokenPairTx
+      });
+    }
+  }
+  if (linkTokenPairTx.getData().commands.length === 0) {
+    log("Token pairs already linked");
+    return {};
+  }
 
   await executeTransactionHelper({
     client,
     signer: deployerKey,
     transaction: linkTokenPairTx,
+    deployment
   });
+
+  return {};
+}
+
+function getCctpDeployment(outputs: DeploymentOutputs): CctpDeployment {
+  return {
+    messageTransmitterId: outputs.mtPackageId,
+    messageTransmitterStateId: outputs.mtStateId,
+    tokenMessengerMinterId: outputs.tmmPackageId,
+    tokenMessengerMinterStateId: outputs.tmmStateId,
+    treasuryId: outputs.usdcTreasuryId
+  };
+}
+
+function getUsdcCoinType(outputs: DeploymentOutputs): string {
+  return `${outputs.usdcPackageId}::usdc::USDC`;
+}
+
+/**
+ * Link the EVM chains from the deployment config to Sui.
+ */
+export async function linkEvmContracts(config: DeploymentConfig, outputs: DeploymentOutputs): Promise<DeploymentOutputs> {
+  // Sui is registered on EVM chains with the hash of its MessageTransmitterAuthenticator type as token messenger.
+  const suiTokenMessenger = getSuiTokenMessengerAddress(outputs.tmmPackageId);
+
+  for (const remoteDomain of config.remoteDomains) {
+    if (!remoteDomain.evm) {
+      continue;
+    }
+    const { rpcUrl, tokenMinter, tokenMinterOwnerKeyEnv, tokenMessengerOwnerKeyEnv } = remoteDomain.evm;
+    const tokenMinterOwnerKey = process.env[tokenMinterOwnerKeyEnv];
+    const tokenMessengerOwnerKey = process.env[tokenMessengerOwnerKeyEnv];
+    if (!tokenMinterOwnerKey || !tokenMessengerOwnerKey) {
+      throw new Error(`${tokenMinterOwnerKeyEnv} and ${tokenMessengerOwnerKeyEnv} must be set to link domain ${remoteDomain.domain}.`);
+    }
+
+    await linkEvmTokenPair({ rpcUrl, address: tokenMinter, privateKey: tokenMinterOwnerKey }, remoteDomain.token, config.localDomain, outputs.usdcTokenId);
+    await addEvmRemoteTokenMessenger(
+      { rpcUrl, address: remoteDomain.tokenMessenger, privateKey: tokenMessengerOwnerKey },
+      config.localDomain,
+      suiTokenMessenger
+    );
+    log(`Linked domain ${remoteDomain.domain} at ${rpcUrl}`);
+  }
+
+  return {};
 }
 
-deploySuiContracts();
+program
+  .option("--config <path>", "deployment config to apply, defaults to DEPLOYMENT_CONFIG_PATH or deployment-configs/localnet.json")
+  .option("--from-step <step>", "rerun this deployment step and every step after it")
+  .option("--only-step <step>", "rerun only this deployment step")
+  .option("--dry-run", "validate the config and list the steps that would run, without sending transactions")
+  .parse();
+
+deploySuiContracts(program.opts());
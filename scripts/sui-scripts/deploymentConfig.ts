@@ -0,0 +1,204 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "fs";
+
+export const DEFAULT_DEPLOYMENT_CONFIG_PATH = "deployment-configs/localnet.json";
+
+const MAX_U32 = BigInt(0xffffffff);
+const MAX_U64 = BigInt("0xffffffffffffffff");
+
+// u64 amounts can be given as JSON numbers or, above 2^53, as decimal strings.
+export type U64Value = number | string;
+
+export interface EvmChainConfig {
+  rpcUrl: string;
+  messageTransmitter: string;
+  tokenMinter: string;
+  // Names of the environment variables holding the keys of the TokenMinter and TokenMessenger owners,
+  // which are used to link the EVM contracts to Sui.
+  tokenMinterOwnerKeyEnv: string;
+  tokenMessengerOwnerKeyEnv: string;
+}
+
+export interface RemoteDomainConfig {
+  domain: number;
+  // Remote token messenger, as a 20 byte EVM address or a 32 byte address.
+  tokenMessenger: string;
+  // Remote USDC to link to the local USDC, as a 20 byte EVM address or a 32 byte address.
+  token: string;
+  // Set for EVM chains, which are linked to Sui when LINK_EVM_CONTRACTS is set and used by the E2E tests.
+  evm?: EvmChainConfig;
+}
+
+/**
+ * Parameters applied by `yarn deploy`.
+ */
+export interface DeploymentConfig {
+  localDomain: number;
+  messageVersion: number;
+  messageBodyVersion: number;
+  maxMessageBodySize: U64Value;
+  // EVM addresses of the attesters enabled at deployment. The first one is set by init_state.
+  attesters: string[];
+  signatureThreshold: number;
+  burnLimitPerMessage: U64Value;
+  minterAllowance: U64Value;
+  // Amount of USDC minted to the deployer after configuring the minter, or 0 to skip.
+  starterMint: U64Value;
+  remoteDomains: RemoteDomainConfig[];
+}
+
+/**
+ * Returns the path of the deployment config, which can be overridden with DEPLOYMENT_CONFIG_PATH.
+ */
+export function getDeploymentConfigPath(): string {
+  return process.env.DEPLOYMENT_CONFIG_PATH ?? DEFAULT_DEPLOYMENT_CONFIG_PATH;
+}
+
+/**
+ * Checks that a parsed deployment config is complete and consistent, e.g. that the signature
+ * threshold can be met by the configured attesters.
+ * @throws listing every invalid field
+ */
+export function validateDeploymentConfig(value: unknown): DeploymentConfig {
+  if (typeof value !== "object" || value === null) {
+    throw new Error("Invalid deployment config: expected a JSON object.");
+  }
+  const config = value as DeploymentConfig;
+  const errors: string[] = [];
+
+  checkUnsigned(errors, "localDomain", config.localDomain, MAX_U32);
+  checkUnsigned(errors, "messageVersion", config.messageVersion, MAX_U32);
+  checkUnsigned(errors, "messageBodyVersion", config.messageBodyVersion, MAX_U32);
+  checkUnsigned(errors, "maxMessageBodySize", config.maxMessageBodySize, MAX_U64);
+  checkUnsigned(errors, "burnLimitPerMessage", config.burnLimitPerMessage, MAX_U64);
+  checkUnsigned(errors, "minterAllowance", config.minterAllowance, MAX_U64);
+  checkUnsigned(errors, "starterMint", config.starterMint, MAX_U64);
+
+  if (!Array.isArray(config.attesters) || config.attesters.length === 0) {
+    errors.push("attesters must be a non-empty array");
+  } else {
+    config.attesters.forEach((attester, i) => {
+      if (typeof attester !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(attester)) {
+        errors.push(`attesters[${i}] must be a 20 byte EVM address, found ${JSON.stringify(attester)}`);
+      } else if (config.attesters.findIndex((other) => other.toLowerCase() === attester.toLowerCase()) !== i) {
+        errors.push(`attesters[${i}] ${attester} is listed more than once`);
+      }
+    });
+    if (!Number.isInteger(config.signatureThreshold) || config.signatureThreshold < 1) {
+      errors.push(`signatureThreshold must be at least 1, found ${JSON.stringify(config.signatureThreshold)}`);
+    } else if (config.signatureThreshold > config.attesters.length) {
+      errors.push(`signatureThreshold ${config.signatureThreshold} is higher than the number of attesters (${config.attesters.length})`);
+    }
+  }
+
+  if (
+    isUnsigned(config.minterAllowance, MAX_U64) &&
+    isUnsigned(config.starterMint, MAX_U64) &&
+    BigInt(config.starterMint) > BigInt(config.minterAllowance)
+  ) {
+    errors.push(`starterMint ${config.starterMint} is higher than the minterAllowance ${config.minterAllowance}`);
+  }
+
+  if (!Array.isArray(config.remoteDomains) || config.remoteDomains.length === 0) {
+    errors.push("remoteDomains must be a non-empty array");
+  } else {
+    const seenDomains = new Set<number>();
+    config.remoteDomains.forEach((remoteDomain, i) => {
+      if (typeof remoteDomain !== "object" || remoteDomain === null) {
+        errors.push(`remoteDomains[${i}] must be an object, found ${JSON.stringify(remoteDomain)}`);
+        return;
+      }
+      checkUnsigned(errors, `remoteDomains[${i}].domain`, remoteDomain.domain, MAX_U32);
+      checkRemoteAddress(errors, `remoteDomains[${i}].tokenMessenger`, remoteDomain.tokenMessenger);
+      checkRemoteAddress(errors, `remoteDomains[${i}].token`, remoteDomain.token);
+      if (remoteDomain.evm !== undefined) {
+        if (typeof remoteDomain.evm === "object" && remoteDomain.evm !== null) {
+          checkEvmChain(errors, `remoteDomains[${i}]`, remoteDomain);
+        } else {
+          errors.push(`remoteDomains[${i}].evm must be an object, found ${JSON.stringify(remoteDomain.evm)}`);
+        }
+      }
+      if (remoteDomain.domain === config.localDomain) {
+        errors.push(`remoteDomains[${i}].domain must differ from the local domain`);
+      }
+      if (seenDomains.has(remoteDomain.domain)) {
+        errors.push(`remoteDomains[${i}].domain ${remoteDomain.domain} is listed more than once`);
+      }
+      seenDomains.add(remoteDomain.domain);
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid deployment config:\n  - ${errors.join("\n  - ")}`);
+  }
+  return config;
+}
+
+/**
+ * Reads and validates the deployment config at the given path.
+ */
+export function readDeploymentConfig(path: string = getDeploymentConfigPath()): DeploymentConfig {
+  if (!fs.existsSync(path)) {
+    throw new Error(`Deployment config not found at ${path}.`);
+  }
+  return validateDeploymentConfig(JSON.parse(fs.readFileSync(path).toString()));
+}
+
+function isUnsigned(value: unknown, max: bigint): value is U64Value {
+  if (typeof value === "number") {
+    return Number.isSafeInteger(value) && value >= 0 && BigInt(value) <= max;
+  }
+  return typeof value === "string" && /^\d+$/.test(value) && BigInt(value) <= max;
+}
+
+function checkUnsigned(errors: string[], name: string, value: unknown, max: bigint) {
+  if (!isUnsigned(value, max)) {
+    errors.push(`${name} must be a ${max === MAX_U32 ? "u32" : "u64"}, found ${JSON.stringify(value)}`);
+  }
+}
+
+function checkEvmChain(errors: string[], name: string, remoteDomain: RemoteDomainConfig) {
+  const evm = remoteDomain.evm as EvmChainConfig;
+  if (typeof evm.rpcUrl !== "string" || evm.rpcUrl.length === 0) {
+    errors.push(`${name}.evm.rpcUrl must be a non-empty string`);
+  }
+  const addresses: [string, unknown][] = [
+    ["tokenMessenger", remoteDomain.tokenMessenger],
+    ["token", remoteDomain.token],
+    ["evm.messageTransmitter", evm.messageTransmitter],
+    ["evm.tokenMinter", evm.tokenMinter]
+  ];
+  for (const [field, address] of addresses) {
+    if (typeof address !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(address)) {
+      errors.push(`${name}.${field} must be a 20 byte EVM address, found ${JSON.stringify(address)}`);
+    }
+  }
+  for (const field of ["tokenMinterOwnerKeyEnv", "tokenMessengerOwnerKeyEnv"] as const) {
+    if (typeof evm[field] !== "string" || evm[field].length === 0) {
+      errors.push(`${name}.evm.${field} must be the name of an environment variable`);
+    }
+  }
+}
+
+function checkRemoteAddress(errors: string[], name: string, value: unknown) {
+  if (typeof value !== "string" || !/^0x([0-9a-fA-F]{40}|[0-9a-fA-F]{64})$/.test(value)) {
+    errors.push(`${name} must be a 20 or 32 byte hex address, found ${JSON.stringify(value)}`);
+  }
+}
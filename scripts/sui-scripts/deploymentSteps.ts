@@ -0,0 +1,156 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SuiClient } from "@mysten/sui/client";
+import fs from "fs";
+
+import { log } from "./helpers";
+
+export const DEFAULT_DEPLOYMENT_CHECKPOINT_PATH = "deployment.checkpoint.json";
+
+// Named ids and values produced by deployment steps, e.g. `mtPackageId`.
+export type DeploymentOutputs = Record<string, string>;
+
+export interface DeploymentStep {
+  name: string;
+  // Keys of the outputs holding object ids, which are checked on chain before the step is skipped.
+  objectOutputs: string[];
+  // Runs the step with the outputs of all previous steps, returning its own outputs.
+  run(outputs: DeploymentOutputs): Promise<DeploymentOutputs>;
+}
+
+export interface DeploymentCheckpoint {
+  network: string;
+  deployer: string;
+  steps: Record<string, { completedAt: string; outputs: DeploymentOutputs }>;
+}
+
+/**
+ * Returns the path of the deployment checkpoint, which can be overridden with DEPLOYMENT_CHECKPOINT_PATH.
+ */
+export function getDeploymentCheckpointPath(): string {
+  return process.env.DEPLOYMENT_CHECKPOINT_PATH ?? DEFAULT_DEPLOYMENT_CHECKPOINT_PATH;
+}
+
+export function readDeploymentCheckpoint(path: string): DeploymentCheckpoint | undefined {
+  if (!fs.existsSync(path)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(path).toString());
+}
+
+export function writeDeploymentCheckpoint(path: string, checkpoint: DeploymentCheckpoint) {
+  fs.writeFileSync(path, `${JSON.stringify(checkpoint, null, 2)}\n`);
+}
+
+/**
+ * Runs deployment steps in order, persisting each step's outputs to the checkpoint as soon as it completes.
+ *
+ * Steps completed by a previous run are skipped once their objects are found on chain. With `fromStep`,
+ * that step and every step after it are run again. With `onlyStep`, only that step is run again.
+ * Steps before the selected step must have been completed.
+ * With `dryRun`, the steps that would run are only logged, since each step depends on the objects created by
+ * the previous ones, and the checkpoint is left untouched.
+ *
+ * @returns the merged outputs of all completed steps
+ */
+export async function runDeploymentSteps(args: {
+  client: SuiClient;
+  steps: DeploymentStep[];
+  checkpointPath: string;
+  network: string;
+  deployer: string;
+  fromStep?: string;
+  onlyStep?: string;
+  dryRun?: boolean;
+}): Promise<DeploymentOutputs> {
+  if (args.fromStep && args.onlyStep) {
+    throw new Error("Only one of --from-step and --only-step can be set.");
+  }
+  const selectedStep = args.fromStep ?? args.onlyStep;
+  const selectedIndex = selectedStep ? args.steps.findIndex((step) => step.name === selectedStep) : -1;
+  if (selectedStep && selectedIndex === -1) {
+    throw new Error(`Unknown deployment step ${selectedStep}, expected one of: ${args.steps.map((step) => step.name).join(", ")}.`);
+  }
+
+  const checkpoint = readDeploymentCheckpoint(args.checkpointPath)
+    ?? { network: args.network, deployer: args.deployer, steps: {} };
+  if (checkpoint.network !== args.network || checkpoint.deployer !== args.deployer) {
+    throw new Error(
+      `Checkpoint ${args.checkpointPath} belongs to ${checkpoint.deployer} on ${checkpoint.network}, ` +
+      `but this deployment is for ${args.deployer} on ${args.network}. Move the checkpoint away to start a new deployment.`
+    );
+  }
+
+  let outputs: DeploymentOutputs = {};
+  for (const [i, step] of args.steps.entries()) {
+    const completed = checkpoint.steps[step.name];
+    const rerun = selectedIndex !== -1 && (args.fromStep ? i >= selectedIndex : i === selectedIndex);
+
+    if (args.onlyStep && i > selectedIndex) {
+      // Later steps are left untouched, but their outputs are kept for the manifest.
+      outputs = { ...outputs, ...completed?.outputs };
+      continue;
+    }
+    if (!rerun && completed) {
+      await checkStepObjectsExist(args.client, step, completed.outputs);
+      log(`Skipping ${step.name}, completed at ${completed.completedAt}`);
+      outputs = { ...outputs, ...completed.outputs };
+      continue;
+    }
+    if (!rerun && i < selectedIndex) {
+      throw new Error(`Step ${step.name} has not been completed, it must run before ${selectedStep}.`);
+    }
+
+    if (args.dryRun) {
+      log(`Would run ${step.name}`);
+      continue;
+    }
+    log(`Running ${step.name}...`);
+    const stepOutputs = await step.run(outputs);
+    outputs = { ...outputs, ...stepOutputs };
+    checkpoint.steps[step.name] = { completedAt: new Date().toISOString(), outputs: stepOutputs };
+    writeDeploymentCheckpoint(args.checkpointPath, checkpoint);
+  }
+
+  return outputs;
+}
+
+/**
+ * Returns the names of the steps that have not been completed according to the checkpoint.
+ */
+export function getIncompleteSteps(steps: DeploymentStep[], checkpointPath: string): string[] {
+  const checkpoint = readDeploymentCheckpoint(checkpointPath);
+  return steps.filter((step) => !checkpoint?.steps[step.name]).map((step) => step.name);
+}
+
+async function checkStepObjectsExist(client: SuiClient, step: DeploymentStep, outputs: DeploymentOutputs) {
+  const ids = step.objectOutputs.map((key) => outputs[key]);
+  if (ids.length === 0) {
+    return;
+  }
+
+  const responses = await client.multiGetObjects({ ids });
+  const missing = step.objectOutputs.filter((_, i) => !responses[i].data).map((key) => `${key} (${outputs[key]})`);
+  if (missing.length > 0) {
+    throw new Error(
+      `Objects created by ${step.name} were not found on chain: ${missing.join(", ")}. ` +
+      `Rerun with --from-step ${step.name} to redo it and the steps after it.`
+    );
+  }
+}
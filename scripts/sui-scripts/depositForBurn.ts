@@ -17,47 +17,55 @@
  */
 
 import { SuiClient } from "@mysten/sui/client";
-import { Transaction } from "@mysten/sui/transactions";
 
+import { InvalidArgumentError, program } from "commander";
 import dotenv from "dotenv";
 import fs from "fs";
 import { EventLog, Web3 } from "web3";
 
-import { attestToMessage, executeTransactionHelper, fetchUsdcBalance, getEd25519KeypairFromPrivateKey, receiveEvm } from "../sui-scripts/helpers";
+import { executeTransactionHelper, fetchUsdcBalance, receiveEvm } from "../sui-scripts/helpers";
+import { createAttestationProviderFromEnv } from "../sui-scripts/attestation";
+import { isSameCoinType } from "../sui-scripts/coins";
+import { decodeBurnMessageFromMessage, hashMessage } from "../sui-scripts/message";
+import { getDeployerSigner, getEvmChain, getUsdcCoinType, loadDeploymentManifest, toCctpDeployment } from "../sui-scripts/manifest";
+import { buildDepositForBurnTransaction } from "../sui-scripts/transactions";
+import { loadSignerFromEnv } from "../sui-scripts/signers";
 import assert from "assert";
 
 dotenv.config();
-dotenv.config({ path: 'test_config.env'});
 
 const USDC_AMOUNT = 1;
-const DESTINATION_DOMAIN = 0;
 const evmUserAddress = "0xfabb0ac9d68b0b445fb7357272ff202c5651694a";
 
-// Ids taken from test_config.env from local deployment
-const messageTransmitterStateId = process.env.SUI_MESSAGE_TRANSMITTER_STATE_ID as string;
-const tokenMessengerMinterId = process.env.SUI_TOKEN_MESSENGER_MINTER_ID as string;
-const tokenMessengerMinterStateId = process.env.SUI_TOKEN_MESSENGER_MINTER_STATE_ID as string;
-const usdcId = process.env.SUI_USDC_ID as string;
-const treasuryId = process.env.SUI_TREASURY_ID as string;
-const suiPrivateKey = process.env.SUI_DEPLOYER_KEY as string;
-const signer = getEd25519KeypairFromPrivateKey(suiPrivateKey);
-
 const FULLNODE_PORT = process.env.FULLNODE_PORT ?? "7000";
 const SUI_RPC_URL = process.env.SUI_RPC_URL ?? `http://localhost:${FULLNODE_PORT}`;
-const EVM_RPC_URL = process.env.EVM_RPC_URL ?? "http://localhost:8500";
 
 /**
  * This script shows an example of transferring USDC from Sui to EVM using the deposit_for_burn call on localnet.
  * The same example can be followed on testnet/mainnet with appropriate addresses, RPC URLs, and calling out 
  * to Circle's attestation service for the message attestation.
  * 
- * Local addresses are fetched from env vars from .env and test_config.env files after contract deployment using `yarn deploy-local`.
+ * Local addresses, including those of the destination EVM chain given with --domain, are read from the deployment
+ * manifest written by `yarn deploy-local`, and the signer from SUI_SIGNER, or DEPLOYER_SIGNER or DEPLOYER_PRIVATE_KEY
+ * in the .env file. With --dry-run, deposit_for_burn is only simulated.
  */
 const main = async () => {
+  program
+    .option("--domain <domain>", "destination EVM domain, defaults to the first EVM chain of the manifest", parseDomain)
+    .option("--dry-run", "simulate deposit_for_burn without sending it, and stop")
+    .parse();
+  const options = program.opts();
+
+  // Sui setup
+  const client = new SuiClient({ url: SUI_RPC_URL});
+  const manifest = await loadDeploymentManifest({ client });
+  const deployment = toCctpDeployment(manifest);
+  const usdcCoinType = getUsdcCoinType(manifest);
+  const signer = loadSignerFromEnv("SUI_SIGNER") ?? getDeployerSigner(manifest);
+
   // EVM setup
-  const web3 = new Web3(new Web3.providers.HttpProvider(EVM_RPC_URL));
-  const evmMessageTransmitterAddress = `${process.env.EVM_MESSAGE_TRANSMITTER_ADDRESS}`;
-  const evmTokenMessengerAddress = `${process.env.EVM_TOKEN_MESSENGER_ADDRESS}`;
+  const evmChain = getEvmChain(manifest, options.domain);
+  const web3 = new Web3(new Web3.providers.HttpProvider(evmChain.rpcUrl));
   const messageTransmitterInterface = JSON.parse(
     fs.readFileSync("../evm-cctp-contracts/cctp-interfaces/MessageTransmitter.sol/MessageTransmitter.json").toString()
   );
@@ -66,59 +74,43 @@ const main = async () => {
   );
   const messageTransmitterContract = new web3.eth.Contract(
     messageTransmitterInterface.abi,
-    evmMessageTransmitterAddress
+    evmChain.messageTransmitter
   );
   const tokenMessengerContract = new web3.eth.Contract(
     tokenMessengerInterface.abi,
-    evmTokenMessengerAddress
+    evmChain.tokenMessenger
   );
 
-  // Sui setup 
-  const client = new SuiClient({ url: SUI_RPC_URL});
-
   // 1. Call deposit_for_burn on Sui to begin the transfer.
-  // Create DepositForBurn tx
-  const depositForBurnTx = new Transaction();
-
-  // Split 1 USDC to send in depositForBurn call
-  const ownedCoins = await client.getAllCoins({owner: signer.toSuiAddress()})
-  const usdcStruct = ownedCoins.data.find(c => c.coinType.includes(usdcId));
-  if (!usdcStruct || Number(usdcStruct.balance) < USDC_AMOUNT) {
-    throw new Error("Insufficient tokens in wallet to initiate transfer.");
-  }
-
-  const [coin] = depositForBurnTx.splitCoins(
-    usdcStruct.coinObjectId,
-    [USDC_AMOUNT]
-  );
-
-  depositForBurnTx.moveCall({
-    target: `${tokenMessengerMinterId}::deposit_for_burn::deposit_for_burn`,
-    arguments: [
-      depositForBurnTx.object(coin), // Coin<USDC>
-      depositForBurnTx.pure.u32(DESTINATION_DOMAIN), // destination_domain
-      depositForBurnTx.pure.address(evmUserAddress), // mint_recipient
-      depositForBurnTx.object(tokenMessengerMinterStateId), // token_messenger_minter state
-      depositForBurnTx.object(messageTransmitterStateId), // message_transmitter state
-      depositForBurnTx.object("0x403"), // deny_list id, fixed address
-      depositForBurnTx.object(treasuryId) // treasury object Treasury<USDC>
-    ],
-    typeArguments: [`${usdcId}::usdc::USDC`],
+  // Create DepositForBurn tx, merging and splitting USDC coins to cover the amount.
+  const depositForBurnTx = await buildDepositForBurnTransaction({
+    client,
+    sender: signer.toSuiAddress(),
+    amount: USDC_AMOUNT,
+    destinationDomain: evmChain.domain,
+    mintRecipient: evmUserAddress,
+    deployment,
+    coinType: usdcCoinType
   });
 
   // Broadcast the transaction
-  console.log("Broadcasting sui deposit_for_burn tx...");
+  console.log(`${options.dryRun ? "Simulating" : "Broadcasting"} sui deposit_for_burn tx...`);
   const depositForBurnOutput = await executeTransactionHelper({
     client: client,
     signer: signer,
     transaction: depositForBurnTx,
+    dryRun: options.dryRun,
+    deployment
   });
+  if (options.dryRun) {
+    return;
+  }
   assert(!depositForBurnOutput.errors);
   console.log(`deposit_for_burn transaction successful: 0x${depositForBurnOutput.digest} \n`);
 
-  const suiUsdcBalanceChange = depositForBurnOutput.balanceChanges?.find(b => b.coinType.includes(usdcId))
+  const suiUsdcBalanceChange = depositForBurnOutput.balanceChanges?.find(b => isSameCoinType(b.coinType, usdcCoinType))
   const balances = await client.getAllBalances({ owner: signer.toSuiAddress() });
-  const usdcBalance = balances.find(b => b.coinType.includes(usdcId))?.totalBalance;
+  const usdcBalance = balances.find(b => isSameCoinType(b.coinType, usdcCoinType))?.totalBalance;
 
   // Get the message emitted from the tx
   const messageRaw: Uint8Array = (depositForBurnOutput.events?.find((event) => 
@@ -126,13 +118,16 @@ const main = async () => {
   )?.parsedJson as any).message;
   const messageBuffer = Buffer.from(messageRaw);
   const messageHex = `0x${messageBuffer.toString("hex")}`;
-  console.log(`Message hash: ${web3.utils.keccak256(messageHex)}`);
+  const { message, burnMessage } = decodeBurnMessageFromMessage(messageBuffer);
+  console.log(`Message nonce: ${message.nonce}, amount: ${burnMessage.amount}, mint recipient: ${burnMessage.mintRecipient}`);
+  console.log(`Message: ${messageHex}`);
+  console.log(`Message hash: ${hashMessage(messageBuffer)}`);
 
   // 2. Attest to the message
-  // On testnet/mainnet this would fetch the message from the attestation service.
-  // Since this is on localnet, sign it locally with a dummy attester address.
-  const attestation = attestToMessage(web3, messageHex);
-  console.log(`Signed attestation locally: ${attestation} \n`);
+  // If ATTESTATION_API_URL is set, this polls the attestation service for the message.
+  // Otherwise, since this is on localnet, sign it locally with a dummy attester address.
+  const attestation = await createAttestationProviderFromEnv().getAttestation(messageBuffer);
+  console.log(`Obtained attestation: ${attestation} \n`);
 
   // 3. Receive the message on the destination chain
   console.log("Broadcasting EVM receiveMessage tx...");
@@ -144,12 +139,18 @@ const main = async () => {
   });
   const evmBalanceChangeAddress = (logs[0] as EventLog).returnValues.mintRecipient as string;
   const evmBalanceAmount = (logs[0] as EventLog).returnValues.amount;
-  const evmUsdcBalance = await fetchUsdcBalance(web3, evmBalanceChangeAddress);
+  const evmUsdcBalance = await fetchUsdcBalance(web3, evmChain.usdc, evmBalanceChangeAddress);
 
   console.log("USDC Transfer from Sui -> EVM successful:");
   console.log(`Sui address: ${(suiUsdcBalanceChange?.owner as any).AddressOwner}, change: ${suiUsdcBalanceChange?.amount}, current balance: ${usdcBalance}`);
   console.log(`EVM address: ${evmBalanceChangeAddress}, change: +${evmBalanceAmount}, current balance: ${evmUsdcBalance}`);
 }
 
+function parseDomain(value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new InvalidArgumentError("Expected a domain number.");
+  }
+  return Number(value);
+}
 
 main();
@@ -0,0 +1,250 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+import { CctpPackage } from "./admin";
+import { CctpDeployment } from "./transactions";
+
+/**
+ * Error constant declared in a CCTP Move module.
+ */
+export interface CctpErrorDefinition {
+  constant: string;
+  explanation: string;
+}
+
+// Error constants of a module, keyed by abort code.
+export type ModuleErrors = Record<number, CctpErrorDefinition>;
+
+// Modules declared with the same error constants in both packages.
+const SHARED_MODULE_ERRORS: Record<string, ModuleErrors> = {
+  migration: {
+    0: { constant: "ENotOwner", explanation: "only the owner can migrate the State object" },
+    100: { constant: "EMigrationStarted", explanation: "a migration is already in progress" },
+    101: { constant: "EMigrationNotStarted", explanation: "no migration is in progress" },
+    102: { constant: "EObjectMigrated", explanation: "the State object is already on the current package version" },
+    103: { constant: "ENotPendingVersion", explanation: "the call must be made from the package version being migrated to" }
+  },
+  pausable: {
+    0: { constant: "ENotPauser", explanation: "the sender is not the pauser" },
+    1: { constant: "EAlreadyPaused", explanation: "the package is already paused" },
+    2: { constant: "ENotPaused", explanation: "the package is not paused" }
+  },
+  role_management: {
+    0: { constant: "ERoleAlreadySet", explanation: "the new address already holds the role" }
+  },
+  version_control: {
+    0: { constant: "EIncompatibleVersion", explanation: "the State object is not compatible with this package version" }
+  }
+};
+
+/**
+ * Error constants of the non-test modules of each CCTP package, checked against the Move sources by
+ * test/errors.test.ts.
+ */
+export const CCTP_ERRORS: Record<CctpPackage, Record<string, ModuleErrors>> = {
+  message_transmitter: {
+    ...SHARED_MODULE_ERRORS,
+    attestation: {
+      0: { constant: "EInvalidAttestationLength", explanation: "the attestation does not have exactly the threshold number of signatures" },
+      1: { constant: "EInvalidSignatureOrder", explanation: "the attestation signers are not in increasing address order, or a signer is repeated" },
+      2: { constant: "ESignerIsNotAttester", explanation: "a signature is not from an enabled attester" },
+      3: { constant: "EInvalidSignatureRecoveryId", explanation: "a signature recovery id is not 27 or 28" },
+      4: { constant: "EInvalidSignatureSValue", explanation: "a signature s value is above half the curve order" }
+    },
+    attester_manager: {
+      0: { constant: "EAttesterAlreadyEnabled", explanation: "the attester is already enabled" },
+      1: { constant: "EAttesterNotEnabled", explanation: "the attester is not enabled" },
+      2: { constant: "ENotAttesterManager", explanation: "the sender is not the attester manager" },
+      3: { constant: "ETooFewAttestersEnabled", explanation: "the last enabled attester cannot be disabled" },
+      4: { constant: "ETooFewEnabledAttesters", explanation: "disabling the attester would leave fewer attesters than the signature threshold" },
+      5: { constant: "ESignatureThresholdAlreadySet", explanation: "the signature threshold already has this value" },
+      6: { constant: "ESignatureThresholdTooHigh", explanation: "the signature threshold is above the number of enabled attesters" },
+      7: { constant: "EInvalidSignatureThreshold", explanation: "the signature threshold cannot be zero" }
+    },
+    auth: {
+      0: { constant: "EInvalidAuth", explanation: "the Auth type must be a struct declared by the caller's package" }
+    },
+    message: {
+      0: { constant: "EInvalidMessageLength", explanation: "the message is shorter than its header" }
+    },
+    message_size: {
+      0: { constant: "ENotOwner", explanation: "only the owner can set the maximum message body size" }
+    },
+    receive_message: {
+      0: { constant: "EPaused", explanation: "message_transmitter is paused" },
+      1: { constant: "EInvalidDestinationCaller", explanation: "the message can only be received by its destination caller" },
+      2: { constant: "EInvalidDestinationDomain", explanation: "the message is not destined to this domain" },
+      3: { constant: "EInvalidMessageVersion", explanation: "the message version does not match the State object" },
+      4: { constant: "ENonceAlreadyUsed", explanation: "the message nonce was already used, the message was already received" },
+      5: { constant: "ERecipientNotAuth", explanation: "the receipt can only be stamped by the message recipient" },
+      6: { constant: "EInvalidReceiptVersion", explanation: "the receipt was created by another package version" }
+    },
+    send_message: {
+      0: { constant: "EPaused", explanation: "message_transmitter is paused" },
+      1: { constant: "EMessageBodySizeExceedsLimit", explanation: "the message body exceeds the maximum message body size" },
+      2: { constant: "EInvalidRecipient", explanation: "the recipient cannot be the zero address" },
+      3: { constant: "EInvalidDestinationCaller", explanation: "the destination caller cannot be the zero address" },
+      4: { constant: "ENotOriginalSender", explanation: "only the original sender can replace a message" },
+      5: { constant: "EIncorrectSourceDomain", explanation: "the replaced message was not sent from this domain" }
+    },
+    vector_utils: {
+      0: { constant: "EStartIndexOutOfBounds", explanation: "a message field starts past the end of the message" },
+      1: { constant: "EEndIndexOutOfBounds", explanation: "a message field ends past the end of the message" }
+    }
+  },
+  token_messenger_minter: {
+    ...SHARED_MODULE_ERRORS,
+    burn_message: {
+      0: { constant: "EInvalidMessageLength", explanation: "the burn message does not have the expected length" }
+    },
+    deposit_for_burn: {
+      0: { constant: "EZeroAmount", explanation: "the burn amount must be greater than zero" },
+      1: { constant: "EZeroAddressMintRecipient", explanation: "the mint recipient cannot be the zero address" },
+      2: { constant: "EInvalidDestinationDomain", explanation: "no remote token messenger is registered for the destination domain" },
+      3: { constant: "EPaused", explanation: "token_messenger_minter is paused" },
+      4: { constant: "EMissingMintCap", explanation: "no mint cap is registered for the burned token" },
+      5: { constant: "EMissingBurnLimit", explanation: "no burn limit is set for the burned token" },
+      6: { constant: "EBurnLimitExceeded", explanation: "the burn amount exceeds the per-message burn limit" },
+      7: { constant: "ESenderDoesNotMatchOriginalSender", explanation: "only the original sender can replace a burn" }
+    },
+    handle_receive_message: {
+      0: { constant: "EUnknownRemoteDomain", explanation: "no remote token messenger is registered for the source domain" },
+      1: { constant: "EInvalidRemoteTokenMessenger", explanation: "the message was not sent by the registered remote token messenger" },
+      2: { constant: "EInvalidBurnMessageVersion", explanation: "the burn message version does not match the State object" },
+      3: { constant: "EUnknownBurnToken", explanation: "the burned token is not linked to a local token" },
+      4: { constant: "EInvalidTokenType", explanation: "the coin type does not match the local token linked to the burned token" },
+      5: { constant: "EMissingMintCap", explanation: "no mint cap is registered for the local token" },
+      6: { constant: "EPaused", explanation: "token_messenger_minter is paused" },
+      7: { constant: "EAmountOverflow", explanation: "the burn amount does not fit in a u64" }
+    },
+    remote_token_messenger: {
+      0: { constant: "ENotOwner", explanation: "only the owner can manage remote token messengers" },
+      1: { constant: "EEmptyAddress", explanation: "the remote token messenger cannot be the zero address" },
+      2: { constant: "ERemoteTokenMessengerAlreadyAdded", explanation: "a remote token messenger is already registered for the domain" },
+      3: { constant: "ERemoteTokenMessengerNotAdded", explanation: "no remote token messenger is registered for the domain" }
+    },
+    token_controller: {
+      0: { constant: "ENotTokenController", explanation: "the sender is not the token controller" },
+      1: { constant: "EEmptyAddress", explanation: "the remote token cannot be the zero address" },
+      2: { constant: "ETokenPairAlreadyLinked", explanation: "the remote token is already linked to a local token" },
+      3: { constant: "ETokenPairNotLinked", explanation: "the remote token is not linked to a local token" },
+      4: { constant: "EMintCapAlreadyAdded", explanation: "a mint cap is already registered for the token" },
+      5: { constant: "EMintCapDoesNotExist", explanation: "no mint cap is registered for the token" },
+      6: { constant: "EMintCapNotDeAuthorized", explanation: "the mint cap must be removed from the treasury before it is removed" }
+    }
+  }
+};
+
+/**
+ * Location and code of a Move abort, parsed from a failed transaction status.
+ */
+export interface MoveAbort {
+  address: string;
+  module: string;
+  functionName?: string;
+  code: number;
+  // Index of the transaction command that aborted.
+  command?: number;
+}
+
+/**
+ * Error thrown when a transaction aborts with a CCTP error constant.
+ */
+export class CctpError extends Error {
+  constructor(
+    message: string,
+    readonly cctpPackage: CctpPackage,
+    readonly module: string,
+    readonly constant: string,
+    readonly code: number,
+    readonly explanation: string,
+    readonly functionName?: string
+  ) {
+    super(message);
+    this.name = "CctpError";
+  }
+}
+
+/**
+ * Parses the MoveAbort of a failed transaction status, e.g.
+ * `MoveAbort(MoveLocation { module: ModuleId { address: 0x.., name: Identifier("receive_message") }, ...}, 4) in command 0`.
+ * @returns the abort, or null if the error is not a Move abort
+ */
+export function parseMoveAbort(error: string): MoveAbort | null {
+  const match = error.match(
+    /MoveAbort\(MoveLocation \{ module: ModuleId \{ address: (?:0x)?([0-9a-fA-F]+), name: Identifier\("(\w+)"\) \},.*?(?:function_name: Some\("(\w+)"\) )?\}, (\d+)\)(?: in command (\d+))?/
+  );
+  if (!match) {
+    return null;
+  }
+  const [, address, module, functionName, code, command] = match;
+  return {
+    address: normalizeSuiAddress(address),
+    module,
+    functionName,
+    code: Number(code),
+    command: command === undefined ? undefined : Number(command)
+  };
+}
+
+/**
+ * Decodes the Move abort of a failed transaction status into the CCTP error constant it was raised with.
+ * Only aborts of the deployment's packages, original or latest, are decoded, as other packages can declare
+ * modules with the same names, e.g. `pausable` or `version_control`.
+ * @param context prefix of the error message, e.g. "Transaction failed"
+ * @returns the error, or null if the status is not an abort of a CCTP module of the deployment
+ */
+export function decodeMoveAbort(error: string, deployment: CctpDeployment, context = "Transaction failed"): CctpError | null {
+  const abort = parseMoveAbort(error);
+  const cctpPackage = abort && findCctpPackage(deployment, abort.address);
+  const definition = cctpPackage && CCTP_ERRORS[cctpPackage][abort.module]?.[abort.code];
+  if (!definition) {
+    return null;
+  }
+  const location = [cctpPackage, abort.module, abort.functionName].filter(Boolean).join("::");
+  return new CctpError(
+    `${context}: ${location} aborted, ${definition.explanation} (${definition.constant}).`,
+    cctpPackage,
+    abort.module,
+    definition.constant,
+    abort.code,
+    definition.explanation,
+    abort.functionName
+  );
+}
+
+/**
+ * Returns the error to throw for a failed transaction status: a CctpError for aborts of the deployment's CCTP
+ * modules, or an Error with the raw status otherwise, including when no deployment is given.
+ */
+export function toTransactionError(context: string, error = "unknown error", deployment?: CctpDeployment): Error {
+  return (deployment && decodeMoveAbort(error, deployment, context)) ?? new Error(`${context}: ${error}`);
+}
+
+// Returns the CCTP package of the deployment published at an address, as its original or latest version.
+function findCctpPackage(deployment: CctpDeployment, address: string): CctpPackage | null {
+  const packageIds: Record<CctpPackage, (string | undefined)[]> = {
+    message_transmitter: [deployment.messageTransmitterId, deployment.messageTransmitterLatestId],
+    token_messenger_minter: [deployment.tokenMessengerMinterId, deployment.tokenMessengerMinterLatestId]
+  };
+  return (Object.keys(packageIds) as CctpPackage[]).find((cctpPackage) =>
+    packageIds[cctpPackage].some((packageId) => packageId && normalizeSuiAddress(packageId) === address)
+  ) ?? null;
+}
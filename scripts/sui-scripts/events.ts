@@ -0,0 +1,95 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SuiEvent, SuiTransactionBlockResponse } from "@mysten/sui/client";
+
+import { BurnMessage, decodeBurnMessageFromMessage, Message, normalizeAddress } from "./message";
+
+export interface DepositForBurnEvent {
+  nonce: bigint;
+  burnToken: string;
+  amount: bigint;
+  depositor: string;
+  mintRecipient: string;
+  destinationDomain: number;
+  destinationTokenMessenger: string;
+  destinationCaller: string;
+}
+
+export interface DepositForBurnOutput {
+  message: Buffer;
+  decodedMessage: Message;
+  burnMessage: BurnMessage;
+  depositForBurnEvent: DepositForBurnEvent;
+}
+
+/**
+ * Returns true if the event was emitted from the given `module::Struct`, in any package.
+ */
+export function isEventOfType(event: SuiEvent, moduleAndStruct: string): boolean {
+  return event.type.endsWith(`::${moduleAndStruct}`);
+}
+
+/**
+ * Returns the raw messages of all send_message::MessageSent events in a transaction.
+ */
+export function parseMessageSentEvents(response: SuiTransactionBlockResponse): Buffer[] {
+  return (response.events ?? [])
+    .filter((event) => isEventOfType(event, "send_message::MessageSent"))
+    .map((event) => Buffer.from((event.parsedJson as any).message));
+}
+
+/**
+ * Returns all deposit_for_burn::DepositForBurn events in a transaction.
+ */
+export function parseDepositForBurnEvents(response: SuiTransactionBlockResponse): DepositForBurnEvent[] {
+  return (response.events ?? [])
+    .filter((event) => isEventOfType(event, "deposit_for_burn::DepositForBurn"))
+    .map((event) => {
+      const parsedJson = event.parsedJson as any;
+      return {
+        nonce: BigInt(parsedJson.nonce),
+        burnToken: normalizeAddress(parsedJson.burn_token),
+        amount: BigInt(parsedJson.amount),
+        depositor: normalizeAddress(parsedJson.depositor),
+        mintRecipient: normalizeAddress(parsedJson.mint_recipient),
+        destinationDomain: Number(parsedJson.destination_domain),
+        destinationTokenMessenger: normalizeAddress(parsedJson.destination_token_messenger),
+        destinationCaller: normalizeAddress(parsedJson.destination_caller),
+      };
+    });
+}
+
+/**
+ * Extracts the message and DepositForBurn event emitted by a deposit_for_burn or
+ * replace_deposit_for_burn transaction.
+ * @throws if the transaction did not emit exactly one of each
+ */
+export function parseDepositForBurnOutput(response: SuiTransactionBlockResponse): DepositForBurnOutput {
+  const messages = parseMessageSentEvents(response);
+  const depositForBurnEvents = parseDepositForBurnEvents(response);
+  if (messages.length !== 1 || depositForBurnEvents.length !== 1) {
+    throw new Error(
+      `Expected one MessageSent and one DepositForBurn event in ${response.digest}, ` +
+      `found ${messages.length} and ${depositForBurnEvents.length}.`
+    );
+  }
+
+  const { message: decodedMessage, burnMessage } = decodeBurnMessageFromMessage(messages[0]);
+  return { message: messages[0], decodedMessage, burnMessage, depositForBurnEvent: depositForBurnEvents[0] };
+}
@@ -0,0 +1,91 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "fs";
+import { Contract, Web3 } from "web3";
+
+const TOKEN_MESSENGER_INTERFACE_PATH = "../evm-cctp-contracts/cctp-interfaces/TokenMessenger.sol/TokenMessenger.json";
+const TOKEN_MINTER_INTERFACE_PATH = "../evm-cctp-contracts/cctp-interfaces/TokenMinter.sol/TokenMinter.json";
+const ZERO_BYTES32 = `0x${"0".repeat(64)}`;
+
+/**
+ * An EVM contract, optionally called by the owner of the given private key.
+ */
+export interface EvmContractTarget {
+  rpcUrl: string;
+  address: string;
+  privateKey?: string;
+}
+
+/**
+ * Reads the token messenger a TokenMessenger has registered for a remote domain, or null if none is.
+ */
+export async function fetchEvmRemoteTokenMessenger(tokenMessenger: EvmContractTarget, domain: number): Promise<string | null> {
+  const { contract } = loadContract(TOKEN_MESSENGER_INTERFACE_PATH, tokenMessenger);
+  const remoteTokenMessenger: string = await contract.methods.remoteTokenMessengers(domain).call();
+  return remoteTokenMessenger.toLowerCase() === ZERO_BYTES32 ? null : remoteTokenMessenger.toLowerCase();
+}
+
+/**
+ * Calls TokenMessenger.addRemoteTokenMessenger as the TokenMessenger owner.
+ * @param remoteTokenMessenger 32 byte address of the token messenger on the remote domain
+ * @returns the transaction hash
+ */
+export async function addEvmRemoteTokenMessenger(
+  tokenMessenger: EvmContractTarget,
+  domain: number,
+  remoteTokenMessenger: string
+): Promise<string> {
+  const { contract, from } = loadContract(TOKEN_MESSENGER_INTERFACE_PATH, tokenMessenger);
+  const receipt = await contract.methods.addRemoteTokenMessenger(domain, remoteTokenMessenger).send({ from });
+  return receipt.transactionHash;
+}
+
+/**
+ * Calls TokenMessenger.removeRemoteTokenMessenger as the TokenMessenger owner.
+ * @returns the transaction hash
+ */
+export async function removeEvmRemoteTokenMessenger(tokenMessenger: EvmContractTarget, domain: number): Promise<string> {
+  const { contract, from } = loadContract(TOKEN_MESSENGER_INTERFACE_PATH, tokenMessenger);
+  const receipt = await contract.methods.removeRemoteTokenMessenger(domain).send({ from });
+  return receipt.transactionHash;
+}
+
+/**
+ * Calls TokenMinter.linkTokenPair as the TokenMinter token controller.
+ * @param localToken EVM address of the token minted on the EVM chain
+ * @param remoteToken 32 byte address of the token on the remote domain
+ * @returns the transaction hash
+ */
+export async function linkEvmTokenPair(
+  tokenMinter: EvmContractTarget,
+  localToken: string,
+  remoteDomain: number,
+  remoteToken: string
+): Promise<string> {
+  const { contract, from } = loadContract(TOKEN_MINTER_INTERFACE_PATH, tokenMinter);
+  const receipt = await contract.methods.linkTokenPair(localToken, remoteDomain, remoteToken).send({ from });
+  return receipt.transactionHash;
+}
+
+function loadContract(interfacePath: string, target: EvmContractTarget): { contract: Contract<any>; from?: string } {
+  const web3 = new Web3(new Web3.providers.HttpProvider(target.rpcUrl));
+  const contractInterface = JSON.parse(fs.readFileSync(interfacePath).toString());
+  const from = target.privateKey ? web3.eth.accounts.wallet.add(target.privateKey)[0].address : undefined;
+  return { contract: new web3.eth.Contract(contractInterface.abi, target.address), from };
+}
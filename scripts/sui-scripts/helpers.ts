@@ -16,21 +16,33 @@
  * limitations under the License.
  */
 
-import { SuiClient, SuiTransactionBlockResponse } from "@mysten/sui/client";
-import { decodeSuiPrivateKey } from "@mysten/sui/cryptography";
+import {
+  BalanceChange,
+  DryRunTransactionBlockResponse,
+  JsonRpcError,
+  ObjectOwner,
+  SuiClient,
+  SuiEvent,
+  SuiHTTPStatusError,
+  SuiTransactionBlockResponse
+} from "@mysten/sui/client";
+import { decodeSuiPrivateKey, Signer } from "@mysten/sui/cryptography";
 import { BcsType } from "@mysten/sui/bcs";
 import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
-import { Transaction } from "@mysten/sui/transactions";
+import { Transaction, TransactionDataBuilder } from "@mysten/sui/transactions";
 import { execSync } from "child_process";
 import _ from "lodash";
 import fs from "fs";
 import path from "path";
 import util from "util";
 import Web3, { Contract, EventLog, TransactionReceipt } from "web3";
-import * as ethutil from 'ethereumjs-util';
 import waitForExpect from "wait-for-expect";
 import assert from "assert";
 
+import { LOCAL_ATTESTER_PRIVATE_KEY, signMessageHash } from "./attestation";
+import { CctpError, toTransactionError } from "./errors";
+import { CctpDeployment } from "./transactions";
+
 export function log(...[message, ...args]: Parameters<typeof console.log>) {
   console.log(">>> " + message, ...args);
 }
@@ -67,37 +79,370 @@ export function getEd25519KeypairFromPrivateKey(privateKey: string) {
   );
 }
 
-export async function executeTransactionHelper(args: {
+// Budget of simulations, matching the SDK's budget when it estimates gas itself. Simulations use a mock gas coin.
+const SIMULATION_GAS_BUDGET = 50_000_000_000;
+// Overhead the SDK adds to simulated computation costs when it estimates gas itself, in units of the gas price.
+const GAS_SAFE_OVERHEAD = 1_000;
+export const DEFAULT_GAS_SAFETY_MARGIN_PERCENT = 20;
+
+/**
+ * Outcome of a transaction as predicted by dryRunTransactionBlock.
+ */
+export interface TransactionSimulation {
+  // Gas the transaction is expected to use, net of storage rebates but at least its computation cost.
+  estimatedGas: bigint;
+  // Fixed overhead of the SDK's gas estimates, the gas price times 1000.
+  gasOverhead: bigint;
+  // Estimated gas plus the overhead, increased by the safety margin.
+  gasBudget: bigint;
+  gasSafetyMarginPercent: number;
+  balanceChanges: BalanceChange[];
+  events: SuiEvent[];
+  response: DryRunTransactionBlockResponse;
+}
+
+/**
+ * Simulates a transaction with dryRunTransactionBlock, without changing it.
+ * @param args.gasSafetyMarginPercent margin added to the estimated gas and overhead to get the budget, defaults to 20%
+ * @param args.deployment CCTP deployment whose Move aborts are decoded into CctpErrors
+ * @throws a CctpError if the simulated transaction aborts in a CCTP module, or an Error if it fails otherwise
+ */
+export async function simulateTransaction(args: {
   client: SuiClient;
-  signer: Ed25519Keypair;
+  sender: string;
   transaction: Transaction;
-}): Promise<SuiTransactionBlockResponse> {
-  const initialTxOutput = await args.client.signAndExecuteTransaction({
-    signer: args.signer,
-    transaction: args.transaction,
+  gasSafetyMarginPercent?: number;
+  deployment?: CctpDeployment;
+}): Promise<TransactionSimulation> {
+  const gasSafetyMarginPercent = args.gasSafetyMarginPercent ?? DEFAULT_GAS_SAFETY_MARGIN_PERCENT;
+  const simulationTx = Transaction.from(args.transaction);
+  simulationTx.setSenderIfNotSet(args.sender);
+  simulationTx.setGasBudget(SIMULATION_GAS_BUDGET);
+  simulationTx.setGasPayment([]);
+
+  const response = await args.client.dryRunTransactionBlock({
+    transactionBlock: await simulationTx.build({ client: args.client })
   });
+  if (response.effects.status.status === "failure") {
+    throw toTransactionError(
+      "Simulation failed, the transaction was not sent",
+      response.effects.status.error,
+      args.deployment
+    );
+  }
 
-  // Wait for the transaction to be available over API
-  const txOutput = await args.client.waitForTransaction({
-    digest: initialTxOutput.digest,
-    options: {
-      showBalanceChanges: true,
-      showEffects: true,
-      showEvents: true,
-      showInput: true,
-      showObjectChanges: true,
-      showRawInput: false, // too verbose
-    },
-  });
+  const { computationCost, storageCost, storageRebate } = response.effects.gasUsed;
+  const netGas = BigInt(computationCost) + BigInt(storageCost) - BigInt(storageRebate);
+  const estimatedGas = netGas > BigInt(computationCost) ? netGas : BigInt(computationCost);
+  // Building the simulation sets the gas price, to the reference gas price unless the transaction sets one.
+  const gasOverhead = BigInt(GAS_SAFE_OVERHEAD) * BigInt(simulationTx.getData().gasData.price ?? 1);
+  return {
+    estimatedGas,
+    gasOverhead,
+    gasBudget: (estimatedGas + gasOverhead) * BigInt(100 + gasSafetyMarginPercent) / BigInt(100),
+    gasSafetyMarginPercent,
+    balanceChanges: response.balanceChanges,
+    events: response.events,
+    response
+  };
+}
+
+/**
+ * Formats the predicted gas, balance changes and events of a simulation.
+ */
+export function formatTransactionSimulation(simulation: TransactionSimulation): string {
+  return [
+    `Simulated transaction ${simulation.response.effects.transactionDigest}:`,
+    `  estimated gas: ${simulation.estimatedGas} MIST, budget ${simulation.gasBudget} MIST with a ${simulation.gasOverhead} MIST ` +
+      `overhead and a ${simulation.gasSafetyMarginPercent}% margin`,
+    ...simulation.balanceChanges.map((change) =>
+      `  balance change: ${change.amount} ${change.coinType} for ${formatOwner(change.owner)}`),
+    ...simulation.events.map((event) => `  event: ${event.type} ${JSON.stringify(event.parsedJson)}`)
+  ].join("\n");
+}
+
+export interface TransactionRetryOptions {
+  // Submissions of the transaction, including rebuilds after object version conflicts.
+  maxAttempts: number;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  // Time to wait for an executed transaction to be available from the fullnode.
+  confirmationTimeoutMs: number;
+}
+
+export const DEFAULT_TRANSACTION_RETRY_OPTIONS: TransactionRetryOptions = {
+  maxAttempts: 3,
+  initialBackoffMs: 1_000,
+  maxBackoffMs: 10_000,
+  confirmationTimeoutMs: 60_000
+};
+
+/**
+ * Outcome of a transaction execution:
+ * - success: the transaction executed successfully
+ * - failure: the transaction executed but failed, e.g. on a Move abort, and its gas was charged
+ * - simulated: the transaction was only simulated, as requested by dryRun
+ * - rejected: the transaction was not executed, as its simulation failed or its submission was refused
+ * - unconfirmed: the transaction was submitted but could not be found in time, it may still have executed
+ */
+export type TransactionExecutionStatus = "success" | "failure" | "simulated" | "rejected" | "unconfirmed";
+
+export interface TransactionExecutionResult {
+  status: TransactionExecutionStatus;
+  // Digest of the last transaction submitted, unset if none was.
+  digest?: string;
+  // Response of the executed transaction, or the simulated one on a dry run.
+  response?: SuiTransactionBlockResponse;
+  simulation?: TransactionSimulation;
+  // Set unless the status is success or simulated.
+  error?: Error;
+  attempts: number;
+}
+
+// Errors classified for retries: transient errors resubmit the same signed transaction, version conflicts rebuild it
+// against the current object versions.
+type SubmissionErrorKind = "transient" | "versionConflict" | "permanent";
+
+const VERSION_CONFLICT_PATTERN = /not available for consumption|ObjectVersionUnavailableForConsumption|SharedObjectCongestion/i;
+const TRANSIENT_RPC_ERROR_PATTERN = /TooManyTransactionsPendingOnObject|too many|overload|busy|timed? ?out/i;
+const TRANSIENT_NETWORK_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "UND_ERR_SOCKET"];
+
+function classifySubmissionError(error: unknown): SubmissionErrorKind {
+  const message = error instanceof Error ? error.message : String(error);
+  if (VERSION_CONFLICT_PATTERN.test(message)) {
+    return "versionConflict";
+  }
+  if (error instanceof SuiHTTPStatusError) {
+    return error.status === 429 || error.status >= 500 ? "transient" : "permanent";
+  }
+  if (error instanceof JsonRpcError) {
+    return TRANSIENT_RPC_ERROR_PATTERN.test(message) ? "transient" : "permanent";
+  }
+  // Network failures surface as fetch errors, with the socket error as their cause.
+  const cause = error instanceof Error ? (error as Error & { cause?: { code?: string } }).cause : undefined;
+  if (
+    error instanceof TypeError && message === "fetch failed" ||
+    TRANSIENT_NETWORK_ERROR_CODES.includes(cause?.code ?? "") ||
+    error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")
+  ) {
+    return "transient";
+  }
+  return "permanent";
+}
+
+const TRANSACTION_RESPONSE_OPTIONS = {
+  showBalanceChanges: true,
+  showEffects: true,
+  showEvents: true,
+  showInput: true,
+  showObjectChanges: true,
+  showRawInput: false, // too verbose
+};
+
+// Returns the transaction with the given digest, or null if the fullnode doesn't know it.
+async function findTransaction(client: SuiClient, digest: string): Promise<SuiTransactionBlockResponse | null> {
+  try {
+    return await client.getTransactionBlock({ digest, options: TRANSACTION_RESPONSE_OPTIONS });
+  } catch {
+    return null;
+  }
+}
 
-  if (txOutput.effects?.status.status === "failure") {
-    console.log(inspectObject(txOutput));
-    throw new Error("Transaction failed!");
+/**
+ * Simulates a transaction, sets its gas budget from the simulation, then signs and executes it with
+ * executeSignedTransaction, retrying on transient RPC errors and object version conflicts.
+ *
+ * The signed transaction is resubmitted as is after transient errors, so it can only execute once. It is rebuilt
+ * against the current object versions after a version conflict, or a cancellation due to shared object
+ * congestion, once its previous digest is known not to have executed.
+ *
+ * The transaction passed is left unchanged.
+ * @param args.dryRun only simulate the transaction
+ * @param args.gasSafetyMarginPercent margin added to the estimated gas and overhead to get the budget, defaults to 20%
+ * @param args.retry retry options, defaulting to DEFAULT_TRANSACTION_RETRY_OPTIONS
+ * @param args.deployment CCTP deployment whose Move aborts are decoded into CctpErrors
+ * @returns the outcome of the execution, which never throws for a failed or rejected transaction
+ */
+export async function executeTransaction(args: {
+  client: SuiClient;
+  signer: Signer;
+  transaction: Transaction;
+  dryRun?: boolean;
+  gasSafetyMarginPercent?: number;
+  retry?: Partial<TransactionRetryOptions>;
+  deployment?: CctpDeployment;
+}): Promise<TransactionExecutionResult> {
+  const { client, signer } = args;
+  const retry = { ...DEFAULT_TRANSACTION_RETRY_OPTIONS, ...args.retry };
+  let attempts = 0;
+
+  for (;;) {
+    let simulation: TransactionSimulation;
+    let submission: { bytes: Uint8Array; signature: string };
+    try {
+      const transaction = Transaction.from(args.transaction);
+      transaction.setSenderIfNotSet(signer.toSuiAddress());
+      simulation = await simulateTransaction({
+        client,
+        sender: signer.toSuiAddress(),
+        transaction,
+        gasSafetyMarginPercent: args.gasSafetyMarginPercent,
+        deployment: args.deployment
+      });
+      if (args.dryRun) {
+        const { effects, events, objectChanges, balanceChanges } = simulation.response;
+        const response = { digest: effects.transactionDigest, effects, events, objectChanges, balanceChanges };
+        return { status: "simulated", response, simulation, attempts: 0 };
+      }
+      transaction.setGasBudget(simulation.gasBudget);
+      const bytes = await transaction.build({ client });
+      submission = { bytes, signature: (await signer.signTransaction(bytes)).signature };
+    } catch (caught) {
+      const error = caught instanceof Error ? caught : new Error(String(caught));
+      attempts++;
+      if (classifySubmissionError(error) === "permanent" || attempts >= retry.maxAttempts) {
+        return { status: "rejected", error, attempts };
+      }
+      await backOff(retry, attempts, error);
+      continue;
+    }
+
+    const result = await executeSignedTransaction({
+      client,
+      ...submission,
+      retry: { ...retry, maxAttempts: retry.maxAttempts - attempts },
+      deployment: args.deployment
+    });
+    attempts += result.attempts;
+    const rebuild = result.error && (result.status === "rejected" || result.status === "failure") &&
+      classifySubmissionError(result.error) === "versionConflict";
+    if (!rebuild || attempts >= retry.maxAttempts) {
+      return { ...result, simulation, attempts };
+    }
+    await backOff(retry, attempts, result.error as Error);
+  }
+}
+
+/**
+ * Executes a signed transaction, resubmitting the same bytes after transient RPC errors. Before any resubmission,
+ * its digest is looked up, so a transaction that executed despite an RPC error is not sent again, e.g. burning twice.
+ * Object version conflicts are not retried, as the transaction must be rebuilt and signed again.
+ * @param args.signature signature of the sender, or the signatures of a sponsored transaction
+ * @param args.retry retry options, defaulting to DEFAULT_TRANSACTION_RETRY_OPTIONS
+ * @param args.deployment CCTP deployment whose Move aborts are decoded into CctpErrors
+ * @returns the outcome of the execution, which never throws for a failed or rejected transaction
+ */
+export async function executeSignedTransaction(args: {
+  client: SuiClient;
+  bytes: Uint8Array;
+  signature: string | string[];
+  retry?: Partial<TransactionRetryOptions>;
+  deployment?: CctpDeployment;
+}): Promise<TransactionExecutionResult> {
+  const { client } = args;
+  const retry = { ...DEFAULT_TRANSACTION_RETRY_OPTIONS, ...args.retry };
+  const digest = TransactionDataBuilder.getDigestFromBytes(args.bytes);
+
+  for (let attempt = 1; ; attempt++) {
+    let error: Error;
+    try {
+      await client.executeTransactionBlock({ transactionBlock: args.bytes, signature: args.signature });
+      const response = await confirmTransaction(client, digest, retry.confirmationTimeoutMs);
+      if (!response) {
+        return {
+          status: "unconfirmed",
+          digest,
+          error: new Error(
+            `Transaction ${digest} was submitted but not found within ${retry.confirmationTimeoutMs}ms, ` +
+            "check whether it executed before sending it again."
+          ),
+          attempts: attempt
+        };
+      }
+      return toExecutionResult(response, attempt, args.deployment);
+    } catch (caught) {
+      error = caught instanceof Error ? caught : new Error(String(caught));
+      // The submission may have executed even though its response was lost.
+      const executed = await findTransaction(client, digest);
+      if (executed) {
+        return toExecutionResult(executed, attempt, args.deployment);
+      }
+      if (classifySubmissionError(error) !== "transient" || attempt >= retry.maxAttempts) {
+        return { status: "rejected", digest, error, attempts: attempt };
+      }
+    }
+    await backOff(retry, attempt, error);
+  }
+}
+
+function toExecutionResult(
+  response: SuiTransactionBlockResponse,
+  attempts: number,
+  deployment?: CctpDeployment
+): TransactionExecutionResult {
+  if (response.effects?.status.status === "failure") {
+    const error = toTransactionError(`Transaction ${response.digest} failed`, response.effects.status.error, deployment);
+    return { status: "failure", digest: response.digest, response, error, attempts };
   }
+  return { status: "success", digest: response.digest, response, attempts };
+}
 
-  return txOutput;
+// Waits before the attempt following the given one, doubling the delay after each attempt.
+async function backOff(retry: TransactionRetryOptions, attempt: number, error: Error) {
+  const backoffMs = Math.min(retry.initialBackoffMs * 2 ** (attempt - 1), retry.maxBackoffMs);
+  log(`Retrying in ${backoffMs}ms (attempt ${attempt + 1} of ${retry.maxAttempts}) after: ${error.message}`);
+  await new Promise((resolve) => setTimeout(resolve, backoffMs));
+}
+
+// Waits for an executed transaction to be available from the fullnode, returning null if it isn't within the timeout.
+async function confirmTransaction(
+  client: SuiClient,
+  digest: string,
+  timeoutMs: number
+): Promise<SuiTransactionBlockResponse | null> {
+  try {
+    return await client.waitForTransaction({ digest, timeout: timeoutMs, options: TRANSACTION_RESPONSE_OPTIONS });
+  } catch {
+    return findTransaction(client, digest);
+  }
 }
 
+/**
+ * Executes a transaction with executeTransaction, throwing unless it succeeds.
+ * With dryRun, the simulation is printed and returned as the response instead, and nothing is sent; its digest
+ * and created object ids are the ones the transaction would have.
+ * @param args.gasSafetyMarginPercent margin added to the estimated gas and overhead to get the budget, defaults to 20%
+ * @param args.retry retry options, defaulting to DEFAULT_TRANSACTION_RETRY_OPTIONS
+ * @param args.deployment CCTP deployment whose Move aborts are decoded into CctpErrors
+ * @throws a CctpError if the simulation or the transaction aborts in a CCTP module of the deployment, or an Error
+ * if it fails, is rejected or can't be confirmed
+ */
+export async function executeTransactionHelper(args: {
+  client: SuiClient;
+  signer: Signer;
+  transaction: Transaction;
+  dryRun?: boolean;
+  gasSafetyMarginPercent?: number;
+  retry?: Partial<TransactionRetryOptions>;
+  deployment?: CctpDeployment;
+}): Promise<SuiTransactionBlockResponse> {
+  const result = await executeTransaction(args);
+  if (result.status === "simulated" && result.simulation) {
+    console.log(formatTransactionSimulation(result.simulation));
+  }
+  if (result.status === "failure" && !(result.error instanceof CctpError)) {
+    console.log(inspectObject(result.response));
+  }
+  if (!result.response || result.error) {
+    throw result.error ?? new Error("Transaction failed!");
+  }
+  return result.response;
+}
+
+/**
+ * Runs a transaction through devInspect and decodes the return values of its last command,
+ * so earlier commands can borrow the objects passed to the view function, e.g. `state::roles`.
+ */
 export async function callViewFunction<T, Input = T>(args: {
   client: SuiClient;
   transaction: Transaction;
@@ -111,7 +456,7 @@ export async function callViewFunction<T, Input = T>(args: {
     transactionBlock: args.transaction
   });
 
-  const returnValues = results?.[0]?.returnValues;
+  const returnValues = results?.[results.length - 1]?.returnValues;
   if (!returnValues) {
     throw new Error("Missing return values!");
   }
@@ -194,36 +539,30 @@ export const receiveEvm = async (
     .receiveMessage(message, attestation)
     .send({ from: userAddress });
 
-// Fetches USDC balance
+// Fetches the USDC balance of an address on an EVM chain.
 export const fetchUsdcBalance = async (
   web3: Web3,
+  usdcAddress: string,
   address: string
 ) => {
-  const evmUSDCAddress = `${process.env.EVM_USDC_ADDRESS}`;
   const usdcInterface = JSON.parse(
     fs.readFileSync("../evm-cctp-contracts/usdc-interfaces/FiatTokenV2_1.sol/FiatTokenV2_1.json").toString()
   );
-  const usdcContract = new web3.eth.Contract(usdcInterface.abi, evmUSDCAddress);
+  const usdcContract = new web3.eth.Contract(usdcInterface.abi, usdcAddress);
 
   return usdcContract.methods
     .balanceOf(address)
     .call();
 }
 
-// Given a hex-encoded message, produces an attestation.
+// Given a hex-encoded message, produces an attestation signed with the local attester key.
+// Use an AttestationProvider from ./attestation to fetch attestations on testnet/mainnet.
 export const attestToMessage = (
   web3: Web3,
   messageHex: string,
 ): string => {
-  // Create an attestation using the initialized Anvil keypair
-  // This is not a valid attester key in any testnet or mainnet environment. 
-  const attesterPrivateKey = "0xdbda1821b80551c9d65939329250298aa3472ba22feea921c0cf5d620ea67b97";
-
   const messageHash = web3.utils.keccak256(messageHex);
-  const signedMessage = ethutil.ecsign(ethutil.toBuffer(messageHash), ethutil.toBuffer(attesterPrivateKey));
-  const attestation = ethutil.toRpcSig(signedMessage.v, signedMessage.r, signedMessage.s);
-  
-  return attestation;
+  return signMessageHash(messageHash, LOCAL_ATTESTER_PRIVATE_KEY);
 }
 
 // Generates a depositForBurn tx from the given EVM chain and returns the message as a string.
@@ -273,3 +612,16 @@ const fetchEvmMessage = async (
 
   return {message: String((logs[0] as EventLog).returnValues.message), tx: txReceipt};
 }
+
+function formatOwner(owner: ObjectOwner): string {
+  if (typeof owner === "string") {
+    return owner;
+  }
+  if ("AddressOwner" in owner) {
+    return owner.AddressOwner;
+  }
+  if ("ObjectOwner" in owner) {
+    return `object ${owner.ObjectOwner}`;
+  }
+  return "shared object";
+}
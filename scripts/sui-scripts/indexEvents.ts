@@ -0,0 +1,126 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SuiClient } from "@mysten/sui/client";
+import { InvalidArgumentError, program } from "commander";
+import dotenv from "dotenv";
+
+import { EventQuery, indexEvents, openEventStore } from "./indexer";
+import { loadDeploymentManifest, toCctpDeployment } from "./manifest";
+
+dotenv.config();
+
+const FULLNODE_PORT = process.env.FULLNODE_PORT ?? "7000";
+const SUI_RPC_URL = process.env.SUI_RPC_URL ?? `http://localhost:${FULLNODE_PORT}`;
+
+interface QueryOptions {
+  event?: string[];
+  digest?: string;
+  depositor?: string;
+  recipient?: string;
+  sourceDomain?: number;
+  destinationDomain?: number;
+  nonce?: bigint;
+  from?: number;
+  to?: number;
+}
+
+/**
+ * Indexes the CCTP events of the deployment manifest into the event store at EVENT_STORE_PATH, and queries it.
+ * Indexing resumes from the cursors saved by the previous run.
+ */
+const main = async () => {
+  program
+    .name("index-events")
+    .description("Index the CCTP events emitted on Sui and query them");
+
+  program
+    .command("sync")
+    .description("fetch the events emitted since the last sync")
+    .option("--watch", "keep syncing until interrupted")
+    .option("--interval-ms <ms>", "delay between syncs with --watch", parseInteger, 5_000)
+    .action(async (options: { watch?: boolean; intervalMs: number }) => {
+      const client = new SuiClient({ url: SUI_RPC_URL });
+      const deployment = toCctpDeployment(await loadDeploymentManifest({ client }));
+      const store = openEventStore();
+
+      do {
+        const fetched = await indexEvents({ client, deployment, store });
+        console.log(`Indexed ${fetched} new event(s).`);
+        if (options.watch) {
+          await new Promise((resolve) => setTimeout(resolve, options.intervalMs));
+        }
+      } while (options.watch);
+      store.close();
+    });
+
+  program
+    .command("query")
+    .description("print the indexed events matching all the given filters, oldest first")
+    .option("--event <name...>", "event names, e.g. deposit_for_burn::DepositForBurn")
+    .option("--digest <digest>", "digest of the transaction that emitted the events")
+    .option("--depositor <address>", "depositor of burns")
+    .option("--recipient <address>", "mint recipient of burns and mints")
+    .option("--source-domain <domain>", "source domain of sent and received messages", parseInteger)
+    .option("--destination-domain <domain>", "destination domain of sent messages and burns", parseInteger)
+    .option("--nonce <nonce>", "nonce of sent and received messages and burns", parseNonce)
+    .option("--from <time>", "earliest event time, as an ISO date or milliseconds", parseTime)
+    .option("--to <time>", "latest event time, as an ISO date or milliseconds", parseTime)
+    .action((options: QueryOptions) => {
+      const query: EventQuery = {
+        names: options.event,
+        txDigest: options.digest,
+        depositor: options.depositor,
+        recipient: options.recipient,
+        sourceDomain: options.sourceDomain,
+        destinationDomain: options.destinationDomain,
+        nonce: options.nonce,
+        fromMs: options.from,
+        toMs: options.to
+      };
+      const store = openEventStore();
+      store.query(query).forEach((event) => console.log(JSON.stringify(event)));
+      store.close();
+    });
+
+  await program.parseAsync();
+};
+
+function parseInteger(value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new InvalidArgumentError("Expected a non-negative integer.");
+  }
+  return Number(value);
+}
+
+function parseNonce(value: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new InvalidArgumentError("Expected a u64 nonce.");
+  }
+  return BigInt(value);
+}
+
+function parseTime(value: string): number {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new InvalidArgumentError("Expected an ISO date or milliseconds since the epoch.");
+  }
+  return time;
+}
+
+main();
@@ -0,0 +1,361 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventId, PaginatedEvents, SuiClient, SuiEvent } from "@mysten/sui/client";
+import Database from "better-sqlite3";
+
+import { CctpPackage } from "./admin";
+import { decodeBurnMessageFromMessage, decodeMessage, normalizeAddress } from "./message";
+import { CctpDeployment } from "./transactions";
+
+export const DEFAULT_EVENT_STORE_PATH = "events.db";
+
+// Events indexed for each package, as `module::Struct`.
+export const INDEXED_EVENTS: Record<CctpPackage, string[]> = {
+  message_transmitter: [
+    "send_message::MessageSent",
+    "receive_message::MessageReceived",
+    "attester_manager::AttesterEnabled",
+    "attester_manager::AttesterDisabled",
+    "attester_manager::SignatureThresholdUpdated",
+    "message_size::MaxMessageBodySizeUpdated",
+    "role_management::PauserChanged",
+    "role_management::AttesterManagerUpdated",
+    "pausable::Pause",
+    "pausable::Unpause",
+    "migration::MigrationStarted",
+    "migration::MigrationAborted",
+    "migration::MigrationCompleted"
+  ],
+  token_messenger_minter: [
+    "deposit_for_burn::DepositForBurn",
+    "handle_receive_message::MintAndWithdraw",
+    "token_controller::SetBurnLimitPerMessage",
+    "token_controller::TokenPairLinked",
+    "token_controller::TokenPairUnlinked",
+    "token_controller::MintCapAdded",
+    "token_controller::MintCapRemoved",
+    "remote_token_messenger::RemoteTokenMessengerAdded",
+    "remote_token_messenger::RemoteTokenMessengerRemoved",
+    "role_management::PauserChanged",
+    "role_management::SetTokenController",
+    "pausable::Pause",
+    "pausable::Unpause",
+    "migration::MigrationStarted",
+    "migration::MigrationAborted",
+    "migration::MigrationCompleted"
+  ]
+};
+
+/**
+ * A CCTP event, with the fields it can be queried by. Nonces are decimal strings, as u64 nonces
+ * don't fit in a JSON number or an SQLite integer.
+ */
+export interface IndexedEvent {
+  id: EventId;
+  cctpPackage: CctpPackage;
+  // `module::Struct` of the event.
+  name: string;
+  timestampMs: number | null;
+  parsedJson: unknown;
+  sourceDomain?: number;
+  destinationDomain?: number;
+  nonce?: string;
+  depositor?: string;
+  recipient?: string;
+}
+
+export interface EventQuery {
+  names?: string[];
+  txDigest?: string;
+  depositor?: string;
+  recipient?: string;
+  sourceDomain?: number;
+  destinationDomain?: number;
+  nonce?: bigint;
+  fromMs?: number;
+  toMs?: number;
+}
+
+/**
+ * Embedded store of indexed events and of the queryEvents cursor of each event type.
+ */
+export interface EventStore {
+  getCursor(eventType: string): EventId | null;
+  /**
+   * Saves a page of events of a type together with its cursor. Events already stored are skipped, so a page
+   * fetched again is not duplicated.
+   */
+  savePage(eventType: string, events: IndexedEvent[], cursor: EventId | null): void;
+  query(query: EventQuery): IndexedEvent[];
+  // Closes the database file, after which the store can't be used.
+  close(): void;
+}
+
+/**
+ * Returns the SQLite database file of the event store, which can be overridden with EVENT_STORE_PATH.
+ */
+export function getEventStorePath(): string {
+  return process.env.EVENT_STORE_PATH ?? DEFAULT_EVENT_STORE_PATH;
+}
+
+/**
+ * Opens the event store in an SQLite database file, creating it if needed. Each page is saved with its cursor in
+ * a single transaction, so a sync interrupted by a crash resumes from the last saved page. Events are indexed
+ * by transaction digest, nonce, source and destination domain, depositor, recipient and timestamp, so queries
+ * read only the matching events.
+ */
+export function openEventStore(filePath: string = getEventStorePath()): EventStore {
+  const database = new Database(filePath);
+  // Lets queries, e.g. from another process, read the store while a sync writes to it.
+  database.pragma("journal_mode = WAL");
+  database.exec(EVENT_STORE_SCHEMA);
+
+  const selectCursor = database.prepare<[string], { tx_digest: string; event_seq: string }>(
+    "SELECT tx_digest, event_seq FROM cursors WHERE event_type = ?"
+  );
+  const insertEvent = database.prepare<EventRow>(
+    `INSERT OR IGNORE INTO events (${EVENT_COLUMNS.join(", ")}) VALUES (${EVENT_COLUMNS.map((column) => `@${column}`).join(", ")})`
+  );
+  const upsertCursor = database.prepare<[string, string | null, string | null]>(
+    "INSERT INTO cursors (event_type, tx_digest, event_seq) VALUES (?, ?, ?) " +
+    "ON CONFLICT (event_type) DO UPDATE SET tx_digest = excluded.tx_digest, event_seq = excluded.event_seq"
+  );
+  const savePage = database.transaction((eventType: string, events: IndexedEvent[], cursor: EventId | null) => {
+    events.forEach((event) => insertEvent.run(toEventRow(event)));
+    upsertCursor.run(eventType, cursor?.txDigest ?? null, cursor?.eventSeq ?? null);
+  });
+
+  return {
+    getCursor: (eventType) => {
+      const row = selectCursor.get(eventType);
+      return row?.tx_digest ? { txDigest: row.tx_digest, eventSeq: row.event_seq } : null;
+    },
+    savePage: (eventType, events, cursor) => savePage(eventType, events, cursor),
+    query: (query) => {
+      const { where, parameters } = toWhereClause(query);
+      return database
+        .prepare<unknown[], EventRow>(`SELECT * FROM events ${where} ORDER BY timestamp_ms, rowid`)
+        .all(...parameters)
+        .map(fromEventRow);
+    },
+    close: () => database.close()
+  };
+}
+
+/**
+ * Pages through queryEvents for every indexed event type, from the stored cursors, and saves each page.
+ * Event types are named after the original package ids of the deployment.
+ * @returns the number of events fetched
+ */
+export async function indexEvents(args: {
+  client: SuiClient;
+  deployment: CctpDeployment;
+  store: EventStore;
+  onPage?: (eventType: string, count: number) => void;
+}): Promise<number> {
+  const { client, store } = args;
+  const packageIds: Record<CctpPackage, string> = {
+    message_transmitter: args.deployment.messageTransmitterId,
+    token_messenger_minter: args.deployment.tokenMessengerMinterId
+  };
+
+  let fetched = 0;
+  for (const [cctpPackage, names] of Object.entries(INDEXED_EVENTS) as [CctpPackage, string[]][]) {
+    for (const name of names) {
+      const eventType = `${packageIds[cctpPackage]}::${name}`;
+      let cursor: EventId | null = store.getCursor(eventType);
+      let page: PaginatedEvents;
+      do {
+        page = await client.queryEvents({ query: { MoveEventType: eventType }, cursor, order: "ascending" });
+        // The cursor of the last page points at its last event, so indexing resumes after it.
+        cursor = page.nextCursor ?? cursor;
+        store.savePage(eventType, page.data.map((event) => toIndexedEvent(event, cctpPackage, name)), cursor);
+        fetched += page.data.length;
+        args.onPage?.(eventType, page.data.length);
+      } while (page.hasNextPage);
+    }
+  }
+  return fetched;
+}
+
+/**
+ * Converts a Sui event into an indexed event, extracting the fields it can be queried by.
+ */
+export function toIndexedEvent(event: SuiEvent, cctpPackage: CctpPackage, name: string): IndexedEvent {
+  const parsedJson = event.parsedJson as Record<string, any>;
+  const indexedEvent: IndexedEvent = {
+    id: event.id,
+    cctpPackage,
+    name,
+    timestampMs: event.timestampMs ? Number(event.timestampMs) : null,
+    parsedJson
+  };
+
+  if (name === "send_message::MessageSent") {
+    const message = decodeMessage(Buffer.from(parsedJson.message));
+    indexedEvent.sourceDomain = message.sourceDomain;
+    indexedEvent.destinationDomain = message.destinationDomain;
+    indexedEvent.nonce = message.nonce.toString();
+    try {
+      const { burnMessage } = decodeBurnMessageFromMessage(Buffer.from(parsedJson.message));
+      indexedEvent.depositor = burnMessage.messageSender;
+      indexedEvent.recipient = burnMessage.mintRecipient;
+    } catch {
+      // Not a token_messenger_minter message.
+    }
+  } else if (name === "receive_message::MessageReceived") {
+    indexedEvent.sourceDomain = Number(parsedJson.source_domain);
+    indexedEvent.nonce = String(parsedJson.nonce);
+  } else if (name === "deposit_for_burn::DepositForBurn") {
+    indexedEvent.destinationDomain = Number(parsedJson.destination_domain);
+    indexedEvent.nonce = String(parsedJson.nonce);
+    indexedEvent.depositor = normalizeAddress(parsedJson.depositor);
+    indexedEvent.recipient = normalizeAddress(parsedJson.mint_recipient);
+  } else if (name === "handle_receive_message::MintAndWithdraw") {
+    indexedEvent.recipient = normalizeAddress(parsedJson.mint_recipient);
+  }
+  return indexedEvent;
+}
+
+const EVENT_STORE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    tx_digest TEXT NOT NULL,
+    event_seq TEXT NOT NULL,
+    cctp_package TEXT NOT NULL,
+    name TEXT NOT NULL,
+    timestamp_ms INTEGER,
+    parsed_json TEXT NOT NULL,
+    source_domain INTEGER,
+    destination_domain INTEGER,
+    nonce TEXT,
+    depositor TEXT,
+    recipient TEXT,
+    PRIMARY KEY (tx_digest, event_seq)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_nonce ON events (nonce, source_domain);
+  CREATE INDEX IF NOT EXISTS events_by_source_domain ON events (source_domain, timestamp_ms);
+  CREATE INDEX IF NOT EXISTS events_by_destination_domain ON events (destination_domain, timestamp_ms);
+  CREATE INDEX IF NOT EXISTS events_by_depositor ON events (depositor, timestamp_ms);
+  CREATE INDEX IF NOT EXISTS events_by_recipient ON events (recipient, timestamp_ms);
+  CREATE INDEX IF NOT EXISTS events_by_timestamp ON events (timestamp_ms);
+  CREATE TABLE IF NOT EXISTS cursors (
+    event_type TEXT PRIMARY KEY,
+    tx_digest TEXT,
+    event_seq TEXT
+  );
+`;
+
+// Row of the events table.
+interface EventRow {
+  tx_digest: string;
+  event_seq: string;
+  cctp_package: CctpPackage;
+  name: string;
+  timestamp_ms: number | null;
+  parsed_json: string;
+  source_domain: number | null;
+  destination_domain: number | null;
+  nonce: string | null;
+  depositor: string | null;
+  recipient: string | null;
+}
+
+const EVENT_COLUMNS: (keyof EventRow)[] = [
+  "tx_digest",
+  "event_seq",
+  "cctp_package",
+  "name",
+  "timestamp_ms",
+  "parsed_json",
+  "source_domain",
+  "destination_domain",
+  "nonce",
+  "depositor",
+  "recipient"
+];
+
+function toEventRow(event: IndexedEvent): EventRow {
+  return {
+    tx_digest: event.id.txDigest,
+    event_seq: event.id.eventSeq,
+    cctp_package: event.cctpPackage,
+    name: event.name,
+    timestamp_ms: event.timestampMs,
+    parsed_json: JSON.stringify(event.parsedJson),
+    source_domain: event.sourceDomain ?? null,
+    destination_domain: event.destinationDomain ?? null,
+    nonce: event.nonce ?? null,
+    depositor: event.depositor ?? null,
+    recipient: event.recipient ?? null
+  };
+}
+
+function fromEventRow(row: EventRow): IndexedEvent {
+  return {
+    id: { txDigest: row.tx_digest, eventSeq: row.event_seq },
+    cctpPackage: row.cctp_package,
+    name: row.name,
+    timestampMs: row.timestamp_ms,
+    parsedJson: JSON.parse(row.parsed_json),
+    sourceDomain: row.source_domain ?? undefined,
+    destinationDomain: row.destination_domain ?? undefined,
+    nonce: row.nonce ?? undefined,
+    depositor: row.depositor ?? undefined,
+    recipient: row.recipient ?? undefined
+  };
+}
+
+// Builds the conditions of a query, which SQLite answers from the most selective index they match.
+function toWhereClause(query: EventQuery): { where: string; parameters: unknown[] } {
+  const conditions: string[] = [];
+  const parameters: unknown[] = [];
+  const addCondition = (condition: string, ...values: unknown[]) => {
+    conditions.push(condition);
+    parameters.push(...values);
+  };
+
+  if (query.names) {
+    addCondition(`name IN (${query.names.map(() => "?").join(", ")})`, ...query.names);
+  }
+  if (query.txDigest !== undefined) {
+    addCondition("tx_digest = ?", query.txDigest);
+  }
+  if (query.depositor !== undefined) {
+    addCondition("depositor = ?", normalizeAddress(query.depositor));
+  }
+  if (query.recipient !== undefined) {
+    addCondition("recipient = ?", normalizeAddress(query.recipient));
+  }
+  if (query.sourceDomain !== undefined) {
+    addCondition("source_domain = ?", query.sourceDomain);
+  }
+  if (query.destinationDomain !== undefined) {
+    addCondition("destination_domain = ?", query.destinationDomain);
+  }
+  if (query.nonce !== undefined) {
+    addCondition("nonce = ?", query.nonce.toString());
+  }
+  if (query.fromMs !== undefined) {
+    addCondition("timestamp_ms >= ?", query.fromMs);
+  }
+  if (query.toMs !== undefined) {
+    addCondition("timestamp_ms <= ?", query.toMs);
+  }
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "", parameters };
+}
@@ -0,0 +1,323 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SuiClient } from "@mysten/sui/client";
+import { Signer } from "@mysten/sui/cryptography";
+import { isValidSuiAddress, isValidSuiObjectId, normalizeSuiAddress } from "@mysten/sui/utils";
+import fs from "fs";
+
+import { loadSignerFromEnv } from "./signers";
+import { CctpDeployment } from "./transactions";
+
+export const DEPLOYMENT_MANIFEST_VERSION = 1;
+export const DEFAULT_DEPLOYMENT_MANIFEST_PATH = "deployment.json";
+
+export interface RemoteDomainManifest {
+  domain: number;
+  // Remote token messenger, as a 32 byte address.
+  tokenMessenger: string;
+  // Remote USDC linked to the local USDC, as a 32 byte address.
+  token?: string;
+  // Set for EVM chains. The token messenger and USDC addresses are the last 20 bytes of the addresses above.
+  evm?: {
+    rpcUrl: string;
+    messageTransmitter: string;
+    tokenMinter: string;
+  };
+}
+
+/**
+ * Output of a deployment, written by `yarn deploy` and read by the example scripts and E2E tests.
+ * The deployer's private key is never written to the manifest, only its address.
+ */
+export interface DeploymentManifest {
+  version: number;
+  network: string;
+  deployer: string;
+  localDomain: number;
+  packages: {
+    messageTransmitter: string;
+    tokenMessengerMinter: string;
+    usdc: string;
+    stablecoin: string;
+    suiExtensions: string;
+  };
+  // Latest versions of upgraded packages, written once their State is migrated to them. Transactions call these,
+  // while types and events keep the original ids in `packages`.
+  latestPackages?: {
+    messageTransmitter?: string;
+    tokenMessengerMinter?: string;
+  };
+  objects: {
+    messageTransmitterState: string;
+    messageTransmitterUpgradeService: string;
+    tokenMessengerMinterState: string;
+    tokenMessengerMinterUpgradeService: string;
+    treasury: string;
+    mintCap: string;
+  };
+  usdcTokenId: string;
+  remoteDomains: RemoteDomainManifest[];
+}
+
+/**
+ * Returns the path of the deployment manifest, which can be overridden with DEPLOYMENT_MANIFEST_PATH.
+ */
+export function getDeploymentManifestPath(): string {
+  return process.env.DEPLOYMENT_MANIFEST_PATH ?? DEFAULT_DEPLOYMENT_MANIFEST_PATH;
+}
+
+/**
+ * Checks that a parsed manifest matches the current schema version and that all ids are valid.
+ * @throws listing every invalid field
+ */
+export function validateDeploymentManifest(value: unknown): DeploymentManifest {
+  const manifest = value as DeploymentManifest;
+  const errors: string[] = [];
+
+  if (typeof value !== "object" || value === null) {
+    throw new Error("Invalid deployment manifest: expected a JSON object.");
+  }
+  if (manifest.version !== DEPLOYMENT_MANIFEST_VERSION) {
+    errors.push(`version must be ${DEPLOYMENT_MANIFEST_VERSION}, found ${manifest.version}`);
+  }
+  if (typeof manifest.network !== "string" || manifest.network.length === 0) {
+    errors.push("network must be a non-empty string");
+  }
+  checkAddress(errors, "deployer", manifest.deployer);
+  checkDomain(errors, "localDomain", manifest.localDomain);
+  checkObjectIds(errors, "packages", manifest.packages, [
+    "messageTransmitter", "tokenMessengerMinter", "usdc", "stablecoin", "suiExtensions"
+  ]);
+  if (manifest.latestPackages !== undefined) {
+    const latestPackages = manifest.latestPackages as Record<string, unknown>;
+    checkObjectIds(errors, "latestPackages", latestPackages, ["messageTransmitter", "tokenMessengerMinter"].filter(
+      (key) => latestPackages?.[key] !== undefined
+    ));
+  }
+  checkObjectIds(errors, "objects", manifest.objects, [
+    "messageTransmitterState",
+    "messageTransmitterUpgradeService",
+    "tokenMessengerMinterState",
+    "tokenMessengerMinterUpgradeService",
+    "treasury",
+    "mintCap"
+  ]);
+  checkAddress(errors, "usdcTokenId", manifest.usdcTokenId);
+
+  if (!Array.isArray(manifest.remoteDomains)) {
+    errors.push("remoteDomains must be an array");
+  } else {
+    const seenDomains = new Set<number>();
+    manifest.remoteDomains.forEach((remoteDomain, i) => {
+      if (typeof remoteDomain !== "object" || remoteDomain === null) {
+        errors.push(`remoteDomains[${i}] must be an object, found ${JSON.stringify(remoteDomain)}`);
+        return;
+      }
+      checkDomain(errors, `remoteDomains[${i}].domain`, remoteDomain.domain);
+      checkAddress(errors, `remoteDomains[${i}].tokenMessenger`, remoteDomain.tokenMessenger);
+      if (remoteDomain.token !== undefined) {
+        checkAddress(errors, `remoteDomains[${i}].token`, remoteDomain.token);
+      }
+      const { evm } = remoteDomain;
+      if (evm !== undefined) {
+        if (typeof evm !== "object" || evm === null) {
+          errors.push(`remoteDomains[${i}].evm must be an object, found ${JSON.stringify(evm)}`);
+        } else {
+          if (typeof evm.rpcUrl !== "string" || evm.rpcUrl.length === 0) {
+            errors.push(`remoteDomains[${i}].evm.rpcUrl must be a non-empty string`);
+          }
+          for (const field of ["messageTransmitter", "tokenMinter"] as const) {
+            if (typeof evm[field] !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(evm[field])) {
+              errors.push(`remoteDomains[${i}].evm.${field} must be a 20 byte EVM address, found ${JSON.stringify(evm[field])}`);
+            }
+          }
+        }
+      }
+      if (remoteDomain.domain === manifest.localDomain) {
+        errors.push(`remoteDomains[${i}].domain must differ from the local domain`);
+      }
+      if (seenDomains.has(remoteDomain.domain)) {
+        errors.push(`remoteDomains[${i}].domain ${remoteDomain.domain} is listed more than once`);
+      }
+      seenDomains.add(remoteDomain.domain);
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid deployment manifest:\n  - ${errors.join("\n  - ")}`);
+  }
+  return manifest;
+}
+
+/**
+ * Reads and validates the deployment manifest at the given path.
+ */
+export function readDeploymentManifest(path: string = getDeploymentManifestPath()): DeploymentManifest {
+  if (!fs.existsSync(path)) {
+    throw new Error(`Deployment manifest not found at ${path}. Deploy the contracts first with \`yarn deploy\`.`);
+  }
+  return validateDeploymentManifest(JSON.parse(fs.readFileSync(path).toString()));
+}
+
+/**
+ * Validates and writes the deployment manifest to the given path.
+ */
+export function writeDeploymentManifest(manifest: DeploymentManifest, path: string = getDeploymentManifestPath()) {
+  validateDeploymentManifest(manifest);
+  fs.writeFileSync(path, `${JSON.stringify(manifest, null, 2)}\n`);
+}
+
+/**
+ * Checks that every package and object in the manifest exists on the network the client is connected to.
+ * The mint cap is skipped, as it is wrapped in the token_messenger_minter state once added to it.
+ * @throws listing every missing object
+ */
+export async function verifyDeploymentManifestOnChain(client: SuiClient, manifest: DeploymentManifest) {
+  const entries = [
+    ...Object.entries(manifest.packages).map(([name, id]) => [`packages.${name}`, id]),
+    ...Object.entries(manifest.latestPackages ?? {}).map(([name, id]) => [`latestPackages.${name}`, id]),
+    ...Object.entries(manifest.objects).filter(([name]) => name !== "mintCap").map(([name, id]) => [`objects.${name}`, id])
+  ];
+  const responses = await client.multiGetObjects({ ids: entries.map(([, id]) => id) });
+
+  const missing = entries.filter((_, i) => !responses[i].data).map(([name, id]) => `${name} (${id})`);
+  if (missing.length > 0) {
+    throw new Error(
+      `Deployment manifest for ${manifest.network} does not match the chain, missing objects:\n  - ${missing.join("\n  - ")}`
+    );
+  }
+}
+
+/**
+ * Reads the deployment manifest, optionally checking that all of its objects exist on chain.
+ */
+export async function loadDeploymentManifest(options: { path?: string; client?: SuiClient } = {}): Promise<DeploymentManifest> {
+  const manifest = readDeploymentManifest(options.path);
+  if (options.client) {
+    await verifyDeploymentManifestOnChain(options.client, manifest);
+  }
+  return manifest;
+}
+
+/**
+ * Returns the ids needed to build CCTP transactions.
+ */
+export function toCctpDeployment(manifest: DeploymentManifest): CctpDeployment {
+  return {
+    messageTransmitterId: manifest.packages.messageTransmitter,
+    messageTransmitterStateId: manifest.objects.messageTransmitterState,
+    tokenMessengerMinterId: manifest.packages.tokenMessengerMinter,
+    tokenMessengerMinterStateId: manifest.objects.tokenMessengerMinterState,
+    treasuryId: manifest.objects.treasury,
+    messageTransmitterLatestId: manifest.latestPackages?.messageTransmitter,
+    tokenMessengerMinterLatestId: manifest.latestPackages?.tokenMessengerMinter
+  };
+}
+
+/**
+ * Returns the EVM address held in the last 20 bytes of a 32 byte address.
+ */
+export function toEvmAddress(address: string): string {
+  return `0x${normalizeSuiAddress(address).slice(-40)}`;
+}
+
+/**
+ * RPC URL and contract addresses of a remote EVM chain, as 20 byte EVM addresses.
+ */
+export interface EvmChain {
+  domain: number;
+  rpcUrl: string;
+  messageTransmitter: string;
+  tokenMessenger: string;
+  tokenMinter: string;
+  usdc: string;
+}
+
+/**
+ * Returns the EVM chain of a remote domain of the manifest, or of its first EVM remote domain if none is given.
+ * @throws if the domain is not an EVM chain of the manifest, or has no remote USDC linked
+ */
+export function getEvmChain(manifest: DeploymentManifest, domain?: number): EvmChain {
+  const remoteDomain = manifest.remoteDomains.find((remoteDomain) =>
+    remoteDomain.evm && (domain === undefined || remoteDomain.domain === domain)
+  );
+  if (!remoteDomain?.evm) {
+    throw new Error(domain === undefined
+      ? `${manifest.network} has no EVM remote domain.`
+      : `Domain ${domain} is not an EVM remote domain of ${manifest.network}.`);
+  }
+  if (!remoteDomain.token) {
+    throw new Error(`Domain ${remoteDomain.domain} has no remote USDC linked in the manifest.`);
+  }
+  return {
+    domain: remoteDomain.domain,
+    rpcUrl: remoteDomain.evm.rpcUrl,
+    messageTransmitter: remoteDomain.evm.messageTransmitter,
+    tokenMessenger: toEvmAddress(remoteDomain.tokenMessenger),
+    tokenMinter: remoteDomain.evm.tokenMinter,
+    usdc: toEvmAddress(remoteDomain.token)
+  };
+}
+
+export function getUsdcCoinType(manifest: DeploymentManifest): string {
+  return `${manifest.packages.usdc}::usdc::USDC`;
+}
+
+/**
+ * Returns the deployer signer from DEPLOYER_SIGNER, e.g. "keystore:<address>" as saved by the deploy script, or
+ * DEPLOYER_PRIVATE_KEY.
+ * @throws if neither is set, or the signer is not the manifest's deployer
+ */
+export function getDeployerSigner(manifest: DeploymentManifest): Signer {
+  const signer = loadSignerFromEnv("DEPLOYER_SIGNER", "DEPLOYER_PRIVATE_KEY");
+  if (!signer) {
+    throw new Error("DEPLOYER_SIGNER or DEPLOYER_PRIVATE_KEY must be set to sign transactions as the deployer.");
+  }
+  if (signer.toSuiAddress() !== normalizeSuiAddress(manifest.deployer)) {
+    throw new Error(
+      `The deployer signer is ${signer.toSuiAddress()}, but ${manifest.network} was deployed by ${manifest.deployer}.`
+    );
+  }
+  return signer;
+}
+
+function checkAddress(errors: string[], name: string, value: unknown) {
+  if (typeof value !== "string" || !isValidSuiAddress(value)) {
+    errors.push(`${name} must be a 32 byte hex address, found ${JSON.stringify(value)}`);
+  }
+}
+
+function checkDomain(errors: string[], name: string, value: unknown) {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > 0xffffffff) {
+    errors.push(`${name} must be a u32, found ${JSON.stringify(value)}`);
+  }
+}
+
+function checkObjectIds(errors: string[], name: string, value: unknown, keys: string[]) {
+  if (typeof value !== "object" || value === null) {
+    errors.push(`${name} must be an object`);
+    return;
+  }
+  for (const key of keys) {
+    const id = (value as Record<string, unknown>)[key];
+    if (typeof id !== "string" || !isValidSuiObjectId(id)) {
+      errors.push(`${name}.${key} must be a Sui object id, found ${JSON.stringify(id)}`);
+    }
+  }
+}
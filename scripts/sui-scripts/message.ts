@@ -0,0 +1,203 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { keccak256 } from "ethereumjs-util";
+
+// Byte layout of message_transmitter::message
+const VERSION_INDEX = 0;
+const SOURCE_DOMAIN_INDEX = 4;
+const DESTINATION_DOMAIN_INDEX = 8;
+const NONCE_INDEX = 12;
+const SENDER_INDEX = 20;
+const RECIPIENT_INDEX = 52;
+const DESTINATION_CALLER_INDEX = 84;
+const MESSAGE_BODY_INDEX = 116;
+
+// Byte layout of token_messenger_minter::burn_message
+const BURN_MESSAGE_VERSION_INDEX = 0;
+const BURN_TOKEN_INDEX = 4;
+const MINT_RECIPIENT_INDEX = 36;
+const AMOUNT_INDEX = 68;
+const MESSAGE_SENDER_INDEX = 100;
+const BURN_MESSAGE_LEN = 132;
+
+const ADDRESS_LEN = 32;
+const MAX_U32 = 0xffffffff;
+const MAX_U64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+const MAX_U256 = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+export interface Message {
+  version: number;
+  sourceDomain: number;
+  destinationDomain: number;
+  nonce: bigint;
+  sender: string;
+  recipient: string;
+  destinationCaller: string;
+  messageBody: Buffer;
+}
+
+export interface BurnMessage {
+  version: number;
+  burnToken: string;
+  mintRecipient: string;
+  amount: bigint;
+  messageSender: string;
+}
+
+/**
+ * Converts a raw message, given either as bytes or as a (optionally 0x-prefixed) hex string, into a Buffer.
+ */
+export function toMessageBytes(message: Uint8Array | string): Buffer {
+  if (typeof message === "string") {
+    return Buffer.from(message.replace(/^0x/, ""), "hex");
+  }
+  return Buffer.from(message);
+}
+
+/**
+ * Pads an address to 32 bytes and returns it as a lowercase 0x-prefixed hex string.
+ * EVM addresses are left padded with zeroes, matching how they are represented in CCTP messages.
+ */
+export function normalizeAddress(address: string): string {
+  return normalizeSuiAddress(address);
+}
+
+/**
+ * Serializes a message the same way as message_transmitter::message::serialize.
+ */
+export function encodeMessage(message: Message): Buffer {
+  return Buffer.concat([
+    encodeU32(message.version),
+    encodeU32(message.sourceDomain),
+    encodeU32(message.destinationDomain),
+    encodeU64(message.nonce),
+    encodeAddress(message.sender),
+    encodeAddress(message.recipient),
+    encodeAddress(message.destinationCaller),
+    Buffer.from(message.messageBody),
+  ]);
+}
+
+/**
+ * Deserializes a message the same way as message_transmitter::message::from_bytes.
+ */
+export function decodeMessage(rawMessage: Uint8Array | string): Message {
+  const bytes = toMessageBytes(rawMessage);
+  if (bytes.length < MESSAGE_BODY_INDEX) {
+    throw new Error(`Invalid message length ${bytes.length}, expected at least ${MESSAGE_BODY_INDEX} bytes.`);
+  }
+
+  return {
+    version: bytes.readUInt32BE(VERSION_INDEX),
+    sourceDomain: bytes.readUInt32BE(SOURCE_DOMAIN_INDEX),
+    destinationDomain: bytes.readUInt32BE(DESTINATION_DOMAIN_INDEX),
+    nonce: bytes.readBigUInt64BE(NONCE_INDEX),
+    sender: decodeAddress(bytes, SENDER_INDEX),
+    recipient: decodeAddress(bytes, RECIPIENT_INDEX),
+    destinationCaller: decodeAddress(bytes, DESTINATION_CALLER_INDEX),
+    messageBody: bytes.subarray(MESSAGE_BODY_INDEX),
+  };
+}
+
+/**
+ * Serializes a burn message the same way as token_messenger_minter::burn_message::serialize.
+ */
+export function encodeBurnMessage(burnMessage: BurnMessage): Buffer {
+  return Buffer.concat([
+    encodeU32(burnMessage.version),
+    encodeAddress(burnMessage.burnToken),
+    encodeAddress(burnMessage.mintRecipient),
+    encodeU256(burnMessage.amount),
+    encodeAddress(burnMessage.messageSender),
+  ]);
+}
+
+/**
+ * Deserializes a burn message the same way as token_messenger_minter::burn_message::from_bytes.
+ */
+export function decodeBurnMessage(rawBurnMessage: Uint8Array | string): BurnMessage {
+  const bytes = toMessageBytes(rawBurnMessage);
+  if (bytes.length !== BURN_MESSAGE_LEN) {
+    throw new Error(`Invalid burn message length ${bytes.length}, expected ${BURN_MESSAGE_LEN} bytes.`);
+  }
+
+  return {
+    version: bytes.readUInt32BE(BURN_MESSAGE_VERSION_INDEX),
+    burnToken: decodeAddress(bytes, BURN_TOKEN_INDEX),
+    mintRecipient: decodeAddress(bytes, MINT_RECIPIENT_INDEX),
+    amount: BigInt(`0x${bytes.subarray(AMOUNT_INDEX, AMOUNT_INDEX + ADDRESS_LEN).toString("hex")}`),
+    messageSender: decodeAddress(bytes, MESSAGE_SENDER_INDEX),
+  };
+}
+
+/**
+ * Decodes both the outer message and its burn message body.
+ */
+export function decodeBurnMessageFromMessage(rawMessage: Uint8Array | string): {
+  message: Message;
+  burnMessage: BurnMessage;
+} {
+  const message = decodeMessage(rawMessage);
+  return { message, burnMessage: decodeBurnMessage(message.messageBody) };
+}
+
+/**
+ * Returns the 0x-prefixed keccak256 hash of a raw message. This is the digest attesters sign.
+ */
+export function hashMessage(rawMessage: Uint8Array | string): string {
+  return `0x${keccak256(toMessageBytes(rawMessage)).toString("hex")}`;
+}
+
+function encodeU32(value: number): Buffer {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_U32) {
+    throw new Error(`Value ${value} does not fit in a u32.`);
+  }
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+}
+
+function encodeU64(value: bigint): Buffer {
+  if (value < BigInt(0) || value > MAX_U64) {
+    throw new Error(`Value ${value} does not fit in a u64.`);
+  }
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(value);
+  return buffer;
+}
+
+function encodeU256(value: bigint): Buffer {
+  if (value < BigInt(0) || value > MAX_U256) {
+    throw new Error(`Value ${value} does not fit in a u256.`);
+  }
+  return Buffer.from(value.toString(16).padStart(ADDRESS_LEN * 2, "0"), "hex");
+}
+
+function encodeAddress(address: string): Buffer {
+  const hex = address.replace(/^0x/, "");
+  if (!/^[0-9a-fA-F]*$/.test(hex) || hex.length > ADDRESS_LEN * 2) {
+    throw new Error(`Invalid address ${address}.`);
+  }
+  return Buffer.from(normalizeAddress(hex).slice(2), "hex");
+}
+
+function decodeAddress(bytes: Buffer, index: number): string {
+  return `0x${bytes.subarray(index, index + ADDRESS_LEN).toString("hex")}`;
+}
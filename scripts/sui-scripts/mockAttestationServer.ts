@@ -0,0 +1,89 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import http from "http";
+import { AddressInfo } from "net";
+
+import { AttestationProvider, createLocalAttestationProvider } from "./attestation";
+import { hashMessage, toMessageBytes } from "./message";
+
+export interface MockAttestationServer {
+  // Base URL to pass to createHttpAttestationProvider.
+  url: string;
+  // Registers a message, which becomes available after the configured number of pending polls.
+  submitMessage(message: Uint8Array | string): Promise<string>;
+  // Number of requests served per message hash.
+  requestCount(messageHash: string): number;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts an in-process HTTP server mimicking the attestation API, signing messages with the
+ * given provider. Unknown message hashes return a 404, and registered messages are reported as
+ * pending for `pendingPolls` requests before their attestation is returned.
+ */
+export async function startMockAttestationServer(options: {
+  signer?: AttestationProvider;
+  pendingPolls?: number;
+  port?: number;
+} = {}): Promise<MockAttestationServer> {
+  const signer = options.signer ?? createLocalAttestationProvider();
+  const pendingPolls = options.pendingPolls ?? 0;
+  const attestations = new Map<string, string>();
+  const requestCounts = new Map<string, number>();
+
+  const server = http.createServer((request, response) => {
+    const match = request.url?.match(/^\/v1\/attestations\/(0x[0-9a-fA-F]{64})$/);
+    if (request.method !== "GET" || !match) {
+      response.writeHead(400, { "Content-Type": "application/json" });
+      response.end(JSON.stringify({ error: "Invalid request" }));
+      return;
+    }
+
+    const messageHash = match[1].toLowerCase();
+    const count = (requestCounts.get(messageHash) ?? 0) + 1;
+    requestCounts.set(messageHash, count);
+
+    const attestation = attestations.get(messageHash);
+    if (!attestation) {
+      response.writeHead(404, { "Content-Type": "application/json" });
+      response.end(JSON.stringify({ error: "Message hash not found" }));
+      return;
+    }
+
+    const body = count > pendingPolls
+      ? { attestation, status: "complete" }
+      : { attestation: "PENDING", status: "pending_confirmations" };
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    submitMessage: async (message) => {
+      const messageHash = hashMessage(message);
+      attestations.set(messageHash, await signer.getAttestation(toMessageBytes(message)));
+      return messageHash;
+    },
+    requestCount: (messageHash) => requestCounts.get(messageHash.toLowerCase()) ?? 0,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => err ? reject(err) : resolve()))
+  };
+}
@@ -0,0 +1,354 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { bcs, BcsType } from "@mysten/sui/bcs";
+import { SuiClient, SuiMoveNormalizedType } from "@mysten/sui/client";
+import { Signer } from "@mysten/sui/cryptography";
+import { MultiSigPublicKey } from "@mysten/sui/multisig";
+import { Transaction, TransactionDataBuilder } from "@mysten/sui/transactions";
+import { fromB64, normalizeSuiAddress, toB64 } from "@mysten/sui/utils";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import fs from "fs";
+
+import { simulateTransaction, TransactionSimulation } from "./helpers";
+import { CctpDeployment } from "./transactions";
+
+type TransactionData = ReturnType<Transaction["getData"]>;
+type TransactionCommand = TransactionData["commands"][number];
+type TransactionArgument = NonNullable<TransactionCommand["MoveCall"]>["arguments"][number];
+
+/**
+ * Transaction built for offline signing, as written to an unsigned transaction file.
+ */
+export interface UnsignedTransaction {
+  // What the transaction does, e.g. "message_transmitter::pause".
+  description: string;
+  sender: string;
+  digest: string;
+  // Base64 BCS TransactionData, the bytes signed by the sender.
+  bytes: string;
+  // Parameter types of each Move function called, used to decode the pure arguments of the calls. They are not
+  // covered by the digest, so the values decoded with them are shown as unverified next to the signed bytes.
+  parameterTypes: Record<string, string[]>;
+}
+
+/**
+ * Signature of an unsigned transaction by one key, as written by the offline signer.
+ */
+export interface TransactionSignature {
+  digest: string;
+  // Address of the key, a member of the sender multisig or the sender itself.
+  signer: string;
+  signature: string;
+}
+
+/**
+ * Builds a transaction for offline signing: simulates it from the sender to set its gas budget, then resolves its
+ * inputs and gas payment to the current object versions. The transaction must be signed and submitted before the
+ * sender's gas coins or owned inputs are used by another transaction.
+ * @param args.gasSafetyMarginPercent margin added to the estimated gas and overhead to get the budget, defaults to 20%
+ * @param args.deployment CCTP deployment whose Move aborts are decoded into CctpErrors
+ * @throws if the simulation fails
+ */
+export async function buildUnsignedTransaction(args: {
+  client: SuiClient;
+  sender: string;
+  transaction: Transaction;
+  description: string;
+  gasSafetyMarginPercent?: number;
+  deployment?: CctpDeployment;
+}): Promise<{ unsigned: UnsignedTransaction; simulation: TransactionSimulation }> {
+  const transaction = Transaction.from(args.transaction);
+  transaction.setSender(args.sender);
+  const simulation = await simulateTransaction({
+    client: args.client,
+    sender: args.sender,
+    transaction,
+    gasSafetyMarginPercent: args.gasSafetyMarginPercent,
+    deployment: args.deployment
+  });
+  transaction.setGasBudget(simulation.gasBudget);
+  const bytes = await transaction.build({ client: args.client });
+
+  const parameterTypes: Record<string, string[]> = {};
+  for (const command of transaction.getData().commands) {
+    if (command.MoveCall) {
+      const { package: packageId, module, function: functionName } = command.MoveCall;
+      const moveFunction = await args.client.getNormalizedMoveFunction({ package: packageId, module, function: functionName });
+      parameterTypes[`${packageId}::${module}::${functionName}`] = moveFunction.parameters.map(formatMoveType);
+    }
+  }
+
+  return {
+    unsigned: {
+      description: args.description,
+      sender: normalizeSuiAddress(args.sender),
+      digest: TransactionDataBuilder.getDigestFromBytes(bytes),
+      bytes: toB64(bytes),
+      parameterTypes
+    },
+    simulation
+  };
+}
+
+/**
+ * Describes the calls and arguments of an unsigned transaction, decoded from its bytes. Pure arguments are shown as
+ * their signed bytes, followed by their value decoded with the parameter types of the file, which is marked
+ * unverified as the types aren't covered by the digest.
+ * @throws if the digest or sender of the file doesn't match its bytes
+ */
+export function summarizeUnsignedTransaction(unsigned: UnsignedTransaction): string {
+  const data = checkUnsignedTransaction(unsigned);
+  const { gasData } = data;
+  return [
+    `${unsigned.description}, transaction ${unsigned.digest}`,
+    `  sender: ${data.sender}`,
+    `  gas: budget ${gasData.budget} MIST at price ${gasData.price}, paid with ` +
+      (gasData.payment ?? []).map((coin) => `${coin.objectId} v${coin.version}`).join(", "),
+    ...data.commands.map((command, i) => `  ${i}. ${formatCommand(data, command, unsigned.parameterTypes)}`),
+    "  Pure arguments are the signed bytes; values marked unverified are decoded with the parameter types of the file."
+  ].join("\n");
+}
+
+/**
+ * Signs an unsigned transaction, after checking that its digest matches its bytes.
+ */
+export async function signUnsignedTransaction(unsigned: UnsignedTransaction, signer: Signer): Promise<TransactionSignature> {
+  checkUnsignedTransaction(unsigned);
+  const { signature } = await signer.signTransaction(fromB64(unsigned.bytes));
+  return { digest: unsigned.digest, signer: signer.toSuiAddress(), signature };
+}
+
+/**
+ * Checks the signatures of an unsigned transaction and combines them into the sender's signature.
+ * @param multisigPublicKey public key of the sender if it is a multisig account, whose members signed
+ * @throws if a signature is invalid or not from the expected keys, or the signers' weights don't reach the threshold
+ */
+export async function combineTransactionSignatures(
+  unsigned: UnsignedTransaction,
+  signatures: TransactionSignature[],
+  multisigPublicKey?: MultiSigPublicKey
+): Promise<string> {
+  checkUnsignedTransaction(unsigned);
+  const bytes = fromB64(unsigned.bytes);
+  for (const signature of signatures) {
+    if (signature.digest !== unsigned.digest) {
+      throw new Error(`The signature of ${signature.signer} is for transaction ${signature.digest}, not ${unsigned.digest}.`);
+    }
+    const publicKey = await verifyTransactionSignature(bytes, signature.signature).catch(() => null);
+    if (!publicKey || publicKey.toSuiAddress() !== normalizeSuiAddress(signature.signer)) {
+      throw new Error(`The signature of ${signature.signer} is not valid for transaction ${unsigned.digest}.`);
+    }
+  }
+
+  if (!multisigPublicKey) {
+    if (signatures.length !== 1 || normalizeSuiAddress(signatures[0].signer) !== unsigned.sender) {
+      throw new Error(`Expected a single signature from the sender ${unsigned.sender}, pass its multisig config if it is a multisig.`);
+    }
+    return signatures[0].signature;
+  }
+
+  if (multisigPublicKey.toSuiAddress() !== unsigned.sender) {
+    throw new Error(`The multisig config is for ${multisigPublicKey.toSuiAddress()}, but the sender is ${unsigned.sender}.`);
+  }
+  const members = multisigPublicKey.getPublicKeys();
+  let weight = 0;
+  for (const signature of signatures) {
+    const member = members.find(({ publicKey }) => publicKey.toSuiAddress() === normalizeSuiAddress(signature.signer));
+    if (!member) {
+      throw new Error(`${signature.signer} is not a member of the multisig ${unsigned.sender}.`);
+    }
+    weight += member.weight;
+  }
+  if (weight < multisigPublicKey.getThreshold()) {
+    throw new Error(`The signatures have a combined weight of ${weight}, below the multisig threshold of ${multisigPublicKey.getThreshold()}.`);
+  }
+  return multisigPublicKey.combinePartialSignatures(signatures.map(({ signature }) => signature));
+}
+
+export function readUnsignedTransaction(filePath: string): UnsignedTransaction {
+  const unsigned = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  if (typeof unsigned.bytes !== "string" || typeof unsigned.digest !== "string" || typeof unsigned.sender !== "string") {
+    throw new Error(`${filePath} is not an unsigned transaction file.`);
+  }
+  return { description: "", parameterTypes: {}, ...unsigned };
+}
+
+export function readTransactionSignature(filePath: string): TransactionSignature {
+  const signature = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  if (typeof signature.digest !== "string" || typeof signature.signer !== "string" || typeof signature.signature !== "string") {
+    throw new Error(`${filePath} is not a transaction signature file.`);
+  }
+  return signature;
+}
+
+// Parses the bytes of an unsigned transaction, checking them against the digest and sender recorded next to them.
+function checkUnsignedTransaction(unsigned: UnsignedTransaction): TransactionData {
+  const bytes = fromB64(unsigned.bytes);
+  if (TransactionDataBuilder.getDigestFromBytes(bytes) !== unsigned.digest) {
+    throw new Error(`The transaction bytes don't match the digest ${unsigned.digest}.`);
+  }
+  const data = Transaction.from(bytes).getData();
+  if (!data.sender || normalizeSuiAddress(data.sender) !== normalizeSuiAddress(unsigned.sender)) {
+    throw new Error(`The transaction is sent by ${data.sender}, not ${unsigned.sender}.`);
+  }
+  return data;
+}
+
+function formatCommand(data: TransactionData, command: TransactionCommand, parameterTypes: Record<string, string[]>): string {
+  // Types of the arguments of Move calls come from the file, those of other commands are fixed by the protocol.
+  const formatArgument = (argument: TransactionArgument, type?: string, typeVerified = false) =>
+    formatTransactionArgument(data, argument, type, typeVerified);
+  if (command.MoveCall) {
+    const { package: packageId, module, function: functionName, typeArguments, arguments: args } = command.MoveCall;
+    const types = parameterTypes[`${packageId}::${module}::${functionName}`] ?? [];
+    const typeArgumentList = typeArguments.length > 0 ? `<${typeArguments.join(", ")}>` : "";
+    return `${packageId}::${module}::${functionName}${typeArgumentList}(${args.map((arg, i) => formatArgument(arg, types[i])).join(", ")})`;
+  }
+  if (command.TransferObjects) {
+    const { objects, address } = command.TransferObjects;
+    return `transfer ${objects.map((object) => formatArgument(object)).join(", ")} to ${formatArgument(address, "address", true)}`;
+  }
+  if (command.SplitCoins) {
+    const { coin, amounts } = command.SplitCoins;
+    return `split ${formatArgument(coin)} into ${amounts.map((amount) => formatArgument(amount, "u64", true)).join(", ")}`;
+  }
+  if (command.MergeCoins) {
+    const { destination, sources } = command.MergeCoins;
+    return `merge ${sources.map((source) => formatArgument(source)).join(", ")} into ${formatArgument(destination)}`;
+  }
+  if (command.MakeMoveVec) {
+    return `vector[${command.MakeMoveVec.elements.map((element) => formatArgument(element)).join(", ")}]`;
+  }
+  if (command.Upgrade) {
+    const { modules, dependencies, package: packageId, ticket } = command.Upgrade;
+    return `upgrade ${packageId} with ${modules.length} module(s) and dependencies ${dependencies.join(", ")}, ` +
+      `authorized by ${formatArgument(ticket)}`;
+  }
+  if (command.Publish) {
+    return `publish ${command.Publish.modules.length} module(s) with dependencies ${command.Publish.dependencies.join(", ")}`;
+  }
+  return JSON.stringify(command);
+}
+
+function formatTransactionArgument(
+  data: TransactionData,
+  argument: TransactionArgument,
+  type?: string,
+  typeVerified = false
+): string {
+  switch (argument.$kind) {
+    case "GasCoin":
+      return "gas coin";
+    case "Result":
+      return `result ${argument.Result}`;
+    case "NestedResult":
+      return `result ${argument.NestedResult[0]}.${argument.NestedResult[1]}`;
+  }
+  const input = data.inputs[argument.Input];
+  if (input.Object?.SharedObject) {
+    const { objectId, mutable } = input.Object.SharedObject;
+    return `${mutable ? "mutable " : ""}shared object ${objectId}`;
+  }
+  if (input.Object?.ImmOrOwnedObject) {
+    return `object ${input.Object.ImmOrOwnedObject.objectId} v${input.Object.ImmOrOwnedObject.version}`;
+  }
+  if (input.Object?.Receiving) {
+    return `receiving object ${input.Object.Receiving.objectId}`;
+  }
+  if (input.Pure) {
+    return formatPureValue(fromB64(input.Pure.bytes), type, typeVerified);
+  }
+  return JSON.stringify(input);
+}
+
+// Shows the bytes of a pure argument, followed by its value decoded with its Move type if it is known and supported.
+// Types read from the file aren't signed, so the values decoded with them are marked unverified.
+function formatPureValue(bytes: Uint8Array, type?: string, typeVerified = false): string {
+  const hex = `0x${Buffer.from(bytes).toString("hex")}`;
+  if (!type) {
+    return hex;
+  }
+  const label = typeVerified ? type : `unverified ${type}`;
+  const bcsType = getPureBcsType(type);
+  if (!bcsType) {
+    return `${hex} (${label})`;
+  }
+  // Parsing ignores trailing bytes, so the value must also encode back to the whole argument.
+  let value: unknown;
+  try {
+    value = bcsType.parse(bytes);
+  } catch {
+    value = undefined;
+  }
+  if (value === undefined || Buffer.from(bcsType.serialize(value).toBytes()).toString("hex") !== hex.slice(2)) {
+    return `${hex} (not a valid ${type})`;
+  }
+  if (type === "vector<u8>") {
+    return `${hex} (${label}: 0x${Buffer.from(value as number[]).toString("hex")})`;
+  }
+  return `${hex} (${label}: ${JSON.stringify(value)})`;
+}
+
+function getPureBcsType(type: string): BcsType<unknown> | null {
+  const primitives: Record<string, BcsType<any>> = {
+    address: bcs.Address,
+    bool: bcs.Bool,
+    u8: bcs.U8,
+    u16: bcs.U16,
+    u32: bcs.U32,
+    u64: bcs.U64,
+    u128: bcs.U128,
+    u256: bcs.U256,
+    [`${normalizeSuiAddress("0x1")}::string::String`]: bcs.String,
+    [`${normalizeSuiAddress("0x1")}::ascii::String`]: bcs.String
+  };
+  if (primitives[type]) {
+    return primitives[type];
+  }
+  const vector = type.match(/^vector<(.+)>$/);
+  const option = type.match(new RegExp(`^${normalizeSuiAddress("0x1")}::option::Option<(.+)>$`));
+  const element = vector ?? option;
+  const elementType = element && getPureBcsType(element[1]);
+  if (!elementType) {
+    return null;
+  }
+  return (vector ? bcs.vector(elementType) : bcs.option(elementType)) as BcsType<unknown>;
+}
+
+// Formats a normalized Move type the way it is written in Move, with full addresses.
+function formatMoveType(type: SuiMoveNormalizedType): string {
+  if (typeof type === "string") {
+    return type.toLowerCase();
+  }
+  if ("TypeParameter" in type) {
+    return `T${type.TypeParameter}`;
+  }
+  if ("Reference" in type) {
+    return `&${formatMoveType(type.Reference)}`;
+  }
+  if ("MutableReference" in type) {
+    return `&mut ${formatMoveType(type.MutableReference)}`;
+  }
+  if ("Vector" in type) {
+    return `vector<${formatMoveType(type.Vector)}>`;
+  }
+  const { address, module, name, typeArguments } = type.Struct;
+  const typeArgumentList = typeArguments.length > 0 ? `<${typeArguments.map(formatMoveType).join(", ")}>` : "";
+  return `${normalizeSuiAddress(address)}::${module}::${name}${typeArgumentList}`;
+}
@@ -17,48 +17,53 @@
  */
 
 import { SuiClient } from "@mysten/sui/client";
-import { Transaction } from "@mysten/sui/transactions";
 
+import { InvalidArgumentError, program } from "commander";
 import dotenv from "dotenv";
 import fs from "fs";
 import { EventLog, Web3 } from "web3";
 
-import { attestToMessage, executeTransactionHelper, fetchUsdcBalance, generateEvmBurn, getEd25519KeypairFromPrivateKey } from "../sui-scripts/helpers";
+import { executeTransactionHelper, fetchUsdcBalance, generateEvmBurn } from "../sui-scripts/helpers";
+import { createAttestationProviderFromEnv, verifyAttestationOnChain } from "../sui-scripts/attestation";
+import { isSameCoinType } from "../sui-scripts/coins";
+import { getDeployerSigner, getEvmChain, getUsdcCoinType, loadDeploymentManifest, toCctpDeployment } from "../sui-scripts/manifest";
+import { buildReceiveMessageTransaction } from "../sui-scripts/transactions";
+import { loadSignerFromEnv } from "../sui-scripts/signers";
 
 dotenv.config();
-dotenv.config({ path: 'test_config.env'});
 
 const USDC_AMOUNT = 1;
-const GAS_BUDGET = 1_000_000_000;
 const evmUserAddress = "0xfabb0ac9d68b0b445fb7357272ff202c5651694a";
 
-// Ids taken from test_config.env from local deployment
-const messageTransmitterId = process.env.SUI_MESSAGE_TRANSMITTER_ID as string;
-const messageTransmitterStateId = process.env.SUI_MESSAGE_TRANSMITTER_STATE_ID as string;
-const tokenMessengerMinterId = process.env.SUI_TOKEN_MESSENGER_MINTER_ID as string;
-const tokenMessengerMinterStateId = process.env.SUI_TOKEN_MESSENGER_MINTER_STATE_ID as string;
-const usdcId = process.env.SUI_USDC_ID as string;
-const treasuryId = process.env.SUI_TREASURY_ID as string;
-const suiPrivateKey = process.env.SUI_DEPLOYER_KEY as string;
-const signer = getEd25519KeypairFromPrivateKey(suiPrivateKey);
-
 const FULLNODE_PORT = process.env.FULLNODE_PORT ?? "7000";
 const SUI_RPC_URL = process.env.SUI_RPC_URL ?? `http://localhost:${FULLNODE_PORT}`;
-const EVM_RPC_URL = process.env.EVM_RPC_URL ?? "http://localhost:8500";
 
 /**
  * This script shows an example of transferring USDC from EVM to Sui using the receive_message call on localnet.
  * The same example can be followed on testnet/mainnet with appropriate addresses, RPC URLs, and calling out 
  * to Circle's attestation service for the message attestation.
  * 
- * Local addresses are fetched from env vars from .env and test_config.env files after contract deployment using `yarn deploy-local`.
+ * Local addresses, including those of the source EVM chain given with --domain, are read from the deployment manifest
+ * written by `yarn deploy-local`, and the signer from SUI_SIGNER, or DEPLOYER_SIGNER or DEPLOYER_PRIVATE_KEY in the .env
+ * file. With --dry-run, receive_message is only simulated on Sui; the EVM burn producing the message is still sent.
  */
 const main = async () => {
+  program
+    .option("--domain <domain>", "source EVM domain, defaults to the first EVM chain of the manifest", parseDomain)
+    .option("--dry-run", "simulate the Sui receive_message PTB without sending it, and stop")
+    .parse();
+  const options = program.opts();
+
+  // Sui setup
+  const client = new SuiClient({ url: SUI_RPC_URL});
+  const manifest = await loadDeploymentManifest({ client });
+  const deployment = toCctpDeployment(manifest);
+  const usdcCoinType = getUsdcCoinType(manifest);
+  const signer = loadSignerFromEnv("SUI_SIGNER") ?? getDeployerSigner(manifest);
+
   // EVM setup
-  const web3 = new Web3(new Web3.providers.HttpProvider(EVM_RPC_URL));
-  const evmMessageTransmitterAddress = `${process.env.EVM_MESSAGE_TRANSMITTER_ADDRESS}`;
-  const evmTokenMessengerAddress = `${process.env.EVM_TOKEN_MESSENGER_ADDRESS}`;
-  const evmUsdcAddress = `${process.env.EVM_USDC_ADDRESS}`;
+  const evmChain = getEvmChain(manifest, options.domain);
+  const web3 = new Web3(new Web3.providers.HttpProvider(evmChain.rpcUrl));
   const messageTransmitterInterface = JSON.parse(
     fs.readFileSync("../evm-cctp-contracts/cctp-interfaces/MessageTransmitter.sol/MessageTransmitter.json").toString()
   );
@@ -70,20 +75,17 @@ const main = async () => {
   );
   const messageTransmitterContract = new web3.eth.Contract(
     messageTransmitterInterface.abi,
-    evmMessageTransmitterAddress
+    evmChain.messageTransmitter
   );
   const tokenMessengerContract = new web3.eth.Contract(
     tokenMessengerInterface.abi,
-    evmTokenMessengerAddress
+    evmChain.tokenMessenger
   );
   const usdcContract = new web3.eth.Contract(
     usdcInterface.abi,
-    evmUsdcAddress
+    evmChain.usdc
   )
 
-  // Sui setup 
-  const client = new SuiClient({ url: SUI_RPC_URL});
-
   // 1. Start the transfer with depositForBurn on the EVM chain.
   console.log("Broadcasting evm depositForBurn tx...");
   const evmBurnTx = await generateEvmBurn(
@@ -91,11 +93,11 @@ const main = async () => {
     messageTransmitterContract,
     tokenMessengerContract,
     usdcContract,
-    evmTokenMessengerAddress,
-    evmUsdcAddress,
+    evmChain.tokenMessenger,
+    evmChain.usdc,
     evmUserAddress,
     signer.toSuiAddress(),
-    8,
+    manifest.localDomain,
     USDC_AMOUNT
   )
   console.log(`depositForBurn transaction successful: ${evmBurnTx.tx.transactionHash} \n`);
@@ -106,91 +108,64 @@ const main = async () => {
   });
   const evmBalanceChangeAddress = (logs[0] as EventLog).returnValues.depositor as string;
   const evmBalanceAmount = (logs[0] as EventLog).returnValues.amount;
-  const evmUsdcBalance = await fetchUsdcBalance(web3, evmBalanceChangeAddress);
+  const evmUsdcBalance = await fetchUsdcBalance(web3, evmChain.usdc, evmBalanceChangeAddress);
   const messageHash = web3.utils.keccak256(evmBurnTx.message);
 
   console.log(`Message hash: ${messageHash}`);
 
   // 2. Attest to the message
-  // On testnet/mainnet this would fetch the message from the attestation service.
-  // Since this is on localnet, sign it locally with a dummy attester address.
-  const attestation = attestToMessage(web3, evmBurnTx.message);
-  console.log(`Signed attestation locally: ${attestation} \n`);
+  // If ATTESTATION_API_URL is set, this polls the attestation service for the message.
+  // Otherwise, since this is on localnet, sign it locally with a dummy attester address.
+  const attestation = await createAttestationProviderFromEnv().getAttestation(evmBurnTx.message);
+  console.log(`Obtained attestation: ${attestation} \n`);
+
+  // Check the attestation against the enabled attesters and threshold on Sui before submitting,
+  // so that a bad attestation fails with a descriptive error instead of an on-chain abort.
+  const signers = await verifyAttestationOnChain({
+    client,
+    messageTransmitterStateId: manifest.objects.messageTransmitterState,
+    message: evmBurnTx.message,
+    attestation
+  });
+  console.log(`Attestation signed by enabled attesters: ${signers.join(", ")} \n`);
 
   // 3. Receive the message on the destination chain
   // Create receiveMessage PTB
-  const receiveMessageTx = new Transaction();
-
-  // Add receive_message call
-  const [receipt] = receiveMessageTx.moveCall({
-    target: `${messageTransmitterId}::receive_message::receive_message`,
-    arguments: [
-      receiveMessageTx.pure.vector("u8", Buffer.from(evmBurnTx.message.replace("0x", ""), "hex")), // message as byte array
-      receiveMessageTx.pure.vector("u8", Buffer.from(attestation.replace("0x", ""), "hex")), // attestation as byte array
-      receiveMessageTx.object(messageTransmitterStateId) // message_transmitter state
-    ]
+  const receiveMessageTx = buildReceiveMessageTransaction({
+    message: evmBurnTx.message,
+    attestation,
+    deployment,
+    coinType: usdcCoinType
   });
 
-  // Add handle_receive_message call
-  const [stampReceiptTicketWithBurnMessage] = receiveMessageTx.moveCall({
-    target: `${tokenMessengerMinterId}::handle_receive_message::handle_receive_message`,
-    arguments: [
-      receipt, // Receipt object returned from receive_message call
-      receiveMessageTx.object(tokenMessengerMinterStateId), // token_messenger_minter state
-      receiveMessageTx.object("0x403"), // deny list, fixed address
-      receiveMessageTx.object(treasuryId), // usdc treasury object Treasury<T>
-    ],
-    typeArguments: [`${usdcId}::usdc::USDC`],
-  });
-
-  // Add deconstruct_stamp_receipt_ticket_with_burn_message call
-  const [stampReceiptTicket] = receiveMessageTx.moveCall({
-    target: `${tokenMessengerMinterId}::handle_receive_message::deconstruct_stamp_receipt_ticket_with_burn_message`,
-    arguments: [
-      stampReceiptTicketWithBurnMessage
-    ]
-  });
-
-  // Add stamp_receipt call
-  const [stampedReceipt] = receiveMessageTx.moveCall({
-    target: `${messageTransmitterId}::receive_message::stamp_receipt`,
-    arguments: [
-      stampReceiptTicket, // Receipt ticket returned from deconstruct_stamp_receipt_ticket_with_burn_message call
-      receiveMessageTx.object(messageTransmitterStateId), // message_transmitter state
-    ],
-    typeArguments: [`${tokenMessengerMinterId}::message_transmitter_authenticator::MessageTransmitterAuthenticator`],
-  })
-
-  // Add complete_receive_message call
-  receiveMessageTx.moveCall({
-    target: `${messageTransmitterId}::receive_message::complete_receive_message`,
-    arguments: [
-      stampedReceipt, // Stamped receipt object returned from handle_receive_message call
-      receiveMessageTx.object(messageTransmitterStateId) // message_transmitter state
-    ]
-  });
-
-  // Manually set the gas budget. This is sometimes required
-  // for PTBs that pass objects between transaction calls.
-  receiveMessageTx.setGasBudget(GAS_BUDGET);
-  
-  console.log("Broadcasting Sui receive_message tx...");
+  console.log(`${options.dryRun ? "Simulating" : "Broadcasting"} Sui receive_message tx...`);
   const receiveMessageOutput = await executeTransactionHelper({
     client: client,
     signer: signer,
     transaction: receiveMessageTx,
+    dryRun: options.dryRun,
+    deployment
   });
+  if (options.dryRun) {
+    return;
+  }
 
   console.log(`receive_message transaction successful: 0x${receiveMessageOutput.digest} \n`);
 
-  const suiUsdcBalanceChange = receiveMessageOutput.balanceChanges?.find(b => b.coinType.includes(usdcId))
+  const suiUsdcBalanceChange = receiveMessageOutput.balanceChanges?.find(b => isSameCoinType(b.coinType, usdcCoinType))
   const balances = await client.getAllBalances({ owner: signer.toSuiAddress() });
-  const usdcBalance = balances.find(b => b.coinType.includes(usdcId))?.totalBalance;
+  const usdcBalance = balances.find(b => isSameCoinType(b.coinType, usdcCoinType))?.totalBalance;
 
   console.log("USDC Transfer from Sui -> EVM successful:");
   console.log(`EVM address: ${evmBalanceChangeAddress}, change: -${evmBalanceAmount}, current balance: ${evmUsdcBalance}`);
   console.log(`Sui address: ${(suiUsdcBalanceChange?.owner as any).AddressOwner}, change: +${suiUsdcBalanceChange?.amount}, current balance: ${usdcBalance}`);
 }
 
+function parseDomain(value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new InvalidArgumentError("Expected a domain number.");
+  }
+  return Number(value);
+}
 
 main();
@@ -0,0 +1,180 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SuiClient } from "@mysten/sui/client";
+import { InvalidArgumentError, program } from "commander";
+import dotenv from "dotenv";
+import { Web3 } from "web3";
+
+import { createHttpAttestationProvider, createLocalAttestationProvider } from "./attestation";
+import { getDeployerSigner, getUsdcCoinType, loadDeploymentManifest, toCctpDeployment } from "./manifest";
+import { normalizeAddress } from "./message";
+import {
+  createEvmDestination,
+  createEvmSource,
+  createSuiDestination,
+  createSuiSource,
+  MessageDestination,
+  MessageSource,
+  openRelayerStore,
+  RelayerConfig,
+  RelayerJobStatus,
+  RelayResult,
+  relayOnce,
+  retryJob,
+  runRelayer
+} from "./relayer";
+import { loadSignerFromEnv } from "./signers";
+
+dotenv.config();
+
+const FULLNODE_PORT = process.env.FULLNODE_PORT ?? "7000";
+const SUI_RPC_URL = process.env.SUI_RPC_URL ?? `http://localhost:${FULLNODE_PORT}`;
+
+interface RunOptions {
+  once?: boolean;
+  dryRun?: boolean;
+  intervalMs: number;
+  maxAttempts: number;
+  destinationCaller?: string[];
+  openMessages: boolean;
+}
+
+/**
+ * Relays messages between Sui and the EVM chains of the deployment manifest. Messages sent on one chain are
+ * attested, then received on the other, with the job queue saved at RELAYER_STATE_PATH.
+ *
+ * Sui transactions are signed by RELAYER_SIGNER or RELAYER_PRIVATE_KEY if set, or the deployer signer otherwise. EVM chains are only relayed to when RELAYER_EVM_PRIVATE_KEY is set. Attestations are polled from ATTESTATION_API_URL if set,
+ * or signed with the local attester key otherwise.
+ */
+const main = async () => {
+  program
+    .name("relayer")
+    .description("Relay CCTP messages between Sui and EVM chains");
+
+  program
+    .command("run")
+    .description("relay the messages sent since the last run, until interrupted")
+    .option("--once", "poll and process the due jobs once, then exit")
+    .option("--dry-run", "poll once and simulate the deliveries of the due jobs, without sending or saving anything")
+    .option("--interval-ms <ms>", "delay between polls", parseInteger, 5_000)
+    .option("--max-attempts <attempts>", "attempts before a job is marked failed", parseInteger, 10)
+    .option("--destination-caller <address...>", "destination callers relayed, defaults to the relayer's addresses")
+    .option("--no-open-messages", "skip messages without a destination caller")
+    .action(async (options: RunOptions) => {
+      const config = await loadRelayerConfig(options);
+      const store = openRelayerStore();
+      if (options.dryRun) {
+        store.save = () => undefined;
+      }
+
+      const printResult = (result: RelayResult) => console.log(
+        `Enqueued ${result.enqueued}, delivered ${result.delivered}, skipped ${result.skipped}, ` +
+        `retrying ${result.retried}, awaiting attestation ${result.awaitingAttestation}, failed ${result.failed} job(s).`
+      );
+      if (options.once || options.dryRun) {
+        printResult(await relayOnce({ config, store }));
+      } else {
+        // Stops after the current run on Ctrl-C or SIGTERM, without waiting out the poll interval.
+        const controller = new AbortController();
+        process.once("SIGINT", () => controller.abort());
+        process.once("SIGTERM", () => controller.abort());
+        await runRelayer({ config, store, pollIntervalMs: options.intervalMs, signal: controller.signal, onResult: printResult });
+      }
+    });
+
+  program
+    .command("jobs")
+    .description("print the relayer jobs as JSON lines")
+    .option("--status <status...>", "only jobs with these statuses: pending, delivered, skipped or failed")
+    .action((options: { status?: RelayerJobStatus[] }) => {
+      Object.values(openRelayerStore().state.jobs)
+        .filter((job) => !options.status || options.status.includes(job.status))
+        .forEach((job) => console.log(JSON.stringify(job)));
+    });
+
+  program
+    .command("retry <job-id>")
+    .description("put a skipped or failed job back in the queue")
+    .action((id: string) => {
+      const job = retryJob(openRelayerStore(), id);
+      console.log(`Job ${job.id} (domain ${job.sourceDomain} nonce ${job.nonce}) is pending again.`);
+    });
+
+  await program.parseAsync();
+};
+
+async function loadRelayerConfig(options: RunOptions): Promise<RelayerConfig> {
+  const client = new SuiClient({ url: SUI_RPC_URL });
+  const manifest = await loadDeploymentManifest({ client });
+  const deployment = toCctpDeployment(manifest);
+  const signer = loadSignerFromEnv("RELAYER_SIGNER", "RELAYER_PRIVATE_KEY") ?? getDeployerSigner(manifest);
+  const evmPrivateKey = process.env.RELAYER_EVM_PRIVATE_KEY;
+
+  const sources: MessageSource[] = [createSuiSource({ client, deployment, domain: manifest.localDomain })];
+  const destinations: MessageDestination[] = [
+    createSuiDestination({
+      client,
+      deployment,
+      domain: manifest.localDomain,
+      signer,
+      coinType: getUsdcCoinType(manifest),
+      dryRun: options.dryRun
+    })
+  ];
+  const relayerAddresses = [signer.toSuiAddress()];
+  for (const remoteDomain of manifest.remoteDomains) {
+    if (!remoteDomain.evm) {
+      continue;
+    }
+    const chain = { domain: remoteDomain.domain, ...remoteDomain.evm };
+    sources.push(createEvmSource({ chain }));
+    if (evmPrivateKey) {
+      destinations.push(createEvmDestination({ chain, privateKey: evmPrivateKey, dryRun: options.dryRun }));
+    }
+  }
+  if (evmPrivateKey) {
+    relayerAddresses.push(new Web3().eth.accounts.privateKeyToAccount(evmPrivateKey).address);
+  } else {
+    console.log("RELAYER_EVM_PRIVATE_KEY is not set, messages to EVM chains are not relayed.");
+  }
+
+  return {
+    sources,
+    destinations,
+    // Polled once per run; pending attestations are polled again after attestationPollMs without spending attempts.
+    attestationProvider: process.env.ATTESTATION_API_URL
+      ? createHttpAttestationProvider({ url: process.env.ATTESTATION_API_URL, timeoutMs: 0 })
+      : createLocalAttestationProvider(),
+    destinationCallers: (options.destinationCaller ?? relayerAddresses).map(normalizeAddress),
+    relayOpenMessages: options.openMessages,
+    maxAttempts: options.maxAttempts,
+    initialBackoffMs: 5_000,
+    maxBackoffMs: 10 * 60_000,
+    attestationPollMs: 10_000
+  };
+}
+
+function parseInteger(value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new InvalidArgumentError("Expected a non-negative integer.");
+  }
+  return Number(value);
+}
+
+main();
@@ -0,0 +1,412 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventId, PaginatedEvents, SuiClient } from "@mysten/sui/client";
+import { Signer } from "@mysten/sui/cryptography";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import fs from "fs";
+import { Web3 } from "web3";
+
+import { AttestationPendingError, AttestationProvider } from "./attestation";
+import { executeTransactionHelper, receiveEvm } from "./helpers";
+import { decodeMessage, hashMessage, normalizeAddress, toMessageBytes } from "./message";
+import { buildReceiveMessageTransaction, CctpDeployment } from "./transactions";
+import { EvmChain, fetchEvmMessagesInBlocks, isNonceUsedOnEvm, isNonceUsedOnSui } from "./transferStatus";
+
+export const DEFAULT_RELAYER_STATE_PATH = "relayer-state.json";
+
+const MESSAGE_TRANSMITTER_INTERFACE_PATH = "../evm-cctp-contracts/cctp-interfaces/MessageTransmitter.sol/MessageTransmitter.json";
+const ZERO_ADDRESS = normalizeSuiAddress("0x0");
+
+export type RelayerJobStatus = "pending" | "delivered" | "skipped" | "failed";
+
+/**
+ * A message to deliver to its destination chain. Nonces are decimal strings and messages 0x-prefixed hex,
+ * so that jobs round-trip through JSON.
+ */
+export interface RelayerJob {
+  // Hash of the message.
+  id: string;
+  sourceDomain: number;
+  destinationDomain: number;
+  nonce: string;
+  message: string;
+  status: RelayerJobStatus;
+  attempts: number;
+  // Earliest time the job is attempted again, in milliseconds since the epoch.
+  nextAttemptMs: number;
+  // Error of the last attempt, or why the job was skipped.
+  lastError?: string;
+  // Digest or hash of the transaction that delivered the message.
+  deliveryTx?: string;
+}
+
+/**
+ * Everything the relayer persists: the position of each source, and the job queue.
+ */
+export interface RelayerState {
+  suiCursor: EventId | null;
+  // Last block searched on each EVM domain.
+  evmBlocks: Record<string, number>;
+  jobs: Record<string, RelayerJob>;
+}
+
+export interface RelayerStore {
+  state: RelayerState;
+  // Replaces the state file atomically, so the relayer can be restarted after a crash.
+  save(): void;
+}
+
+/**
+ * A chain whose MessageSent events are relayed. Sources advance their position in the relayer state,
+ * which is saved together with the jobs created from the messages they return.
+ */
+export interface MessageSource {
+  domain: number;
+  fetchNewMessages(state: RelayerState): Promise<Buffer[]>;
+}
+
+/**
+ * A chain messages are delivered to through receive_message.
+ */
+export interface MessageDestination {
+  domain: number;
+  isNonceUsed(sourceDomain: number, nonce: bigint): Promise<boolean>;
+  /**
+   * Receives a message with its attestation.
+   * @returns the digest or hash of the transaction
+   */
+  receive(message: Buffer, attestation: string): Promise<string>;
+}
+
+export interface RelayerConfig {
+  sources: MessageSource[];
+  destinations: MessageDestination[];
+  attestationProvider: AttestationProvider;
+  // 32 byte addresses the relayer delivers messages as. Messages naming another destination caller are skipped.
+  destinationCallers: string[];
+  // Whether messages without a destination caller, which anyone can deliver, are relayed.
+  relayOpenMessages: boolean;
+  // Delivery failures before a job is marked failed. Polls of a pending attestation don't count.
+  maxAttempts: number;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  // Delay before polling a pending attestation again.
+  attestationPollMs: number;
+}
+
+export interface RelayResult {
+  enqueued: number;
+  delivered: number;
+  skipped: number;
+  retried: number;
+  // Jobs whose attestation is still pending.
+  awaitingAttestation: number;
+  failed: number;
+}
+
+/**
+ * Returns the path of the relayer state file, which can be overridden with RELAYER_STATE_PATH.
+ */
+export function getRelayerStatePath(): string {
+  return process.env.RELAYER_STATE_PATH ?? DEFAULT_RELAYER_STATE_PATH;
+}
+
+/**
+ * Opens the relayer state file, starting from an empty state if it doesn't exist.
+ */
+export function openRelayerStore(path: string = getRelayerStatePath()): RelayerStore {
+  const state: RelayerState = fs.existsSync(path)
+    ? JSON.parse(fs.readFileSync(path).toString())
+    : { suiCursor: null, evmBlocks: {}, jobs: {} };
+
+  return {
+    state,
+    save: () => {
+      fs.writeFileSync(`${path}.tmp`, `${JSON.stringify(state, null, 2)}\n`);
+      fs.renameSync(`${path}.tmp`, path);
+    }
+  };
+}
+
+/**
+ * Polls every source once, enqueues the new messages bound for a destination of the relayer, then processes
+ * the jobs that are due. The state is saved after polling and after each job.
+ * @param args.now current time in milliseconds, defaults to Date.now()
+ */
+export async function relayOnce(args: { config: RelayerConfig; store: RelayerStore; now?: number }): Promise<RelayResult> {
+  const { config, store } = args;
+  const now = args.now ?? Date.now();
+  const result: RelayResult = { enqueued: 0, delivered: 0, skipped: 0, retried: 0, awaitingAttestation: 0, failed: 0 };
+
+  for (const source of config.sources) {
+    for (const message of await source.fetchNewMessages(store.state)) {
+      const job = createJob(config, message, now);
+      if (job && !store.state.jobs[job.id]) {
+        store.state.jobs[job.id] = job;
+        result.enqueued++;
+      }
+    }
+  }
+  store.save();
+
+  const dueJobs = Object.values(store.state.jobs).filter((job) => job.status === "pending" && job.nextAttemptMs <= now);
+  for (const job of dueJobs) {
+    const outcome = await processJob(config, job, now);
+    if (outcome === "awaitingAttestation") {
+      result.awaitingAttestation++;
+    } else if (job.status === "pending") {
+      result.retried++;
+    } else {
+      result[job.status]++;
+    }
+    store.save();
+  }
+  return result;
+}
+
+/**
+ * Runs relayOnce until the signal is aborted, waiting between runs. A run that throws, e.g. on an RPC error
+ * while polling a source, is reported to onError and retried with the same backoff as jobs, from
+ * config.initialBackoffMs up to config.maxBackoffMs. Aborting the signal also ends the wait.
+ * @param args.onError defaults to logging the error
+ */
+export async function runRelayer(args: {
+  config: RelayerConfig;
+  store: RelayerStore;
+  pollIntervalMs: number;
+  signal?: AbortSignal;
+  onResult?: (result: RelayResult) => void;
+  onError?: (error: unknown, delayMs: number) => void;
+}): Promise<void> {
+  const onError = args.onError ?? ((error, delayMs) => console.error(`Relayer run failed, retrying in ${delayMs}ms:`, error));
+  let failures = 0;
+  while (!args.signal?.aborted) {
+    let delayMs = args.pollIntervalMs;
+    try {
+      args.onResult?.(await relayOnce({ config: args.config, store: args.store }));
+      failures = 0;
+    } catch (error) {
+      failures++;
+      delayMs = Math.min(args.config.initialBackoffMs * 2 ** (failures - 1), args.config.maxBackoffMs);
+      onError(error, delayMs);
+    }
+    await sleep(delayMs, args.signal);
+  }
+}
+
+/**
+ * Puts a skipped or failed job back in the queue, with its attempts reset.
+ * @throws if there is no job with this id
+ */
+export function retryJob(store: RelayerStore, id: string): RelayerJob {
+  const job = store.state.jobs[id];
+  if (!job) {
+    throw new Error(`No relayer job ${id}.`);
+  }
+  Object.assign(job, { status: "pending", attempts: 0, nextAttemptMs: 0 });
+  store.save();
+  return job;
+}
+
+/**
+ * Returns whether the relayer may deliver a message, based on its destination caller.
+ */
+export function isAllowedDestinationCaller(
+  config: Pick<RelayerConfig, "destinationCallers" | "relayOpenMessages">,
+  destinationCaller: string
+): boolean {
+  const caller = normalizeAddress(destinationCaller);
+  if (caller === ZERO_ADDRESS) {
+    return config.relayOpenMessages;
+  }
+  return config.destinationCallers.some((allowed) => normalizeAddress(allowed) === caller);
+}
+
+/**
+ * Creates a source reading the MessageSent events of message_transmitter, from the saved cursor.
+ */
+export function createSuiSource(args: { client: SuiClient; deployment: CctpDeployment; domain: number }): MessageSource {
+  return {
+    domain: args.domain,
+    fetchNewMessages: async (state) => {
+      const messages: Buffer[] = [];
+      let page: PaginatedEvents;
+      do {
+        page = await args.client.queryEvents({
+          query: { MoveEventType: `${args.deployment.messageTransmitterId}::send_message::MessageSent` },
+          cursor: state.suiCursor,
+          order: "ascending"
+        });
+        messages.push(...page.data.map((event) => Buffer.from((event.parsedJson as { message: number[] }).message)));
+        state.suiCursor = page.nextCursor ?? state.suiCursor;
+      } while (page.hasNextPage);
+      return messages;
+    }
+  };
+}
+
+/**
+ * Creates a source reading the MessageSent logs of an EVM MessageTransmitter, from the block after the last
+ * block searched, or chain.fromBlock on the first run.
+ * @param args.maxBlockRange most blocks searched per poll, as RPC providers limit log queries
+ */
+export function createEvmSource(args: { chain: EvmChain; maxBlockRange?: number }): MessageSource {
+  const { chain } = args;
+  const maxBlockRange = args.maxBlockRange ?? 10_000;
+  const web3 = new Web3(new Web3.providers.HttpProvider(chain.rpcUrl));
+
+  return {
+    domain: chain.domain,
+    fetchNewMessages: async (state) => {
+      const lastBlock = state.evmBlocks[chain.domain];
+      const fromBlock = lastBlock === undefined ? chain.fromBlock ?? 0 : lastBlock + 1;
+      const latestBlock = Number(await web3.eth.getBlockNumber());
+      if (fromBlock > latestBlock) {
+        return [];
+      }
+      const toBlock = Math.min(latestBlock, fromBlock + maxBlockRange - 1);
+      const messages = await fetchEvmMessagesInBlocks(chain, fromBlock, toBlock);
+      state.evmBlocks[chain.domain] = toBlock;
+      return messages;
+    }
+  };
+}
+
+/**
+ * Creates a destination receiving messages on Sui with the receive_message PTB, minting the given coin type.
+ * @param args.dryRun only simulate the PTB, returning the digest it would have
+ */
+export function createSuiDestination(args: {
+  client: SuiClient;
+  deployment: CctpDeployment;
+  domain: number;
+  signer: Signer;
+  coinType: string;
+  dryRun?: boolean;
+}): MessageDestination {
+  const { client, deployment } = args;
+  return {
+    domain: args.domain,
+    isNonceUsed: (sourceDomain, nonce) => isNonceUsedOnSui(client, deployment, sourceDomain, nonce),
+    receive: async (message, attestation) => {
+      const transaction = buildReceiveMessageTransaction({ message, attestation, deployment, coinType: args.coinType });
+      const response = await executeTransactionHelper({
+        client,
+        signer: args.signer,
+        transaction,
+        dryRun: args.dryRun,
+        deployment
+      });
+      return response.digest;
+    }
+  };
+}
+
+/**
+ * Creates a destination calling receiveMessage on an EVM MessageTransmitter from the account of a private key.
+ * @param args.dryRun only simulate receiveMessage with eth_call, returning "eth_call" as the transaction
+ */
+export function createEvmDestination(args: { chain: EvmChain; privateKey: string; dryRun?: boolean }): MessageDestination {
+  const { chain } = args;
+  const web3 = new Web3(new Web3.providers.HttpProvider(chain.rpcUrl));
+  const messageTransmitterInterface = JSON.parse(fs.readFileSync(MESSAGE_TRANSMITTER_INTERFACE_PATH).toString());
+  const messageTransmitterContract = new web3.eth.Contract(messageTransmitterInterface.abi, chain.messageTransmitter);
+  const from = web3.eth.accounts.wallet.add(args.privateKey)[0].address;
+
+  return {
+    domain: chain.domain,
+    isNonceUsed: (sourceDomain, nonce) => isNonceUsedOnEvm(chain, sourceDomain, nonce),
+    receive: async (message, attestation) => {
+      if (args.dryRun) {
+        await messageTransmitterContract.methods.receiveMessage(message, attestation).call({ from });
+        return "eth_call";
+      }
+      const receipt = await receiveEvm(messageTransmitterContract, from, message, attestation);
+      return receipt.transactionHash;
+    }
+  };
+}
+
+// Creates the job of a message, skipped if the relayer may not deliver it, or null if no destination handles it.
+function createJob(config: RelayerConfig, rawMessage: Buffer, now: number): RelayerJob | null {
+  const message = decodeMessage(rawMessage);
+  if (!config.destinations.some((destination) => destination.domain === message.destinationDomain)) {
+    return null;
+  }
+
+  const job: RelayerJob = {
+    id: hashMessage(rawMessage),
+    sourceDomain: message.sourceDomain,
+    destinationDomain: message.destinationDomain,
+    nonce: message.nonce.toString(),
+    message: `0x${rawMessage.toString("hex")}`,
+    status: "pending",
+    attempts: 0,
+    nextAttemptMs: now
+  };
+  if (!isAllowedDestinationCaller(config, message.destinationCaller)) {
+    job.status = "skipped";
+    job.lastError = `Destination caller ${message.destinationCaller} is not allowed.`;
+  }
+  return job;
+}
+
+// Delivers a job, unless its nonce was already used, e.g. by another relayer or an attempt whose response was lost.
+// A pending attestation is polled again later without spending an attempt, as waiting for finality is expected.
+async function processJob(config: RelayerConfig, job: RelayerJob, now: number): Promise<"awaitingAttestation" | void> {
+  const destination = config.destinations.find((candidate) => candidate.domain === job.destinationDomain)!;
+  const message = toMessageBytes(job.message);
+  try {
+    if (await destination.isNonceUsed(job.sourceDomain, BigInt(job.nonce))) {
+      job.status = "skipped";
+      job.lastError = "Nonce already used on the destination chain.";
+      return;
+    }
+    const attestation = await config.attestationProvider.getAttestation(message);
+    job.deliveryTx = await destination.receive(message, attestation);
+    job.status = "delivered";
+    delete job.lastError;
+  } catch (error) {
+    if (error instanceof AttestationPendingError) {
+      job.lastError = error.message;
+      job.nextAttemptMs = now + config.attestationPollMs;
+      return "awaitingAttestation";
+    }
+    job.attempts++;
+    job.lastError = error instanceof Error ? error.message : String(error);
+    if (job.attempts >= config.maxAttempts) {
+      job.status = "failed";
+    } else {
+      job.nextAttemptMs = now + Math.min(config.initialBackoffMs * 2 ** (job.attempts - 1), config.maxBackoffMs);
+    }
+  }
+}
+
+// Resolves after a delay, or as soon as the signal is aborted.
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
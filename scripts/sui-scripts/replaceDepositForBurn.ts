@@ -0,0 +1,87 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SuiClient } from "@mysten/sui/client";
+
+import { program } from "commander";
+import dotenv from "dotenv";
+
+import { parseDepositForBurnOutput } from "../sui-scripts/events";
+import { executeTransactionHelper } from "../sui-scripts/helpers";
+import { getDeployerSigner, loadDeploymentManifest, toCctpDeployment } from "../sui-scripts/manifest";
+import { hashMessage } from "../sui-scripts/message";
+import { buildReplaceDepositForBurnTransaction } from "../sui-scripts/transactions";
+import { loadSignerFromEnv } from "../sui-scripts/signers";
+
+dotenv.config();
+
+const FULLNODE_PORT = process.env.FULLNODE_PORT ?? "7000";
+const SUI_RPC_URL = process.env.SUI_RPC_URL ?? `http://localhost:${FULLNODE_PORT}`;
+
+/**
+ * This script shows an example of replacing a message sent from Sui with deposit_for_burn, e.g. to
+ * correct a wrong mint recipient. The signer must be the original depositor. The new message keeps
+ * the original nonce, so only one of the original or replaced messages can be received on the destination chain.
+ *
+ * Local addresses are read from the deployment manifest written by `yarn deploy-local`, and the signer
+ * from SUI_SIGNER, or DEPLOYER_SIGNER or DEPLOYER_PRIVATE_KEY in the .env file. With --dry-run, the new message is predicted without sending anything.
+ */
+const main = async () => {
+  program
+    .requiredOption("--message <hex>", "original message emitted in the MessageSent event")
+    .requiredOption("--attestation <hex>", "attestation of the original message")
+    .option("--mint-recipient <address>", "new mint recipient on the destination chain")
+    .option("--destination-caller <address>", "new destination caller on the destination chain")
+    .option("--dry-run", "simulate replace_deposit_for_burn without sending it")
+    .parse();
+  const options = program.opts();
+
+  const client = new SuiClient({ url: SUI_RPC_URL});
+  const manifest = await loadDeploymentManifest({ client });
+  const deployment = toCctpDeployment(manifest);
+  const signer = loadSignerFromEnv("SUI_SIGNER") ?? getDeployerSigner(manifest);
+
+  const replaceTx = buildReplaceDepositForBurnTransaction({
+    originalMessage: options.message,
+    originalAttestation: options.attestation,
+    newMintRecipient: options.mintRecipient,
+    newDestinationCaller: options.destinationCaller,
+    deployment
+  });
+
+  console.log(`${options.dryRun ? "Simulating" : "Broadcasting"} sui replace_deposit_for_burn tx...`);
+  const replaceOutput = await executeTransactionHelper({
+    client: client,
+    signer: signer,
+    transaction: replaceTx,
+    dryRun: options.dryRun,
+    deployment
+  });
+  if (!options.dryRun) {
+    console.log(`replace_deposit_for_burn transaction successful: 0x${replaceOutput.digest} \n`);
+  }
+
+  const { message, decodedMessage, depositForBurnEvent } = parseDepositForBurnOutput(replaceOutput);
+  console.log(`New message: 0x${message.toString("hex")}`);
+  console.log(`New message hash: ${hashMessage(message)}`);
+  console.log(`Nonce: ${decodedMessage.nonce}, amount: ${depositForBurnEvent.amount}`);
+  console.log(`Mint recipient: ${depositForBurnEvent.mintRecipient}, destination caller: ${depositForBurnEvent.destinationCaller}`);
+}
+
+
+main();
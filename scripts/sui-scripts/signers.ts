@@ -0,0 +1,170 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  decodeSuiPrivateKey,
+  Keypair,
+  SIGNATURE_FLAG_TO_SCHEME,
+  SignatureFlag,
+  SignatureScheme,
+  Signer,
+  SUI_PRIVATE_KEY_PREFIX
+} from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Secp256k1Keypair } from "@mysten/sui/keypairs/secp256k1";
+import { Secp256r1Keypair } from "@mysten/sui/keypairs/secp256r1";
+import { MultiSigPublicKey, MultiSigSigner } from "@mysten/sui/multisig";
+import { fromB64, normalizeSuiAddress } from "@mysten/sui/utils";
+import { publicKeyFromSuiBytes } from "@mysten/sui/verify";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const KEYSTORE_PREFIX = "keystore:";
+const MULTISIG_PREFIX = "multisig:";
+
+/**
+ * Sui multisig account, as stored in the JSON file of a `multisig:<path>` signer.
+ */
+export interface MultisigConfig {
+  threshold: number;
+  // Member public keys, base64 encoded with their scheme flag as printed by `sui keytool list`.
+  publicKeys: { publicKey: string; weight: number }[];
+  // Signers of the members signing transactions, whose weights must reach the threshold.
+  signers: string[];
+}
+
+/**
+ * Returns the keypair of a private key starting with "suiprivkey", for any of the Ed25519, Secp256k1 and
+ * Secp256r1 schemes.
+ */
+export function getKeypairFromPrivateKey(privateKey: string): Keypair {
+  let decoded: ReturnType<typeof decodeSuiPrivateKey>;
+  try {
+    decoded = decodeSuiPrivateKey(privateKey);
+  } catch {
+    // The SDK's errors include the key, which must not end up in logs.
+    throw new Error(`Invalid private key, expected a bech32 encoded key starting with "${SUI_PRIVATE_KEY_PREFIX}".`);
+  }
+  return getKeypairFromSecretKey(decoded.schema, decoded.secretKey);
+}
+
+/**
+ * Returns a keypair of the Sui keystore, e.g. ~/.sui/sui_config/sui.keystore.
+ * @param aliasOrAddress alias of the key in the sui.aliases file next to the keystore, or its address
+ * @throws if no key of the keystore matches
+ */
+export function getKeystoreKeypair(aliasOrAddress: string, keystorePath = getKeystorePath()): Keypair {
+  const keypairs = (JSON.parse(fs.readFileSync(keystorePath, "utf-8")) as string[]).map((key) => {
+    if (key.startsWith(SUI_PRIVATE_KEY_PREFIX)) {
+      return getKeypairFromPrivateKey(key);
+    }
+    const bytes = fromB64(key);
+    return getKeypairFromSecretKey(SIGNATURE_FLAG_TO_SCHEME[bytes[0] as SignatureFlag], bytes.slice(1));
+  });
+
+  const aliasesPath = path.join(path.dirname(keystorePath), "sui.aliases");
+  const aliases: { alias: string; public_key_base64: string }[] = fs.existsSync(aliasesPath)
+    ? JSON.parse(fs.readFileSync(aliasesPath, "utf-8"))
+    : [];
+  const publicKey = aliases.find((alias) => alias.alias === aliasOrAddress)?.public_key_base64;
+  const keypair = keypairs.find((keypair) => publicKey
+    ? keypair.getPublicKey().toSuiPublicKey() === publicKey
+    : keypair.toSuiAddress() === normalizeSuiAddress(aliasOrAddress)
+  );
+  if (!keypair) {
+    throw new Error(`No key of ${keystorePath} has the alias or address ${aliasOrAddress}.`);
+  }
+  return keypair;
+}
+
+/**
+ * Returns the multisig public key of a multisig config.
+ */
+export function getMultisigPublicKey(config: Pick<MultisigConfig, "threshold" | "publicKeys">): MultiSigPublicKey {
+  return MultiSigPublicKey.fromPublicKeys({
+    threshold: config.threshold,
+    publicKeys: config.publicKeys.map(({ publicKey, weight }) => ({ publicKey: publicKeyFromSuiBytes(publicKey), weight }))
+  });
+}
+
+/**
+ * Returns a signer of a multisig account, combining the partial signatures of its member signers.
+ * @throws if a signer is not a member, or the signers' weights don't reach the threshold
+ */
+export function getMultisigSigner(config: MultisigConfig): MultiSigSigner {
+  return new MultiSigSigner(getMultisigPublicKey(config), config.signers.map((signer) => loadSigner(signer)));
+}
+
+/**
+ * Loads a signer from its description, which is one of:
+ * - a private key starting with "suiprivkey", for the Ed25519, Secp256k1 or Secp256r1 schemes
+ * - `keystore:<alias or address>`, a key of the Sui keystore at SUI_KEYSTORE_PATH, or ~/.sui/sui_config/sui.keystore
+ * - `multisig:<path>`, a multisig account described by the MultisigConfig JSON file at the path
+ * @throws if the description is invalid or the key is not found
+ */
+export function loadSigner(description: string): Signer {
+  if (description.startsWith(KEYSTORE_PREFIX)) {
+    return getKeystoreKeypair(description.slice(KEYSTORE_PREFIX.length));
+  }
+  if (description.startsWith(MULTISIG_PREFIX)) {
+    const configPath = description.slice(MULTISIG_PREFIX.length);
+    return getMultisigSigner(JSON.parse(fs.readFileSync(configPath, "utf-8")));
+  }
+  if (description.startsWith(SUI_PRIVATE_KEY_PREFIX)) {
+    return getKeypairFromPrivateKey(description);
+  }
+  // The description is not echoed, as it may be a mistyped private key.
+  throw new Error(
+    `Unrecognized signer, expected a private key starting with "${SUI_PRIVATE_KEY_PREFIX}", ` +
+    `"${KEYSTORE_PREFIX}<alias or address>" or "${MULTISIG_PREFIX}<path>".`
+  );
+}
+
+/**
+ * Loads the signer described by the first of the given environment variables that is set.
+ * @returns the signer, or undefined if none of the variables is set
+ */
+export function loadSignerFromEnv(...names: string[]): Signer | undefined {
+  const name = names.find((name) => process.env[name]);
+  if (!name) {
+    return undefined;
+  }
+  try {
+    return loadSigner(process.env[name] as string);
+  } catch (error) {
+    throw new Error(`${name}: ${(error as Error).message}`);
+  }
+}
+
+function getKeystorePath(): string {
+  return process.env.SUI_KEYSTORE_PATH ?? path.join(os.homedir(), ".sui", "sui_config", "sui.keystore");
+}
+
+function getKeypairFromSecretKey(scheme: SignatureScheme, secretKey: Uint8Array): Keypair {
+  switch (scheme) {
+    case "ED25519":
+      return Ed25519Keypair.fromSecretKey(secretKey);
+    case "Secp256k1":
+      return Secp256k1Keypair.fromSecretKey(secretKey);
+    case "Secp256r1":
+      return Secp256r1Keypair.fromSecretKey(secretKey);
+    default:
+      throw new Error(`Unsupported key scheme ${scheme}.`);
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { bcs, BcsType } from "@mysten/sui/bcs";
+import { SuiClient } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+
+import {
+  fetchAttesterManagerState,
+  fetchPackageRoles,
+  fetchRemoteTokenMessengers,
+  fetchTokenControllerState,
+  PackageRoles,
+  TokenControllerState
+} from "./admin";
+import { callViewFunction } from "./helpers";
+import { toEvmAddress } from "./manifest";
+import { CctpDeployment } from "./transactions";
+import { fetchCompatibleVersions } from "./upgrade";
+
+export type PackageRoleHolders = Omit<PackageRoles, "paused">;
+
+export interface MessageTransmitterStatus {
+  packageId: string;
+  stateId: string;
+  localDomain: number;
+  messageVersion: number;
+  maxMessageBodySize: bigint;
+  nextAvailableNonce: bigint;
+  // EVM addresses of the enabled attesters.
+  enabledAttesters: string[];
+  signatureThreshold: number;
+  paused: boolean;
+  roles: PackageRoleHolders;
+  compatibleVersions: number[];
+}
+
+export interface TokenMessengerMinterStatus {
+  packageId: string;
+  stateId: string;
+  messageBodyVersion: number;
+  paused: boolean;
+  roles: PackageRoleHolders;
+  compatibleVersions: number[];
+  // Token messenger registered for each requested domain, or null if none is.
+  remoteTokenMessengers: { domain: number; tokenMessenger: string | null }[];
+  tokens: TokenControllerState[];
+}
+
+/**
+ * State of both CCTP packages, as read through the public getters of their State objects.
+ */
+export interface CctpStatus {
+  messageTransmitter: MessageTransmitterStatus;
+  tokenMessengerMinter: TokenMessengerMinterStatus;
+}
+
+/**
+ * Reads the state of both CCTP packages through devInspect. Nothing is signed or sent.
+ * Remote token messengers and token pairs live in tables, so only the requested keys are read.
+ * @param args.remoteDomains domains whose remote token messenger is read
+ * @param args.tokens coin types whose burn limit, mint cap and token pairs with the given remote tokens are read
+ */
+export async function fetchCctpStatus(args: {
+  client: SuiClient;
+  deployment: CctpDeployment;
+  remoteDomains: number[];
+  tokens: { coinType: string; remoteTokens: { remoteDomain: number; remoteToken: string }[] }[];
+}): Promise<CctpStatus> {
+  const { client, deployment } = args;
+  const compatibleVersions = await fetchCompatibleVersions(client, deployment);
+
+  const callMessageTransmitterGetter = <T, Input>(getter: string, returnType: BcsType<T, Input>) =>
+    callStateGetter(client, deployment.messageTransmitterId, deployment.messageTransmitterStateId, getter, returnType);
+  const { paused: messageTransmitterPaused, ...messageTransmitterRoles } = await fetchPackageRoles(client, deployment, "message_transmitter");
+  const attesters = await fetchAttesterManagerState(client, deployment);
+  const messageTransmitter: MessageTransmitterStatus = {
+    packageId: deployment.messageTransmitterId,
+    stateId: deployment.messageTransmitterStateId,
+    localDomain: await callMessageTransmitterGetter("local_domain", bcs.u32()),
+    messageVersion: await callMessageTransmitterGetter("message_version", bcs.u32()),
+    maxMessageBodySize: BigInt(await callMessageTransmitterGetter("max_message_body_size", bcs.u64())),
+    nextAvailableNonce: BigInt(await callMessageTransmitterGetter("next_available_nonce", bcs.u64())),
+    enabledAttesters: attesters.enabledAttesters.map(toEvmAddress),
+    signatureThreshold: attesters.signatureThreshold,
+    paused: messageTransmitterPaused,
+    roles: messageTransmitterRoles,
+    compatibleVersions: compatibleVersions.message_transmitter
+  };
+
+  const { paused: tokenMessengerMinterPaused, ...tokenMessengerMinterRoles } = await fetchPackageRoles(client, deployment, "token_messenger_minter");
+  const tokens: TokenControllerState[] = [];
+  for (const { coinType, remoteTokens } of args.tokens) {
+    tokens.push(await fetchTokenControllerState(client, deployment, coinType, remoteTokens));
+  }
+  const tokenMessengerMinter: TokenMessengerMinterStatus = {
+    packageId: deployment.tokenMessengerMinterId,
+    stateId: deployment.tokenMessengerMinterStateId,
+    messageBodyVersion: await callStateGetter(
+      client,
+      deployment.tokenMessengerMinterId,
+      deployment.tokenMessengerMinterStateId,
+      "message_body_version",
+      bcs.u32()
+    ),
+    paused: tokenMessengerMinterPaused,
+    roles: tokenMessengerMinterRoles,
+    compatibleVersions: compatibleVersions.token_messenger_minter,
+    remoteTokenMessengers: await fetchRemoteTokenMessengers(client, deployment, args.remoteDomains),
+    tokens
+  };
+
+  return { messageTransmitter, tokenMessengerMinter };
+}
+
+/**
+ * Serializes a status report to JSON, with u64 values as decimal strings.
+ */
+export function formatCctpStatusJson(status: CctpStatus): string {
+  return JSON.stringify(status, (_, value) => typeof value === "bigint" ? value.toString() : value, 2);
+}
+
+/**
+ * Formats a status report as human-readable text.
+ */
+export function formatCctpStatusText(status: CctpStatus): string {
+  const { messageTransmitter: mt, tokenMessengerMinter: tmm } = status;
+  const lines = [
+    `message_transmitter ${mt.packageId}`,
+    `  state:                 ${mt.stateId}`,
+    `  local domain:          ${mt.localDomain}`,
+    `  message version:       ${mt.messageVersion}`,
+    `  max message body size: ${mt.maxMessageBodySize}`,
+    `  next available nonce:  ${mt.nextAvailableNonce}`,
+    `  signature threshold:   ${mt.signatureThreshold} of ${mt.enabledAttesters.length}`,
+    ...mt.enabledAttesters.map((attester) => `  attester:              ${attester}`),
+    `  paused:                ${mt.paused}`,
+    ...formatRoles(mt.roles),
+    `  compatible versions:   [${mt.compatibleVersions.join(", ")}]`,
+    "",
+    `token_messenger_minter ${tmm.packageId}`,
+    `  state:                 ${tmm.stateId}`,
+    `  message body version:  ${tmm.messageBodyVersion}`,
+    `  paused:                ${tmm.paused}`,
+    ...formatRoles(tmm.roles),
+    `  compatible versions:   [${tmm.compatibleVersions.join(", ")}]`,
+    ...tmm.remoteTokenMessengers.map(({ domain, tokenMessenger }) =>
+      `  domain ${domain} token messenger: ${tokenMessenger ?? "none"}`),
+    ...tmm.tokens.flatMap((token) => [
+      `  ${token.coinType} (token id ${token.tokenId}):`,
+      `    burn limit per message: ${token.burnLimitPerMessage ?? "not set"}`,
+      `    mint cap added:         ${token.mintCapAdded}`,
+      ...token.tokenPairs.map((pair) =>
+        `    domain ${pair.remoteDomain} token ${pair.remoteToken}: ${pair.localToken ? "linked" : "not linked"}`)
+    ])
+  ];
+  return lines.join("\n");
+}
+
+function formatRoles(roles: PackageRoleHolders): string[] {
+  return [
+    `  owner:                 ${roles.owner}`,
+    `  pending owner:         ${roles.pendingOwner ?? "none"}`,
+    `  pauser:                ${roles.pauser}`,
+    ...(roles.attesterManager ? [`  attester manager:      ${roles.attesterManager}`] : []),
+    ...(roles.tokenController ? [`  token controller:      ${roles.tokenController}`] : [])
+  ];
+}
+
+// Calls a getter taking only the State object.
+async function callStateGetter<T, Input>(
+  client: SuiClient,
+  packageId: string,
+  stateId: string,
+  getter: string,
+  returnType: BcsType<T, Input>
+): Promise<T> {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${packageId}::state::${getter}`,
+    arguments: [tx.object(stateId)] // State object
+  });
+  const [value] = await callViewFunction({ client, transaction: tx, returnTypes: [returnType] });
+  return value;
+}
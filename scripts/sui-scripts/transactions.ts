@@ -0,0 +1,283 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SuiClient } from "@mysten/sui/client";
+import { Transaction, TransactionArgument } from "@mysten/sui/transactions";
+
+import { splitCoinForAmount } from "./coins";
+import { toMessageBytes } from "./message";
+
+// Fixed address of the shared DenyList object on Sui.
+export const DENY_LIST_ID = "0x403";
+
+/**
+ * Package and object ids required to build CCTP transactions.
+ */
+export interface CctpDeployment {
+  // Original package versions, which types and events are named after.
+  messageTransmitterId: string;
+  messageTransmitterStateId: string;
+  tokenMessengerMinterId: string;
+  tokenMessengerMinterStateId: string;
+  treasuryId: string;
+  // Latest package versions once upgraded. Move calls must target them once the State is migrated.
+  messageTransmitterLatestId?: string;
+  tokenMessengerMinterLatestId?: string;
+}
+
+/**
+ * Returns the package versions Move calls target: the latest upgraded ones, or the original packages if never upgraded.
+ */
+export function getLatestPackageIds(deployment: CctpDeployment): { messageTransmitterId: string; tokenMessengerMinterId: string } {
+  return {
+    messageTransmitterId: deployment.messageTransmitterLatestId ?? deployment.messageTransmitterId,
+    tokenMessengerMinterId: deployment.tokenMessengerMinterLatestId ?? deployment.tokenMessengerMinterId
+  };
+}
+
+/**
+ * Returns the type of the authenticator token_messenger_minter uses to stamp receipts.
+ */
+export function messageTransmitterAuthenticatorType(tokenMessengerMinterId: string): string {
+  return `${tokenMessengerMinterId}::message_transmitter_authenticator::MessageTransmitterAuthenticator`;
+}
+
+/**
+ * Builds an unsigned PTB receiving a burn message on Sui. This chains
+ * receive_message -> handle_receive_message -> deconstruct_stamp_receipt_ticket_with_burn_message
+ * -> stamp_receipt -> complete_receive_message.
+ * @param args.message raw message bytes or hex string
+ * @param args.attestation raw attestation bytes or hex string
+ * @param args.deployment CCTP deployment ids
+ * @param args.coinType full type of the coin being minted, e.g. `${usdcId}::usdc::USDC`
+ * @param args.authenticatorType type stamping the receipt, defaults to the token_messenger_minter authenticator
+ * @param args.transaction optional transaction to append the calls to
+ */
+export function buildReceiveMessageTransaction(args: {
+  message: Uint8Array | string;
+  attestation: Uint8Array | string;
+  deployment: CctpDeployment;
+  coinType: string;
+  authenticatorType?: string;
+  transaction?: Transaction;
+}): Transaction {
+  const { deployment } = args;
+  const { messageTransmitterId, tokenMessengerMinterId } = getLatestPackageIds(deployment);
+  const receiveMessageTx = args.transaction ?? new Transaction();
+  const authenticatorType = args.authenticatorType ?? messageTransmitterAuthenticatorType(deployment.tokenMessengerMinterId);
+
+  // Add receive_message call
+  const [receipt] = receiveMessageTx.moveCall({
+    target: `${messageTransmitterId}::receive_message::receive_message`,
+    arguments: [
+      receiveMessageTx.pure.vector("u8", toMessageBytes(args.message)), // message as byte array
+      receiveMessageTx.pure.vector("u8", toMessageBytes(args.attestation)), // attestation as byte array
+      receiveMessageTx.object(deployment.messageTransmitterStateId) // message_transmitter state
+    ]
+  });
+
+  // Add handle_receive_message call
+  const [stampReceiptTicketWithBurnMessage] = receiveMessageTx.moveCall({
+    target: `${tokenMessengerMinterId}::handle_receive_message::handle_receive_message`,
+    arguments: [
+      receipt, // Receipt object returned from receive_message call
+      receiveMessageTx.object(deployment.tokenMessengerMinterStateId), // token_messenger_minter state
+      receiveMessageTx.object(DENY_LIST_ID), // deny list, fixed address
+      receiveMessageTx.object(deployment.treasuryId), // treasury object Treasury<T>
+    ],
+    typeArguments: [args.coinType],
+  });
+
+  // Add deconstruct_stamp_receipt_ticket_with_burn_message call
+  const [stampReceiptTicket] = receiveMessageTx.moveCall({
+    target: `${tokenMessengerMinterId}::handle_receive_message::deconstruct_stamp_receipt_ticket_with_burn_message`,
+    arguments: [
+      stampReceiptTicketWithBurnMessage
+    ]
+  });
+
+  // Add stamp_receipt call
+  const [stampedReceipt] = receiveMessageTx.moveCall({
+    target: `${messageTransmitterId}::receive_message::stamp_receipt`,
+    arguments: [
+      stampReceiptTicket, // Receipt ticket returned from deconstruct_stamp_receipt_ticket_with_burn_message call
+      receiveMessageTx.object(deployment.messageTransmitterStateId), // message_transmitter state
+    ],
+    typeArguments: [authenticatorType],
+  });
+
+  // Add complete_receive_message call
+  receiveMessageTx.moveCall({
+    target: `${messageTransmitterId}::receive_message::complete_receive_message`,
+    arguments: [
+      stampedReceipt, // Stamped receipt object returned from stamp_receipt call
+      receiveMessageTx.object(deployment.messageTransmitterStateId) // message_transmitter state
+    ]
+  });
+
+  return receiveMessageTx;
+}
+
+/**
+ * Builds an unsigned PTB burning coins on Sui through deposit_for_burn, or deposit_for_burn_with_caller
+ * if a destination caller is provided. Coins of the exact coin type owned by the sender are selected,
+ * merged and split in the same PTB to cover the amount.
+ * @param args.client Sui client used to page through the sender's coins
+ * @param args.sender address owning the coins to burn
+ * @param args.amount amount to burn, in the coin's smallest unit
+ * @param args.destinationDomain CCTP domain of the destination chain
+ * @param args.mintRecipient address receiving the minted coins on the destination chain
+ * @param args.destinationCaller optional address allowed to receive the message on the destination chain
+ * @param args.deployment CCTP deployment ids
+ * @param args.coinType full type of the coin being burned, e.g. `${usdcId}::usdc::USDC`
+ * @param args.transaction optional transaction to append the calls to
+ */
+export async function buildDepositForBurnTransaction(args: {
+  client: SuiClient;
+  sender: string;
+  amount: bigint | number;
+  destinationDomain: number;
+  mintRecipient: string;
+  destinationCaller?: string;
+  deployment: CctpDeployment;
+  coinType: string;
+  transaction?: Transaction;
+}): Promise<Transaction> {
+  const { deployment } = args;
+  const { tokenMessengerMinterId } = getLatestPackageIds(deployment);
+  const depositForBurnTx = args.transaction ?? new Transaction();
+  depositForBurnTx.setSenderIfNotSet(args.sender);
+
+  const coin = await splitCoinForAmount({
+    client: args.client,
+    transaction: depositForBurnTx,
+    owner: args.sender,
+    coinType: args.coinType,
+    amount: BigInt(args.amount)
+  });
+
+  // If destination caller is provided, call deposit_for_burn_with_caller
+  if (args.destinationCaller) {
+    depositForBurnTx.moveCall({
+      target: `${tokenMessengerMinterId}::deposit_for_burn::deposit_for_burn_with_caller`,
+      arguments: [
+        coin, // Coin<T>
+        depositForBurnTx.pure.u32(args.destinationDomain), // destination_domain
+        depositForBurnTx.pure.address(args.mintRecipient), // mint_recipient
+        depositForBurnTx.pure.address(args.destinationCaller), // destination_caller
+        depositForBurnTx.object(deployment.tokenMessengerMinterStateId), // token_messenger_minter state
+        depositForBurnTx.object(deployment.messageTransmitterStateId), // message_transmitter state
+        depositForBurnTx.object(DENY_LIST_ID), // deny_list id, fixed address
+        depositForBurnTx.object(deployment.treasuryId) // treasury object Treasury<T>
+      ],
+      typeArguments: [args.coinType],
+    });
+  } else {
+    depositForBurnTx.moveCall({
+      target: `${tokenMessengerMinterId}::deposit_for_burn::deposit_for_burn`,
+      arguments: [
+        coin, // Coin<T>
+        depositForBurnTx.pure.u32(args.destinationDomain), // destination_domain
+        depositForBurnTx.pure.address(args.mintRecipient), // mint_recipient
+        depositForBurnTx.object(deployment.tokenMessengerMinterStateId), // token_messenger_minter state
+        depositForBurnTx.object(deployment.messageTransmitterStateId), // message_transmitter state
+        depositForBurnTx.object(DENY_LIST_ID), // deny_list id, fixed address
+        depositForBurnTx.object(deployment.treasuryId) // treasury object Treasury<T>
+      ],
+      typeArguments: [args.coinType],
+    });
+  }
+
+  return depositForBurnTx;
+}
+
+/**
+ * Builds an unsigned PTB replacing a previously sent burn message with a new mint recipient
+ * and/or destination caller through replace_deposit_for_burn. The sender must be the
+ * original message sender.
+ * If `packageAuth` is provided, replace_deposit_for_burn_with_package_auth is called instead
+ * with a ticket created from the given Auth argument, and the Auth type must match the original sender.
+ * @param args.originalMessage raw original message bytes or hex string
+ * @param args.originalAttestation raw original attestation bytes or hex string
+ * @param args.newMintRecipient optional new mint recipient, defaults to the original one
+ * @param args.newDestinationCaller optional new destination caller, defaults to the original one
+ * @param args.deployment CCTP deployment ids
+ * @param args.packageAuth optional Auth argument and type for the package auth flow
+ * @param args.transaction optional transaction to append the calls to
+ */
+export function buildReplaceDepositForBurnTransaction(args: {
+  originalMessage: Uint8Array | string;
+  originalAttestation: Uint8Array | string;
+  newMintRecipient?: string;
+  newDestinationCaller?: string;
+  deployment: CctpDeployment;
+  packageAuth?: { auth: TransactionArgument; authType: string };
+  transaction?: Transaction;
+}): Transaction {
+  if (!args.newMintRecipient && !args.newDestinationCaller) {
+    throw new Error("A new mint recipient or destination caller is required to replace a deposit for burn.");
+  }
+
+  const { deployment } = args;
+  const { tokenMessengerMinterId } = getLatestPackageIds(deployment);
+  const replaceTx = args.transaction ?? new Transaction();
+  const originalMessage = replaceTx.pure.vector("u8", toMessageBytes(args.originalMessage));
+  const originalAttestation = replaceTx.pure.vector("u8", toMessageBytes(args.originalAttestation));
+  const newDestinationCaller = replaceTx.pure.option("address", args.newDestinationCaller ?? null);
+  const newMintRecipient = replaceTx.pure.option("address", args.newMintRecipient ?? null);
+
+  if (args.packageAuth) {
+    // Add create_replace_deposit_for_burn_ticket call
+    const [ticket] = replaceTx.moveCall({
+      target: `${tokenMessengerMinterId}::deposit_for_burn::create_replace_deposit_for_burn_ticket`,
+      arguments: [
+        args.packageAuth.auth, // Auth struct of the original sender package
+        originalMessage, // original message as byte array
+        originalAttestation, // original attestation as byte array
+        newDestinationCaller, // Option<address> destination caller
+        newMintRecipient // Option<address> mint recipient
+      ],
+      typeArguments: [args.packageAuth.authType],
+    });
+
+    // Add replace_deposit_for_burn_with_package_auth call
+    replaceTx.moveCall({
+      target: `${tokenMessengerMinterId}::deposit_for_burn::replace_deposit_for_burn_with_package_auth`,
+      arguments: [
+        ticket, // ReplaceDepositForBurnTicket returned from create_replace_deposit_for_burn_ticket call
+        replaceTx.object(deployment.tokenMessengerMinterStateId), // token_messenger_minter state
+        replaceTx.object(deployment.messageTransmitterStateId) // message_transmitter state
+      ],
+      typeArguments: [args.packageAuth.authType],
+    });
+  } else {
+    replaceTx.moveCall({
+      target: `${tokenMessengerMinterId}::deposit_for_burn::replace_deposit_for_burn`,
+      arguments: [
+        originalMessage, // original message as byte array
+        originalAttestation, // original attestation as byte array
+        newDestinationCaller, // Option<address> destination caller
+        newMintRecipient, // Option<address> mint recipient
+        replaceTx.object(deployment.tokenMessengerMinterStateId), // token_messenger_minter state
+        replaceTx.object(deployment.messageTransmitterStateId) // message_transmitter state
+      ]
+    });
+  }
+
+  return replaceTx;
+}
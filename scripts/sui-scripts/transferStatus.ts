@@ -0,0 +1,301 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { bcs } from "@mysten/sui/bcs";
+import { EventId, PaginatedEvents, SuiClient } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { Web3 } from "web3";
+
+import { AttestationResponse, fetchAttestation } from "./attestation";
+import { parseMessageSentEvents } from "./events";
+import { callViewFunction } from "./helpers";
+import { BurnMessage, decodeBurnMessageFromMessage, decodeMessage, hashMessage, Message, toMessageBytes } from "./message";
+import { CctpDeployment } from "./transactions";
+
+const MESSAGE_SENT_TOPIC = Web3.utils.keccak256("MessageSent(bytes)");
+
+/**
+ * An EVM chain whose MessageTransmitter is searched for messages and used nonces.
+ */
+export interface EvmChain {
+  domain: number;
+  rpcUrl: string;
+  messageTransmitter: string;
+  // First block searched for messages by nonce, defaults to 0.
+  fromBlock?: number;
+}
+
+/**
+ * Identifies a transfer by its source transaction, or by its source domain and nonce.
+ * A source transaction sending several messages is narrowed down with the nonce.
+ */
+export type TransferLookup =
+  | { suiDigest: string; nonce?: bigint }
+  | { evmTxHash: string; evmDomain: number; nonce?: bigint }
+  | { sourceDomain: number; nonce: bigint };
+
+export type TransferStage = "not found" | "burned" | "attested" | "received";
+
+/**
+ * Lifecycle of a transfer: burned on the source chain, attested, and received on the destination chain.
+ */
+export interface TransferStatus {
+  stage: TransferStage;
+  sourceDomain: number;
+  nonce: bigint;
+  // Null if the message could not be found on the source chain.
+  message: { raw: Buffer; hash: string; decoded: Message; burnMessage: BurnMessage | null } | null;
+  // Null if no attestation API was given.
+  attestation: AttestationResponse | null;
+  // Domain the nonce was checked on, and whether it was used there, or null if the destination chain is unknown.
+  destination: { domain: number; nonceUsed: boolean } | null;
+}
+
+/**
+ * Looks up a transfer on its source chain, the attestation API and its destination chain.
+ * If the message is not found, e.g. when it was sent from a chain that isn't Sui or a known EVM chain, the nonce
+ * is still checked on Sui for transfers from other domains.
+ * @param args.attestationApiUrl attestation API to check, or undefined to skip the attestation stage
+ * @throws if the source transaction has no message, or several messages and no nonce was given
+ */
+export async function fetchTransferStatus(args: {
+  client: SuiClient;
+  deployment: CctpDeployment;
+  localDomain: number;
+  evmChains: EvmChain[];
+  lookup: TransferLookup;
+  attestationApiUrl?: string;
+}): Promise<TransferStatus> {
+  const { client, deployment, localDomain, evmChains, lookup } = args;
+
+  let rawMessage: Buffer | null;
+  if ("suiDigest" in lookup) {
+    const response = await client.getTransactionBlock({ digest: lookup.suiDigest, options: { showEvents: true } });
+    rawMessage = selectMessage(parseMessageSentEvents(response), lookup.nonce, lookup.suiDigest);
+  } else if ("evmTxHash" in lookup) {
+    rawMessage = selectMessage(await fetchEvmMessages(getEvmChain(evmChains, lookup.evmDomain), lookup.evmTxHash), lookup.nonce, lookup.evmTxHash);
+  } else if (lookup.sourceDomain === localDomain) {
+    rawMessage = await findSuiMessage(client, deployment.messageTransmitterId, lookup.nonce);
+  } else {
+    // Messages from chains other than Sui and the known EVM chains can't be looked up.
+    const evmChain = evmChains.find((chain) => chain.domain === lookup.sourceDomain);
+    rawMessage = evmChain ? await findEvmMessage(evmChain, lookup.nonce) : null;
+  }
+
+  if (!rawMessage) {
+    // Only lookups by nonce can miss the message, source transactions without one throw.
+    const { sourceDomain, nonce } = lookup as { sourceDomain: number; nonce: bigint };
+    const destination = sourceDomain === localDomain
+      ? null
+      : { domain: localDomain, nonceUsed: await isNonceUsedOnSui(client, deployment, sourceDomain, nonce) };
+    return {
+      stage: destination?.nonceUsed ? "received" : "not found",
+      sourceDomain,
+      nonce,
+      message: null,
+      attestation: null,
+      destination
+    };
+  }
+
+  const decoded = decodeMessage(rawMessage);
+  const hash = hashMessage(rawMessage);
+  let burnMessage: BurnMessage | null = null;
+  try {
+    burnMessage = decodeBurnMessageFromMessage(rawMessage).burnMessage;
+  } catch {
+    // Not a token_messenger_minter message.
+  }
+
+  const attestation = args.attestationApiUrl ? await fetchAttestation(args.attestationApiUrl, hash) : null;
+
+  let destination: TransferStatus["destination"] = null;
+  if (decoded.destinationDomain === localDomain) {
+    destination = { domain: localDomain, nonceUsed: await isNonceUsedOnSui(client, deployment, decoded.sourceDomain, decoded.nonce) };
+  } else {
+    const evmChain = evmChains.find((chain) => chain.domain === decoded.destinationDomain);
+    if (evmChain) {
+      destination = { domain: evmChain.domain, nonceUsed: await isNonceUsedOnEvm(evmChain, decoded.sourceDomain, decoded.nonce) };
+    }
+  }
+
+  return {
+    stage: destination?.nonceUsed ? "received" : attestation?.status === "complete" ? "attested" : "burned",
+    sourceDomain: decoded.sourceDomain,
+    nonce: decoded.nonce,
+    message: { raw: rawMessage, hash, decoded, burnMessage },
+    attestation,
+    destination
+  };
+}
+
+/**
+ * Serializes a transfer status to JSON, with u64 values as decimal strings and bytes as 0x-prefixed hex.
+ */
+export function formatTransferStatusJson(status: TransferStatus): string {
+  return JSON.stringify(status, function (key, value) {
+    const raw = this[key];
+    if (Buffer.isBuffer(raw)) {
+      return `0x${raw.toString("hex")}`;
+    }
+    return typeof value === "bigint" ? value.toString() : value;
+  }, 2);
+}
+
+/**
+ * Formats a transfer status as human-readable text.
+ */
+export function formatTransferStatusText(status: TransferStatus): string {
+  const { message, attestation, destination } = status;
+  const lines = [
+    `Transfer from domain ${status.sourceDomain} with nonce ${status.nonce}: ${status.stage}`,
+    `  burned on source:       ${message ? "yes" : "message not found"}`
+  ];
+  if (message) {
+    lines.push(
+      `  message hash:           ${message.hash}`,
+      `  destination domain:     ${message.decoded.destinationDomain}`,
+      `  destination caller:     ${message.decoded.destinationCaller}`
+    );
+    if (message.burnMessage) {
+      lines.push(
+        `  amount:                 ${message.burnMessage.amount}`,
+        `  burn token:             ${message.burnMessage.burnToken}`,
+        `  mint recipient:         ${message.burnMessage.mintRecipient}`,
+        `  depositor:              ${message.burnMessage.messageSender}`
+      );
+    }
+  }
+  lines.push(`  attestation available:  ${attestation ? attestation.status === "complete" ? "yes" : "pending" : "not checked"}`);
+  lines.push(destination
+    ? `  nonce used on domain ${destination.domain}: ${destination.nonceUsed ? "yes" : "no"}`
+    : "  nonce used on destination: unknown destination chain");
+  return lines.join("\n");
+}
+
+/**
+ * Calls message_transmitter::state::is_nonce_used through devInspect.
+ */
+export async function isNonceUsedOnSui(
+  client: SuiClient,
+  deployment: CctpDeployment,
+  sourceDomain: number,
+  nonce: bigint
+): Promise<boolean> {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${deployment.messageTransmitterId}::state::is_nonce_used`,
+    arguments: [
+      tx.object(deployment.messageTransmitterStateId), // message_transmitter state
+      tx.pure.u32(sourceDomain), // source domain
+      tx.pure.u64(nonce) // nonce
+    ]
+  });
+  const [used] = await callViewFunction({ client, transaction: tx, returnTypes: [bcs.bool()] });
+  return used;
+}
+
+/**
+ * Reads MessageTransmitter.usedNonces, which is keyed by keccak256(abi.encodePacked(sourceDomain, nonce)).
+ */
+export async function isNonceUsedOnEvm(chain: EvmChain, sourceDomain: number, nonce: bigint): Promise<boolean> {
+  const web3 = new Web3(new Web3.providers.HttpProvider(chain.rpcUrl));
+  const sourceAndNonce = web3.utils.encodePacked({ type: "uint32", value: sourceDomain }, { type: "uint64", value: nonce.toString() });
+  const data = web3.eth.abi.encodeFunctionCall(
+    { name: "usedNonces", type: "function", inputs: [{ name: "", type: "bytes32" }] },
+    [web3.utils.keccak256(sourceAndNonce)]
+  );
+  const result = await web3.eth.call({ to: chain.messageTransmitter, data });
+  return BigInt(result) !== BigInt(0);
+}
+
+/**
+ * Returns the raw messages of the MessageSent logs of an EVM transaction.
+ */
+export async function fetchEvmMessages(chain: EvmChain, txHash: string): Promise<Buffer[]> {
+  const web3 = new Web3(new Web3.providers.HttpProvider(chain.rpcUrl));
+  const receipt = await web3.eth.getTransactionReceipt(txHash);
+  return decodeMessageSentLogs(web3, chain, receipt.logs);
+}
+
+/**
+ * Returns the raw messages of the MessageSent logs of an EVM MessageTransmitter in a block range.
+ * @param toBlock last block searched, defaults to the latest block
+ */
+export async function fetchEvmMessagesInBlocks(chain: EvmChain, fromBlock: number, toBlock?: number): Promise<Buffer[]> {
+  const web3 = new Web3(new Web3.providers.HttpProvider(chain.rpcUrl));
+  const logs = await web3.eth.getPastLogs({
+    address: chain.messageTransmitter,
+    topics: [MESSAGE_SENT_TOPIC],
+    fromBlock,
+    toBlock: toBlock ?? "latest"
+  });
+  return decodeMessageSentLogs(web3, chain, logs);
+}
+
+// Searches the MessageSent events of message_transmitter for a nonce, newest first.
+async function findSuiMessage(client: SuiClient, messageTransmitterId: string, nonce: bigint): Promise<Buffer | null> {
+  let cursor: EventId | null | undefined = null;
+  do {
+    const page: PaginatedEvents = await client.queryEvents({
+      query: { MoveEventType: `${messageTransmitterId}::send_message::MessageSent` },
+      cursor,
+      order: "descending"
+    });
+    const message = page.data
+      .map((event) => Buffer.from((event.parsedJson as { message: number[] }).message))
+      .find((raw) => decodeMessage(raw).nonce === nonce);
+    if (message) {
+      return message;
+    }
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+  return null;
+}
+
+// Searches the MessageSent logs of an EVM MessageTransmitter for a nonce.
+async function findEvmMessage(chain: EvmChain, nonce: bigint): Promise<Buffer | null> {
+  const messages = await fetchEvmMessagesInBlocks(chain, chain.fromBlock ?? 0);
+  return messages.find((raw) => decodeMessage(raw).nonce === nonce) ?? null;
+}
+
+function decodeMessageSentLogs(web3: Web3, chain: EvmChain, logs: unknown[]): Buffer[] {
+  return (logs as { address?: string; topics?: string[]; data?: string }[])
+    .filter((log) => log.address?.toLowerCase() === chain.messageTransmitter.toLowerCase() && log.topics?.[0] === MESSAGE_SENT_TOPIC)
+    .map((log) => toMessageBytes(web3.eth.abi.decodeParameter("bytes", log.data as string) as string));
+}
+
+// Picks the message of a source transaction, by nonce if it sent several.
+function selectMessage(messages: Buffer[], nonce: bigint | undefined, transaction: string): Buffer {
+  const candidates = nonce === undefined ? messages : messages.filter((raw) => decodeMessage(raw).nonce === nonce);
+  if (candidates.length === 0) {
+    throw new Error(`Transaction ${transaction} sent no message${nonce === undefined ? "" : ` with nonce ${nonce}`}.`);
+  }
+  if (candidates.length > 1) {
+    throw new Error(`Transaction ${transaction} sent ${candidates.length} messages, pass the nonce of one of them.`);
+  }
+  return candidates[0];
+}
+
+function getEvmChain(evmChains: EvmChain[], domain: number): EvmChain {
+  const chain = evmChains.find((evmChain) => evmChain.domain === domain);
+  if (!chain) {
+    throw new Error(`Domain ${domain} is not a known EVM chain.`);
+  }
+  return chain;
+}
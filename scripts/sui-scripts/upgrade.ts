@@ -0,0 +1,295 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { bcs } from "@mysten/sui/bcs";
+import { SuiClient } from "@mysten/sui/client";
+import { Signer } from "@mysten/sui/cryptography";
+import { Transaction, UpgradePolicy } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { execSync } from "child_process";
+
+import { CCTP_PACKAGES, CctpPackage, getPackageIds } from "./admin";
+import { callViewFunction, executeTransactionHelper } from "./helpers";
+import { CctpDeployment } from "./transactions";
+
+export const MIGRATION_STEPS = ["start_migration", "abort_migration", "complete_migration"] as const;
+export type MigrationStep = typeof MIGRATION_STEPS[number];
+
+export type CompatibleVersions = Record<CctpPackage, number[]>;
+
+/**
+ * Output of `sui move build --dump-bytecode-as-base64`.
+ */
+export interface PackageBuild {
+  modules: string[];
+  dependencies: string[];
+  digest: number[];
+}
+
+/**
+ * Builds a Move package for an upgrade. The package's Move.toml and Move.lock must resolve it and its
+ * dependencies to their published addresses on the active Sui CLI environment.
+ */
+export function buildPackage(packagePath: string): PackageBuild {
+  const rawBuildOutput = execSync(`sui move build --dump-bytecode-as-base64 --path ${packagePath}`, {
+    encoding: "utf-8"
+  });
+  return JSON.parse(rawBuildOutput);
+}
+
+/**
+ * Reads version_control::current_version of a package version.
+ */
+export async function fetchCurrentVersion(client: SuiClient, packageId: string): Promise<number> {
+  const tx = new Transaction();
+  tx.moveCall({ target: `${packageId}::version_control::current_version` });
+  const [version] = await callViewFunction({ client, transaction: tx, returnTypes: [bcs.u64()] });
+  return Number(version);
+}
+
+/**
+ * Reads the package versions each State object is compatible with.
+ * @param packageIds package versions to call the getters on, defaulting to the deployment's. Getters don't check
+ * versions, so any version works.
+ */
+export async function fetchCompatibleVersions(
+  client: SuiClient,
+  deployment: CctpDeployment,
+  packageIds: Partial<Record<CctpPackage, string>> = {}
+): Promise<CompatibleVersions> {
+  const compatibleVersions = {} as CompatibleVersions;
+  for (const cctpPackage of CCTP_PACKAGES) {
+    const { packageId, stateId } = getPackageIds(deployment, cctpPackage);
+    const tx = new Transaction();
+    tx.moveCall({
+      target: `${packageIds[cctpPackage] ?? packageId}::state::compatible_versions`,
+      arguments: [tx.object(stateId)] // State object
+    });
+    const [versions] = await callViewFunction({
+      client,
+      transaction: tx,
+      returnTypes: [bcs.struct("VecSet", { contents: bcs.vector(bcs.u64()) })]
+    });
+    compatibleVersions[cctpPackage] = versions.contents.map(Number).sort((a, b) => a - b);
+  }
+  return compatibleVersions;
+}
+
+/**
+ * Returns the compatible versions of a State object after a migration step called from the package at
+ * `packageVersion`, mirroring the checks of the migration module.
+ * @throws if the step would abort, naming the Move error
+ */
+export function checkMigrationStep(compatibleVersions: number[], step: MigrationStep, packageVersion: number): number[] {
+  const [activeVersion, pendingVersion] = compatibleVersions;
+  switch (step) {
+    case "start_migration":
+      if (compatibleVersions.length !== 1) {
+        throw new Error(`A migration to version ${pendingVersion} is already started (EMigrationStarted).`);
+      }
+      if (activeVersion >= packageVersion) {
+        throw new Error(`The State is already at version ${activeVersion}, not older than version ${packageVersion} (EObjectMigrated).`);
+      }
+      return [activeVersion, packageVersion];
+    case "abort_migration":
+    case "complete_migration":
+      if (compatibleVersions.length !== 2) {
+        throw new Error("No migration is started (EMigrationNotStarted).");
+      }
+      if (pendingVersion !== packageVersion) {
+        throw new Error(`The pending version is ${pendingVersion}, but the package is at version ${packageVersion} (ENotPendingVersion).`);
+      }
+      return step === "abort_migration" ? [activeVersion] : [pendingVersion];
+  }
+}
+
+/**
+ * Builds an unsigned PTB calling a migration entry function. Migration steps must be called from the
+ * package version being migrated to.
+ * @param args.packageId id of the upgraded package version
+ * @param args.stateId id of the package's State object
+ */
+export function buildMigrationTransaction(args: {
+  packageId: string;
+  stateId: string;
+  step: MigrationStep;
+  transaction?: Transaction;
+}): Transaction {
+  const migrationTx = args.transaction ?? new Transaction();
+  migrationTx.moveCall({
+    target: `${args.packageId}::migration::${args.step}`,
+    arguments: [migrationTx.object(args.stateId)] // State object
+  });
+  return migrationTx;
+}
+
+/**
+ * Reads the type of a package's UpgradeService<T> object, which is created by the initialize module's init.
+ * @returns the sui_extensions package id and the type argument of the UpgradeService
+ */
+export async function fetchUpgradeServiceType(
+  client: SuiClient,
+  upgradeServiceId: string
+): Promise<{ suiExtensionsId: string; witnessType: string }> {
+  const object = await client.getObject({ id: upgradeServiceId, options: { showType: true } });
+  const match = object.data?.type?.match(/^(0x[0-9a-fA-F]+)::upgrade_service::UpgradeService<(.+)>$/);
+  if (!match) {
+    throw new Error(`Object ${upgradeServiceId} is not an UpgradeService, found ${object.data?.type ?? "no object"}.`);
+  }
+  return { suiExtensionsId: normalizeSuiAddress(match[1]), witnessType: match[2] };
+}
+
+/**
+ * Returns the id of an UpgradeCap owned by the given address for a package, or null if it owns none.
+ * The UpgradeCap stays with the publisher until it is deposited in the UpgradeService.
+ */
+export async function findOwnedUpgradeCap(client: SuiClient, owner: string, packageId: string): Promise<string | null> {
+  let cursor: string | null | undefined = null;
+  do {
+    const page = await client.getOwnedObjects({
+      owner,
+      filter: { StructType: "0x2::package::UpgradeCap" },
+      options: { showContent: true },
+      cursor
+    });
+    const upgradeCap = page.data.find((object) => {
+      const content = object.data?.content;
+      return content?.dataType === "moveObject" &&
+        normalizeSuiAddress((content.fields as { package: string }).package) === normalizeSuiAddress(packageId);
+    });
+    if (upgradeCap?.data) {
+      return upgradeCap.data.objectId;
+    }
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+  return null;
+}
+
+/**
+ * Builds an unsigned PTB upgrading a package through its UpgradeService: authorize_upgrade, the upgrade
+ * itself and commit_upgrade. The transaction must be signed by the UpgradeService admin.
+ * @param args.packageId id of the package version being upgraded
+ * @param args.upgradeCapId UpgradeCap to deposit in the UpgradeService first, if it was not yet
+ */
+export function buildUpgradeTransaction(args: {
+  suiExtensionsId: string;
+  upgradeServiceId: string;
+  witnessType: string;
+  packageId: string;
+  build: PackageBuild;
+  upgradeCapId?: string;
+}): Transaction {
+  const { suiExtensionsId, witnessType } = args;
+  const upgradeTx = new Transaction();
+
+  if (args.upgradeCapId) {
+    upgradeTx.moveCall({
+      target: `${suiExtensionsId}::upgrade_service::deposit`,
+      typeArguments: [witnessType],
+      arguments: [
+        upgradeTx.object(args.upgradeServiceId), // UpgradeService object
+        upgradeTx.object(args.upgradeCapId) // UpgradeCap of the package
+      ]
+    });
+  }
+
+  const [upgradeTicket] = upgradeTx.moveCall({
+    target: `${suiExtensionsId}::upgrade_service::authorize_upgrade`,
+    typeArguments: [witnessType],
+    arguments: [
+      upgradeTx.object(args.upgradeServiceId), // UpgradeService object
+      upgradeTx.pure.u8(UpgradePolicy.COMPATIBLE), // upgrade policy
+      upgradeTx.pure.vector("u8", args.build.digest) // package digest
+    ]
+  });
+
+  const upgradeReceipt = upgradeTx.upgrade({
+    modules: args.build.modules,
+    dependencies: args.build.dependencies,
+    package: args.packageId,
+    ticket: upgradeTicket
+  });
+
+  upgradeTx.moveCall({
+    target: `${suiExtensionsId}::upgrade_service::commit_upgrade`,
+    typeArguments: [witnessType],
+    arguments: [
+      upgradeTx.object(args.upgradeServiceId), // UpgradeService object
+      upgradeReceipt // UpgradeReceipt from the upgrade
+    ]
+  });
+
+  return upgradeTx;
+}
+
+/**
+ * Runs a migration step from an upgraded package version, checking the compatible versions of both State
+ * objects before and after it: the migrated package's must change as the migration module does, and the
+ * other package's must not change.
+ * @param args.packageId id of the upgraded package version
+ * @throws if the step would abort, or if the State objects don't end up in the expected versions
+ * @returns the compatible versions after the step
+ */
+export async function executeMigrationStep(args: {
+  client: SuiClient;
+  deployment: CctpDeployment;
+  signer: Signer;
+  cctpPackage: CctpPackage;
+  packageId: string;
+  step: MigrationStep;
+  onExecuted?: (digest: string) => void;
+}): Promise<CompatibleVersions> {
+  const { client, deployment, cctpPackage, packageId } = args;
+  const packageVersion = await fetchCurrentVersion(client, packageId);
+  const before = await fetchCompatibleVersions(client, deployment);
+  const expected = { ...before, [cctpPackage]: checkMigrationStep(before[cctpPackage], args.step, packageVersion) };
+
+  const transaction = buildMigrationTransaction({
+    packageId,
+    stateId: getPackageIds(deployment, cctpPackage).stateId,
+    step: args.step
+  });
+  // Aborts of the upgraded package are decoded too, although the manifest isn't updated with it yet.
+  const output = await executeTransactionHelper({
+    client,
+    signer: args.signer,
+    transaction,
+    deployment: {
+      ...deployment,
+      [cctpPackage === "message_transmitter" ? "messageTransmitterLatestId" : "tokenMessengerMinterLatestId"]: packageId
+    }
+  });
+  args.onExecuted?.(output.digest);
+
+  const after = await fetchCompatibleVersions(client, deployment);
+  checkCompatibleVersions(after, expected);
+  return after;
+}
+
+/**
+ * @throws if the compatible versions of either State object differ from the expected ones
+ */
+export function checkCompatibleVersions(actual: CompatibleVersions, expected: CompatibleVersions) {
+  for (const cctpPackage of CCTP_PACKAGES) {
+    if (actual[cctpPackage].join() !== expected[cctpPackage].join()) {
+      throw new Error(
+        `${cctpPackage} State is compatible with versions [${actual[cctpPackage]}], expected [${expected[cctpPackage]}].`
+      );
+    }
+  }
+}
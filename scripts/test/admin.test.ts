@@ -0,0 +1,272 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { bcs } from "@mysten/sui/bcs";
+import { SuiClient } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { keccak256 } from "ethereumjs-util";
+
+import {
+  AttesterManagerAction,
+  buildAttesterManagerTransaction,
+  buildRemoteTokenMessengerTransaction,
+  buildRoleManagementTransaction,
+  buildTokenControllerTransaction,
+  checkAttesterManagerAction,
+  fetchAttesterManagerState,
+  fetchAddedRemoteDomains,
+  fetchPackageRoles,
+  fetchRemoteTokenMessengers,
+  fetchTokenControllerState,
+  getRequiredSigner,
+  getSuiTokenMessengerAddress,
+  planAttesterRotation
+} from "../sui-scripts/admin";
+import { AttesterState } from "../sui-scripts/attestation";
+import { CctpDeployment } from "../sui-scripts/transactions";
+
+const deployment: CctpDeployment = {
+  messageTransmitterId: normalizeSuiAddress("0x1"),
+  messageTransmitterStateId: normalizeSuiAddress("0x2"),
+  tokenMessengerMinterId: normalizeSuiAddress("0x3"),
+  tokenMessengerMinterStateId: normalizeSuiAddress("0x4"),
+  treasuryId: normalizeSuiAddress("0x5")
+};
+const OWNER = normalizeSuiAddress("0xa");
+const PAUSER = normalizeSuiAddress("0xb");
+const ROLE_MANAGER = normalizeSuiAddress("0xc");
+
+// Returns a client whose devInspect answers the getter called by the last command of a transaction.
+const mockViewClient = (values: Record<string, Uint8Array>) => ({
+  devInspectTransactionBlock: async ({ transactionBlock }: { transactionBlock: Transaction }) => {
+    const commands = transactionBlock.getData().commands;
+    const call = commands[commands.length - 1].MoveCall!;
+    return {
+      results: commands.map((_, i) => i === commands.length - 1
+        ? { returnValues: [[Array.from(values[`${call.module}::${call.function}`]), "type"]] }
+        : {})
+    };
+  }
+}) as unknown as SuiClient;
+
+// Returns the `module::function` and argument kinds of each Move call in a transaction.
+const moveCalls = (transaction: Transaction) => transaction.getData().commands.map((command) => ({
+  target: `${command.MoveCall!.package}::${command.MoveCall!.module}::${command.MoveCall!.function}`,
+  arguments: command.MoveCall!.arguments.map((argument) => argument.$kind)
+}));
+
+describe("Role management", () => {
+  test("reads the role holders of each package", async () => {
+    const client = mockViewClient({
+      "state::paused": bcs.bool().serialize(true).toBytes(),
+      "roles::owner": bcs.Address.serialize(OWNER).toBytes(),
+      "roles::pending_owner": bcs.option(bcs.Address).serialize(null).toBytes(),
+      "roles::pauser": bcs.Address.serialize(PAUSER).toBytes(),
+      "roles::attester_manager": bcs.Address.serialize(ROLE_MANAGER).toBytes(),
+      "roles::token_controller": bcs.Address.serialize(ROLE_MANAGER).toBytes()
+    });
+
+    const roles = await fetchPackageRoles(client, deployment, "message_transmitter");
+    expect(roles).toEqual({ owner: OWNER, pendingOwner: null, pauser: PAUSER, attesterManager: ROLE_MANAGER, paused: true });
+    expect(getRequiredSigner(roles, "unpause")).toBe(PAUSER);
+    expect(getRequiredSigner(roles, "transfer_ownership")).toBe(OWNER);
+    expect(getRequiredSigner(roles, "accept_ownership")).toBeNull();
+
+    await expect(fetchPackageRoles(client, deployment, "token_messenger_minter")).resolves.toEqual({
+      owner: OWNER,
+      pendingOwner: null,
+      pauser: PAUSER,
+      tokenController: ROLE_MANAGER,
+      paused: true
+    });
+  });
+
+  test("calls the entry function on the package state", () => {
+    expect(moveCalls(buildRoleManagementTransaction({ deployment, cctpPackage: "token_messenger_minter", action: "pause" }))).toEqual([
+      { target: `${deployment.tokenMessengerMinterId}::pausable::pause`, arguments: ["Input"] }
+    ]);
+    expect(moveCalls(buildRoleManagementTransaction({
+      deployment,
+      cctpPackage: "message_transmitter",
+      action: "transfer_ownership",
+      address: OWNER
+    }))).toEqual([
+      { target: `${deployment.messageTransmitterId}::role_management::transfer_ownership`, arguments: ["Input", "Input"] }
+    ]);
+  });
+
+  test("rejects actions the package does not support", () => {
+    expect(() => buildRoleManagementTransaction({ deployment, cctpPackage: "token_messenger_minter", action: "update_attester_manager", address: OWNER }))
+      .toThrow("update_attester_manager only exists on message_transmitter.");
+    expect(() => buildRoleManagementTransaction({ deployment, cctpPackage: "message_transmitter", action: "update_pauser" }))
+      .toThrow("update_pauser requires a new address.");
+  });
+});
+
+describe("Attester management", () => {
+  const ATTESTER_A = "0x23618e81e3f5cdf7f54c3d65f7fbc0abf5b21e8f";
+  const ATTESTER_B = "0x70997970c51812dc3a010c7d01b50e0d17dc79c8";
+  const ATTESTER_C = "0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc";
+  const state: AttesterState = {
+    signatureThreshold: 1,
+    enabledAttesters: [normalizeSuiAddress(ATTESTER_A), normalizeSuiAddress(ATTESTER_B)]
+  };
+
+  test("reads the enabled attesters, signature threshold and attester manager", async () => {
+    const client = mockViewClient({
+      "state::enabled_attesters": bcs.vector(bcs.Address).serialize([ATTESTER_A, ATTESTER_B]).toBytes(),
+      "state::signature_threshold": bcs.u64().serialize(1).toBytes(),
+      "roles::attester_manager": bcs.Address.serialize(ROLE_MANAGER).toBytes()
+    });
+
+    await expect(fetchAttesterManagerState(client, deployment)).resolves.toEqual({ ...state, attesterManager: ROLE_MANAGER });
+  });
+
+  test("returns the state expected after an action", () => {
+    expect(checkAttesterManagerAction(state, { type: "enable_attester", attester: ATTESTER_C }).enabledAttesters)
+      .toEqual([...state.enabledAttesters, normalizeSuiAddress(ATTESTER_C)]);
+    expect(checkAttesterManagerAction(state, { type: "disable_attester", attester: ATTESTER_A }).enabledAttesters)
+      .toEqual([normalizeSuiAddress(ATTESTER_B)]);
+    expect(checkAttesterManagerAction(state, { type: "set_signature_threshold", signatureThreshold: 2 }).signatureThreshold).toBe(2);
+  });
+
+  test.each([
+    ["EAttesterAlreadyEnabled", { type: "enable_attester", attester: ATTESTER_A }, state],
+    ["ETooFewAttestersEnabled", { type: "disable_attester", attester: ATTESTER_A }, { ...state, enabledAttesters: [normalizeSuiAddress(ATTESTER_A)] }],
+    ["ETooFewEnabledAttesters", { type: "disable_attester", attester: ATTESTER_A }, { ...state, signatureThreshold: 2 }],
+    ["EAttesterNotEnabled", { type: "disable_attester", attester: ATTESTER_C }, state],
+    ["EInvalidSignatureThreshold", { type: "set_signature_threshold", signatureThreshold: 0 }, state],
+    ["ESignatureThresholdTooHigh", { type: "set_signature_threshold", signatureThreshold: 3 }, state],
+    ["ESignatureThresholdAlreadySet", { type: "set_signature_threshold", signatureThreshold: 1 }, state]
+  ] as [string, AttesterManagerAction, AttesterState][])("refuses an action that would abort with %s", (error, action, current) => {
+    expect(() => checkAttesterManagerAction(current, action)).toThrow(`(${error}).`);
+  });
+
+  test("plans an attester rotation in order", () => {
+    expect(planAttesterRotation(state, { oldAttester: ATTESTER_A, newAttester: ATTESTER_C, signatureThreshold: 2 })).toEqual([
+      { type: "enable_attester", attester: ATTESTER_C },
+      { type: "set_signature_threshold", signatureThreshold: 2 },
+      { type: "disable_attester", attester: ATTESTER_A }
+    ]);
+    expect(planAttesterRotation(state, { oldAttester: ATTESTER_A, newAttester: ATTESTER_C, signatureThreshold: 1 })).toHaveLength(2);
+
+    // With 3 attesters enabled, a threshold of 3 can't be kept once the old attester is disabled.
+    expect(() => planAttesterRotation(state, { oldAttester: ATTESTER_A, newAttester: ATTESTER_C, signatureThreshold: 3 }))
+      .toThrow("ETooFewEnabledAttesters");
+  });
+
+  test("calls the attester_manager entry function", () => {
+    const transaction = buildAttesterManagerTransaction({ deployment, action: { type: "set_signature_threshold", signatureThreshold: 2 } });
+
+    expect(moveCalls(transaction)).toEqual([
+      { target: `${deployment.messageTransmitterId}::attester_manager::set_signature_threshold`, arguments: ["Input", "Input"] }
+    ]);
+  });
+});
+
+describe("Token controller", () => {
+  const COIN_TYPE = `${normalizeSuiAddress("0x6")}::usdc::USDC`;
+  const TOKEN_ID = normalizeSuiAddress("0x7");
+  const REMOTE_TOKEN = "0x700b6a60ce7eaaea56f065753d8dcb9653dbad35";
+
+  test("reads the burn limit, mint cap and token pairs of a coin", async () => {
+    const client = mockViewClient({
+      "token_utils::calculate_token_id": bcs.Address.serialize(TOKEN_ID).toBytes(),
+      "state::burn_limit_for_token_id_exists": bcs.bool().serialize(true).toBytes(),
+      "state::burn_limit_from_token_id": bcs.u64().serialize(100000).toBytes(),
+      "state::mint_cap_for_local_token_exists": bcs.bool().serialize(false).toBytes(),
+      "state::local_token_from_remote_token_exists": bcs.bool().serialize(true).toBytes(),
+      "state::local_token_from_remote_token": bcs.Address.serialize(TOKEN_ID).toBytes()
+    });
+
+    await expect(fetchTokenControllerState(client, deployment, COIN_TYPE, [{ remoteDomain: 0, remoteToken: REMOTE_TOKEN }])).resolves.toEqual({
+      coinType: COIN_TYPE,
+      tokenId: TOKEN_ID,
+      burnLimitPerMessage: BigInt(100000),
+      mintCapAdded: false,
+      tokenPairs: [{ remoteDomain: 0, remoteToken: normalizeSuiAddress(REMOTE_TOKEN), localToken: TOKEN_ID }]
+    });
+  });
+
+  test("calls the token_controller entry functions with the coin type", () => {
+    const transaction = buildTokenControllerTransaction({
+      deployment,
+      coinType: COIN_TYPE,
+      action: { type: "link_token_pair", remoteDomain: 0, remoteToken: REMOTE_TOKEN }
+    });
+    buildTokenControllerTransaction({
+      deployment,
+      coinType: COIN_TYPE,
+      action: { type: "remove_stablecoin_mint_cap", treasuryId: deployment.treasuryId },
+      transaction
+    });
+
+    expect(moveCalls(transaction)).toEqual([
+      { target: `${deployment.tokenMessengerMinterId}::token_controller::link_token_pair`, arguments: ["Input", "Input", "Input"] },
+      { target: `${deployment.tokenMessengerMinterId}::token_controller::remove_stablecoin_mint_cap`, arguments: ["Input", "Input"] }
+    ]);
+    expect(transaction.getData().commands.map((command) => command.MoveCall!.typeArguments)).toEqual([[COIN_TYPE], [COIN_TYPE]]);
+  });
+});
+
+describe("Remote token messengers", () => {
+  const REMOTE_TOKEN_MESSENGER = "0x057ef64e23666f000b34ae31332854acbd1c8544";
+
+  test("derives the Sui token messenger address from the authenticator type", () => {
+    const expected = `0x${keccak256(Buffer.from(
+      `${"0".repeat(63)}3::message_transmitter_authenticator::MessageTransmitterAuthenticator`
+    )).toString("hex")}`;
+
+    expect(getSuiTokenMessengerAddress(deployment.tokenMessengerMinterId)).toBe(expected);
+    expect(getSuiTokenMessengerAddress("0x3")).toBe(expected);
+  });
+
+  test("reads the token messenger of each domain", async () => {
+    const client = mockViewClient({
+      "state::remote_token_messenger_for_remote_domain_exists": bcs.bool().serialize(true).toBytes(),
+      "state::remote_token_messenger_from_remote_domain": bcs.Address.serialize(REMOTE_TOKEN_MESSENGER).toBytes()
+    });
+
+    await expect(fetchRemoteTokenMessengers(client, deployment, [0])).resolves.toEqual([
+      { domain: 0, tokenMessenger: normalizeSuiAddress(REMOTE_TOKEN_MESSENGER) }
+    ]);
+  });
+
+  test("lists the domains of every RemoteTokenMessengerAdded event", async () => {
+    const queryEvents = jest.fn()
+      .mockResolvedValueOnce({ data: [{ parsedJson: { domain: 6 } }, { parsedJson: { domain: 0 } }], hasNextPage: true, nextCursor: { txDigest: "a", eventSeq: "1" } })
+      .mockResolvedValueOnce({ data: [{ parsedJson: { domain: 0 } }], hasNextPage: false, nextCursor: null });
+
+    await expect(fetchAddedRemoteDomains({ queryEvents } as unknown as SuiClient, deployment.tokenMessengerMinterId)).resolves.toEqual([0, 6]);
+    expect(queryEvents).toHaveBeenLastCalledWith({
+      query: { MoveEventType: `${deployment.tokenMessengerMinterId}::remote_token_messenger::RemoteTokenMessengerAdded` },
+      cursor: { txDigest: "a", eventSeq: "1" }
+    });
+  });
+
+  test("calls add or remove depending on the token messenger", () => {
+    const transaction = buildRemoteTokenMessengerTransaction({ deployment, domain: 0, tokenMessenger: REMOTE_TOKEN_MESSENGER });
+    buildRemoteTokenMessengerTransaction({ deployment, domain: 0, transaction });
+
+    expect(moveCalls(transaction)).toEqual([
+      { target: `${deployment.tokenMessengerMinterId}::remote_token_messenger::add_remote_token_messenger`, arguments: ["Input", "Input", "Input"] },
+      { target: `${deployment.tokenMessengerMinterId}::remote_token_messenger::remove_remote_token_messenger`, arguments: ["Input", "Input"] }
+    ]);
+  });
+});
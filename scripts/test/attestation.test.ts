@@ -0,0 +1,190 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as ethutil from "ethereumjs-util";
+import { Web3 } from "web3";
+
+import {
+  AttestationVerificationError,
+  AttestationVerificationFailure,
+  AttesterState,
+  attesterAddressFromPrivateKey,
+  createHttpAttestationProvider,
+  createLocalAttestationProvider,
+  createLocalAttesterSet,
+  fetchAttestation,
+  LOCAL_ATTESTER_PRIVATE_KEY,
+  verifyAttestation
+} from "../sui-scripts/attestation";
+import { attestToMessage } from "../sui-scripts/helpers";
+import { hashMessage, normalizeAddress } from "../sui-scripts/message";
+import { MockAttestationServer, startMockAttestationServer } from "../sui-scripts/mockAttestationServer";
+
+// Test vector taken from message_transmitter::message
+const RAW_MESSAGE = "0x000000000000000000000001000000000003f3140000000000000000000000009f3b8679c73c2fef8b59b4f3444d4e156fb70aa5000000000000000000000000eb08f243e5d3fcff26a9e38ae5520a669f4019d00000000000000000000000001f26414439c8d03fc4b9ca912cefd5cb508c9605000000000000000000000000000000001c7d4b196cb0c7b01d743fbc6116a902379c72380000000000000000000000001f26414439c8d03fc4b9ca912cefd5cb508c960500000000000000000000000000000000000000000000000000000000000004be0000000000000000000000003b61abee91852714e4e99b09a1af3e9c13893ef1";
+
+describe("Attestation providers", () => {
+  let server: MockAttestationServer;
+
+  beforeEach(async () => {
+    server = await startMockAttestationServer({ pendingPolls: 2 });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  test("local provider matches the local attestToMessage helper", async () => {
+    const attestation = await createLocalAttestationProvider().getAttestation(RAW_MESSAGE);
+
+    expect(attestation).toBe(attestToMessage(new Web3(), RAW_MESSAGE));
+    expect(attestation.length).toBe(2 + 65 * 2);
+  });
+
+  test("reports unknown and pending messages as pending", async () => {
+    const messageHash = hashMessage(RAW_MESSAGE);
+    expect(await fetchAttestation(server.url, messageHash)).toEqual({ status: "pending" });
+
+    await server.submitMessage(RAW_MESSAGE);
+    expect(await fetchAttestation(server.url, messageHash)).toEqual({ status: "pending" });
+  });
+
+  test("HTTP provider polls until the attestation is complete", async () => {
+    const messageHash = await server.submitMessage(RAW_MESSAGE);
+    const provider = createHttpAttestationProvider({ url: server.url, initialDelayMs: 10, maxDelayMs: 20 });
+
+    const attestation = await provider.getAttestation(Buffer.from(RAW_MESSAGE.slice(2), "hex"));
+
+    expect(attestation).toBe(await createLocalAttestationProvider().getAttestation(RAW_MESSAGE));
+    expect(server.requestCount(messageHash)).toBe(3);
+  });
+
+  test("HTTP provider times out if the attestation never completes", async () => {
+    const provider = createHttpAttestationProvider({ url: server.url, initialDelayMs: 10, timeoutMs: 50 });
+
+    await expect(provider.getAttestation(RAW_MESSAGE)).rejects.toThrow("Timed out");
+  });
+});
+
+describe("Local attester set", () => {
+  // Keys taken from the default Anvil accounts.
+  const attesterSet = createLocalAttesterSet([
+    LOCAL_ATTESTER_PRIVATE_KEY,
+    "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+    "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a"
+  ]);
+  const attesterAddresses = attesterSet.attesters.map((attester) => attester.address);
+
+  // Recovers the signer addresses of a concatenated attestation.
+  const recoverSigners = (attestation: string) => {
+    const bytes = Buffer.from(attestation.slice(2), "hex");
+    const messageHash = ethutil.toBuffer(hashMessage(RAW_MESSAGE));
+    const signers: string[] = [];
+    for (let i = 0; i < bytes.length; i += 65) {
+      const publicKey = ethutil.ecrecover(messageHash, bytes[i + 64], bytes.subarray(i, i + 32), bytes.subarray(i + 32, i + 64));
+      signers.push(`0x${ethutil.publicToAddress(publicKey).toString("hex")}`);
+    }
+    return signers;
+  };
+
+  test("sorts attesters by increasing address", () => {
+    expect(attesterAddresses).toEqual([...attesterAddresses].sort());
+    expect(attesterAddresses).toContain(attesterAddressFromPrivateKey(LOCAL_ATTESTER_PRIVATE_KEY));
+  });
+
+  test("produces sorted attestations for any threshold", async () => {
+    expect(recoverSigners(attesterSet.attest(RAW_MESSAGE))).toEqual(attesterAddresses);
+    expect(recoverSigners(attesterSet.attest(RAW_MESSAGE, { threshold: 2 }))).toEqual(attesterAddresses.slice(0, 2));
+    expect(recoverSigners(await attesterSet.provider(1).getAttestation(RAW_MESSAGE))).toEqual(attesterAddresses.slice(0, 1));
+  });
+
+  test("produces faulty attestations", () => {
+    expect(recoverSigners(attesterSet.attest(RAW_MESSAGE, { threshold: 2, fault: "duplicate" })))
+      .toEqual([attesterAddresses[0], attesterAddresses[0]]);
+    expect(recoverSigners(attesterSet.attest(RAW_MESSAGE, { fault: "unsorted" })))
+      .toEqual([...attesterAddresses].reverse());
+
+    const wrongSigners = recoverSigners(attesterSet.attest(RAW_MESSAGE, { threshold: 2, fault: "wrongSigner" }));
+    expect(wrongSigners).toEqual([...wrongSigners].sort());
+    expect(wrongSigners.filter((signer) => !attesterAddresses.includes(signer)).length).toBe(1);
+  });
+
+  test("rejects invalid thresholds", () => {
+    expect(() => attesterSet.attest(RAW_MESSAGE, { threshold: 4 })).toThrow("Invalid threshold");
+    expect(() => attesterSet.attest(RAW_MESSAGE, { threshold: 1, fault: "unsorted" })).toThrow("at least 2");
+  });
+});
+
+describe("Attestation verification", () => {
+  // Test vectors taken from message_transmitter::attestation
+  const FIRST_ATTESTER = "0x0000000000000000000000000ce39e399e2038c435cc097833d5c58f5e9a7e98";
+  const SECOND_ATTESTER = "0x000000000000000000000000c0b11b8850107de6e92cf63e3b2ccb179b72f21c";
+  const FIRST_ATTESTATION = "16a47e516fca2826c186fdd1ea00ac3c48e46d41d3756187b5f83424b76633dd7f9a45bd9ee5b3cc187de0a40ee20c8841d77ee0933e6d83a626060f15fbb1e51b";
+  const SECOND_ATTESTATION = "4bff09dbfcca2ddb8af1cf8e14670f19096e6de130af14cb7ce21b1e9ccfa76c025d1eddf2dee7f0915861d87d423b62d3afa286f110eef38f6c27f3ccc4169d1c";
+  const attesterState = { signatureThreshold: 2, enabledAttesters: [FIRST_ATTESTER, SECOND_ATTESTER] };
+
+  // Asserts that verification fails with the given reason.
+  const expectFailure = (attestation: string, state: AttesterState, reason: AttestationVerificationFailure, signer?: string) => {
+    try {
+      verifyAttestation(RAW_MESSAGE, attestation, state);
+    } catch (err) {
+      expect(err).toBeInstanceOf(AttestationVerificationError);
+      expect((err as AttestationVerificationError).reason).toBe(reason);
+      expect((err as AttestationVerificationError).signer).toBe(signer);
+      return;
+    }
+    throw new Error("Expected attestation verification to fail.");
+  };
+
+  test("recovers sorted enabled signers", () => {
+    expect(verifyAttestation(RAW_MESSAGE, `0x${FIRST_ATTESTATION}${SECOND_ATTESTATION}`, attesterState))
+      .toEqual([FIRST_ATTESTER, SECOND_ATTESTER]);
+  });
+
+  test("rejects an attestation with the wrong number of signatures", () => {
+    expectFailure(`0x${FIRST_ATTESTATION}`, attesterState, "EInvalidAttestationLength");
+  });
+
+  test("rejects unsorted and duplicate signers", () => {
+    expectFailure(`0x${SECOND_ATTESTATION}${FIRST_ATTESTATION}`, attesterState, "EInvalidSignatureOrder", FIRST_ATTESTER);
+    expectFailure(`0x${FIRST_ATTESTATION}${FIRST_ATTESTATION}`, attesterState, "EInvalidSignatureOrder", FIRST_ATTESTER);
+  });
+
+  test("rejects signers that are not enabled", () => {
+    expectFailure(
+      `0x${FIRST_ATTESTATION}${SECOND_ATTESTATION}`,
+      { signatureThreshold: 2, enabledAttesters: [FIRST_ATTESTER] },
+      "ESignerIsNotAttester",
+      SECOND_ATTESTER
+    );
+  });
+
+  test("rejects high s values and invalid recovery ids", () => {
+    const state = { signatureThreshold: 1, enabledAttesters: [FIRST_ATTESTER] };
+    expectFailure(`0x${FIRST_ATTESTATION.slice(0, 64)}${"f".repeat(64)}1b`, state, "EInvalidSignatureSValue");
+    expectFailure(`0x${FIRST_ATTESTATION.slice(0, 128)}1d`, state, "EInvalidSignatureRecoveryId");
+  });
+
+  test("accepts attestations from the local attester set", () => {
+    const attesterSet = createLocalAttesterSet([LOCAL_ATTESTER_PRIVATE_KEY, "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d"]);
+    const state = { signatureThreshold: 2, enabledAttesters: attesterSet.attesters.map((attester) => attester.address) };
+
+    expect(verifyAttestation(RAW_MESSAGE, attesterSet.attest(RAW_MESSAGE), state).length).toBe(2);
+    expectFailure(attesterSet.attest(RAW_MESSAGE, { fault: "unsorted" }), state, "EInvalidSignatureOrder", normalizeAddress(attesterSet.attesters[0].address));
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { attesterAddressFromPrivateKey, LOCAL_ATTESTER_PRIVATE_KEY } from "../sui-scripts/attestation";
+import { DEFAULT_DEPLOYMENT_CONFIG_PATH, readDeploymentConfig, validateDeploymentConfig } from "../sui-scripts/deploymentConfig";
+
+describe("Deployment config", () => {
+  const localnetConfig = readDeploymentConfig(DEFAULT_DEPLOYMENT_CONFIG_PATH);
+
+  test("localnet config matches the local attester and EVM contracts", () => {
+    expect(localnetConfig.localDomain).toBe(8);
+    expect(localnetConfig.attesters).toEqual([attesterAddressFromPrivateKey(LOCAL_ATTESTER_PRIVATE_KEY)]);
+    expect(localnetConfig.signatureThreshold).toBe(1);
+    expect(localnetConfig.remoteDomains.map((remoteDomain) => remoteDomain.domain)).toEqual([0]);
+  });
+
+  test("accepts u64 amounts as decimal strings", () => {
+    const config = { ...localnetConfig, minterAllowance: "18446744073709551615", starterMint: "9007199254740993" };
+
+    expect(validateDeploymentConfig(config)).toEqual(config);
+  });
+
+  test("rejects a signature threshold the attesters can't meet", () => {
+    expect(() => validateDeploymentConfig({ ...localnetConfig, signatureThreshold: 2 }))
+      .toThrow("signatureThreshold 2 is higher than the number of attesters (1)");
+    expect(() => validateDeploymentConfig({ ...localnetConfig, signatureThreshold: 0 }))
+      .toThrow("signatureThreshold must be at least 1, found 0");
+  });
+
+  test("lists every invalid field", () => {
+    const attester = localnetConfig.attesters[0];
+    const invalid = {
+      ...localnetConfig,
+      localDomain: -1,
+      maxMessageBodySize: "18446744073709551616",
+      attesters: [attester, attester.toUpperCase().replace("0X", "0x"), "0x1234"],
+      starterMint: 20000000,
+      remoteDomains: [...localnetConfig.remoteDomains, { domain: 0, tokenMessenger: "0x1234", token: localnetConfig.remoteDomains[0].token }]
+    };
+
+    expect(() => validateDeploymentConfig(invalid)).toThrow([
+      "Invalid deployment config:",
+      "  - localDomain must be a u32, found -1",
+      "  - maxMessageBodySize must be a u64, found \"18446744073709551616\"",
+      `  - attesters[1] ${attester.toUpperCase().replace("0X", "0x")} is listed more than once`,
+      "  - attesters[2] must be a 20 byte EVM address, found \"0x1234\"",
+      "  - starterMint 20000000 is higher than the minterAllowance 10000000",
+      "  - remoteDomains[1].tokenMessenger must be a 20 or 32 byte hex address, found \"0x1234\"",
+      "  - remoteDomains[1].domain 0 is listed more than once"
+    ].join("\n"));
+    expect(() => validateDeploymentConfig({ ...localnetConfig, remoteDomains: [] })).toThrow("remoteDomains must be a non-empty array");
+  });
+
+  test("reports null remote domains and EVM chains", () => {
+    const [evmDomain] = localnetConfig.remoteDomains;
+    const invalid = { ...localnetConfig, remoteDomains: [{ ...evmDomain, evm: null }, null] };
+
+    expect(() => validateDeploymentConfig(invalid)).toThrow([
+      "Invalid deployment config:",
+      "  - remoteDomains[0].evm must be an object, found null",
+      "  - remoteDomains[1] must be an object, found null"
+    ].join("\n"));
+  });
+
+  test("checks the contracts and owner keys of EVM chains", () => {
+    const multiEvmConfig = readDeploymentConfig("deployment-configs/localnet-multi-evm.json");
+    expect(multiEvmConfig.remoteDomains.map((remoteDomain) => [remoteDomain.domain, remoteDomain.evm?.rpcUrl])).toEqual([
+      [0, "http://localhost:8500"],
+      [1, "http://localhost:8501"]
+    ]);
+
+    const [evmDomain] = localnetConfig.remoteDomains;
+    const invalid = {
+      ...localnetConfig,
+      remoteDomains: [{
+        ...evmDomain,
+        token: `0x${"0".repeat(24)}${evmDomain.token.slice(2)}`,
+        evm: { ...evmDomain.evm, rpcUrl: "", tokenMinter: undefined, tokenMessengerOwnerKeyEnv: "" }
+      }]
+    };
+
+    expect(() => validateDeploymentConfig(invalid)).toThrow([
+      "Invalid deployment config:",
+      "  - remoteDomains[0].evm.rpcUrl must be a non-empty string",
+      `  - remoteDomains[0].token must be a 20 byte EVM address, found "${invalid.remoteDomains[0].token}"`,
+      "  - remoteDomains[0].evm.tokenMinter must be a 20 byte EVM address, found undefined",
+      "  - remoteDomains[0].evm.tokenMessengerOwnerKeyEnv must be the name of an environment variable"
+    ].join("\n"));
+  });
+});
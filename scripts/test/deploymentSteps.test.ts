@@ -0,0 +1,161 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SuiClient } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  DeploymentOutputs,
+  DeploymentStep,
+  getIncompleteSteps,
+  readDeploymentCheckpoint,
+  runDeploymentSteps
+} from "../sui-scripts/deploymentSteps";
+
+const DEPLOYER = normalizeSuiAddress("0xa");
+
+// Returns a client where only the given object ids exist.
+const mockObjectClient = (existingIds: Set<string>) => ({
+  multiGetObjects: async ({ ids }: { ids: string[] }) => ids.map((id) =>
+    existingIds.has(id) ? { data: { objectId: id } } : { error: { code: "notExists", object_id: id } }
+  )
+}) as unknown as SuiClient;
+
+describe("Deployment steps", () => {
+  let checkpointPath: string;
+  let existingIds: Set<string>;
+  let runs: string[];
+  let failingStep: string | undefined;
+
+  // Returns a step that creates a new object on every run, recording the outputs it was given.
+  const createStep = (name: string): DeploymentStep => ({
+    name,
+    objectOutputs: [`${name}Id`],
+    run: async (outputs: DeploymentOutputs) => {
+      if (name === failingStep) {
+        throw new Error(`${name} failed`);
+      }
+      const id = normalizeSuiAddress(`0x${(existingIds.size + 1).toString(16)}`);
+      existingIds.add(id);
+      runs.push(`${name}(${Object.keys(outputs).join(",")})`);
+      return { [`${name}Id`]: id };
+    }
+  });
+  const steps = ["publish", "init", "configure"].map(createStep);
+
+  const run = (options: { fromStep?: string; onlyStep?: string; dryRun?: boolean } = {}) => runDeploymentSteps({
+    client: mockObjectClient(existingIds),
+    steps,
+    checkpointPath,
+    network: "localnet",
+    deployer: DEPLOYER,
+    ...options
+  });
+
+  beforeEach(() => {
+    checkpointPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "cctp-checkpoint-")), "checkpoint.json");
+    existingIds = new Set();
+    runs = [];
+    failingStep = undefined;
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(path.dirname(checkpointPath), { recursive: true, force: true });
+  });
+
+  test("runs every step once, passing on previous outputs", async () => {
+    const outputs = await run();
+
+    expect(runs).toEqual(["publish()", "init(publishId)", "configure(publishId,initId)"]);
+    expect(Object.keys(outputs)).toEqual(["publishId", "initId", "configureId"]);
+    expect(readDeploymentCheckpoint(checkpointPath)?.steps.init.outputs).toEqual({ initId: outputs.initId });
+
+    runs = [];
+    expect(await run()).toEqual(outputs);
+    expect(runs).toEqual([]);
+  });
+
+  test("resumes from the first incomplete step after a failure", async () => {
+    failingStep = "init";
+    await expect(run()).rejects.toThrow("init failed");
+    expect(getIncompleteSteps(steps, checkpointPath)).toEqual(["init", "configure"]);
+
+    failingStep = undefined;
+    runs = [];
+    await run();
+    expect(runs).toEqual(["init(publishId)", "configure(publishId,initId)"]);
+    expect(getIncompleteSteps(steps, checkpointPath)).toEqual([]);
+  });
+
+  test("refuses to skip steps whose objects are missing on chain", async () => {
+    const outputs = await run();
+    existingIds.delete(outputs.initId);
+
+    await expect(run()).rejects.toThrow(
+      `Objects created by init were not found on chain: initId (${outputs.initId}). ` +
+      "Rerun with --from-step init to redo it and the steps after it."
+    );
+  });
+
+  test("reruns the selected steps", async () => {
+    const outputs = await run();
+    runs = [];
+
+    const fromInit = await run({ fromStep: "init" });
+    expect(runs).toEqual(["init(publishId)", "configure(publishId,initId)"]);
+    expect(fromInit.publishId).toBe(outputs.publishId);
+    expect(fromInit.initId).not.toBe(outputs.initId);
+
+    runs = [];
+    const onlyInit = await run({ onlyStep: "init" });
+    expect(runs).toEqual(["init(publishId)"]);
+    expect(onlyInit.configureId).toBe(fromInit.configureId);
+  });
+
+  test("only lists the steps that would run in a dry run", async () => {
+    failingStep = "configure";
+    await expect(run()).rejects.toThrow("configure failed");
+    runs = [];
+
+    const outputs = await run({ dryRun: true });
+    expect(runs).toEqual([]);
+    expect(Object.keys(outputs)).toEqual(["publishId", "initId"]);
+    expect(console.log).toHaveBeenCalledWith(">>> Would run configure");
+    expect(getIncompleteSteps(steps, checkpointPath)).toEqual(["configure"]);
+  });
+
+  test("rejects invalid step selections", async () => {
+    await expect(run({ onlyStep: "upgrade" })).rejects.toThrow("Unknown deployment step upgrade, expected one of: publish, init, configure.");
+    await expect(run({ onlyStep: "init" })).rejects.toThrow("Step publish has not been completed, it must run before init.");
+    await expect(run({ fromStep: "init", onlyStep: "init" })).rejects.toThrow("Only one of");
+
+    await run();
+    await expect(runDeploymentSteps({
+      client: mockObjectClient(existingIds),
+      steps,
+      checkpointPath,
+      network: "testnet",
+      deployer: DEPLOYER
+    })).rejects.toThrow("Move the checkpoint away");
+  });
+});
@@ -17,16 +17,39 @@
  */
 
 import { SuiClient } from "@mysten/sui/client";
-import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
-import { Transaction } from "@mysten/sui/transactions";
+import { Signer } from "@mysten/sui/cryptography";
 
 import dotenv from "dotenv";
-import * as ethutil from "ethereumjs-util";
 import fs from "fs";
 import waitForExpect from "wait-for-expect";
 import { Contract, EventLog, TransactionReceipt, Web3 } from "web3";
 
-import { executeTransactionHelper, getEd25519KeypairFromPrivateKey } from "../sui-scripts/helpers";
+import { executeAttesterManagerActions } from "../sui-scripts/admin";
+import {
+  AttestationFault,
+  AttestationVerificationFailure,
+  attesterAddressFromPrivateKey,
+  createLocalAttestationProvider,
+  createLocalAttesterSet,
+  LOCAL_ATTESTER_PRIVATE_KEY,
+  verifyAttestationOnChain
+} from "../sui-scripts/attestation";
+import { parseDepositForBurnOutput } from "../sui-scripts/events";
+import { executeTransactionHelper } from "../sui-scripts/helpers";
+import {
+  EvmChain,
+  getDeployerSigner,
+  getEvmChain,
+  readDeploymentManifest,
+  toCctpDeployment,
+  verifyDeploymentManifestOnChain
+} from "../sui-scripts/manifest";
+import { decodeBurnMessageFromMessage, normalizeAddress } from "../sui-scripts/message";
+import {
+  buildDepositForBurnTransaction,
+  buildReceiveMessageTransaction,
+  buildReplaceDepositForBurnTransaction
+} from "../sui-scripts/transactions";
 
 interface SuiContractDefinition {
   messageTransmitterId: string;
@@ -34,13 +57,14 @@ interface SuiContractDefinition {
   tokenMessengerMinterId: string;
   tokenMessengerMinterStateId: string;
   usdcId: string;
-  usdcFundsObjectId: string;
   treasuryId: string;
-  signer: Ed25519Keypair;
+  localDomain: number;
+  signer: Signer;
   client: SuiClient;
 }
 
 interface EvmContractDefinition {
+  domain: number;
   messageTransmitterContract: Contract<any>;
   messageTransmitterContractAddress: string;
   tokenMessengerContract: Contract<any>;
@@ -52,127 +76,235 @@ interface EvmContractDefinition {
   web3: Web3;
 }
 
-const GAS_BUDGET = 1_000_000_000;
 const USDC_AMOUNT = 1;
 
+const attestationProvider = createLocalAttestationProvider();
+
 dotenv.config();
-dotenv.config({ path: 'test_config.env'});
 
 describe("E2E Mint/Burn tests between EVM and Sui chains", () => {
-  let evmContractDefinition: EvmContractDefinition;
+  // Transfers are tested against every EVM chain in the deployment manifest.
+  const manifest = readDeploymentManifest();
+  const evmRemoteDomains = manifest.remoteDomains.filter((remoteDomain) => remoteDomain.evm);
+
   let suiContractDefinition: SuiContractDefinition;
   let suiUserAddress: string;
 
   const evmUserAddress = "0xfabb0ac9d68b0b445fb7357272ff202c5651694a";
 
   beforeAll(async () => {
-    // EVM contract setup
-    const web3 = new Web3(new Web3.providers.HttpProvider(`${process.env.EVM_RPC_URL}`));
-    const evmMessageTransmitterAddress = `${process.env.EVM_MESSAGE_TRANSMITTER_ADDRESS}`;
-    const evmTokenMessengerAddress = `${process.env.EVM_TOKEN_MESSENGER_ADDRESS}`;
-    const evmTokenMinterAddress = `${process.env.EVM_TOKEN_MINTER_ADDRESS}`;
-    const evmUSDCAddress = `${process.env.EVM_USDC_ADDRESS}`;
-
-    const messageTransmitterInterface = JSON.parse(
-      fs.readFileSync("../evm-cctp-contracts/cctp-interfaces/MessageTransmitter.sol/MessageTransmitter.json").toString()
-    );
-  
-    const tokenMessengerInterface = JSON.parse(
-      fs.readFileSync("../evm-cctp-contracts/cctp-interfaces/TokenMessenger.sol/TokenMessenger.json").toString()
-    );
-  
-    const tokenMinterInterface = JSON.parse(
-      fs.readFileSync("../evm-cctp-contracts/cctp-interfaces/TokenMinter.sol/TokenMinter.json").toString()
-    );
-  
-    const usdcInterface = JSON.parse(
-      fs.readFileSync("../evm-cctp-contracts/usdc-interfaces/FiatTokenV2_1.sol/FiatTokenV2_1.json").toString()
-    );
-
-    const messageTransmitterContract = new web3.eth.Contract(
-      messageTransmitterInterface.abi,
-      evmMessageTransmitterAddress
-    );
-    const tokenMessengerContract = new web3.eth.Contract(tokenMessengerInterface.abi, evmTokenMessengerAddress);
-    const tokenMinterContract = new web3.eth.Contract(tokenMinterInterface.abi, evmTokenMinterAddress);
-    const usdcContract = new web3.eth.Contract(usdcInterface.abi, evmUSDCAddress);
-
-    evmContractDefinition = {
-      messageTransmitterContract,
-      messageTransmitterContractAddress: evmMessageTransmitterAddress,
-      tokenMessengerContract,
-      tokenMessengerContractAddress: evmTokenMessengerAddress,
-      tokenMinterContract,
-      tokenMinterContractAddress: evmTokenMinterAddress,
-      usdcContract,
-      usdcContractAddress: evmUSDCAddress,
-      web3
-    };
-
     // Sui contract setup
+    const client = new SuiClient({ url: `http://localhost:${process.env.FULLNODE_PORT}`});
+    await verifyDeploymentManifestOnChain(client, manifest);
     suiContractDefinition = {
-      messageTransmitterId: `${process.env.SUI_MESSAGE_TRANSMITTER_ID}`,
-      messageTransmitterStateId: `${process.env.SUI_MESSAGE_TRANSMITTER_STATE_ID}`,
-      tokenMessengerMinterId: `${process.env.SUI_TOKEN_MESSENGER_MINTER_ID}`,
-      tokenMessengerMinterStateId: `${process.env.SUI_TOKEN_MESSENGER_MINTER_STATE_ID}`,
-      usdcId: `${process.env.SUI_USDC_ID}`,
-      usdcFundsObjectId: `${process.env.SUI_USDC_FUNDS_OBJECT_ID}`,
-      treasuryId: `${process.env.SUI_TREASURY_ID}`,
-      signer: getEd25519KeypairFromPrivateKey(`${process.env.SUI_DEPLOYER_KEY}`),
-      client: new SuiClient({ url: `http://localhost:${process.env.FULLNODE_PORT}`})
+      ...toCctpDeployment(manifest),
+      usdcId: manifest.packages.usdc,
+      localDomain: manifest.localDomain,
+      signer: getDeployerSigner(manifest),
+      client
     }
 
     suiUserAddress = suiContractDefinition.signer.toSuiAddress();
   }, 120_000);
 
-  describe("EVM -> Sui", () => {
-    test("EVM depositForBurn is received on Sui", async () => {
-      const message = await generateEvmBurn(
-        evmContractDefinition,
-        evmUserAddress,
-        suiUserAddress,
-        8
-      );
+  describe.each(evmRemoteDomains)("with EVM domain $domain", (remoteDomain) => {
+    let evmContractDefinition: EvmContractDefinition;
 
-      const attestation = attestToMessage(evmContractDefinition.web3, message);
-      const messageBytes = Buffer.from(message.replace("0x", ""), "hex");
+    beforeAll(() => {
+      evmContractDefinition = createEvmContractDefinition(getEvmChain(manifest, remoteDomain.domain));
+    });
 
-      await receiveSui(suiContractDefinition, messageBytes, attestation);
-    }, 120_000)
+    describe("EVM -> Sui", () => {
+      test("EVM depositForBurn is received on Sui", async () => {
+        const message = await generateEvmBurn(
+          evmContractDefinition,
+          evmUserAddress,
+          suiUserAddress,
+          suiContractDefinition.localDomain
+        );
+
+        const { burnMessage } = decodeBurnMessageFromMessage(message);
+        expect(burnMessage.mintRecipient).toBe(normalizeAddress(suiUserAddress));
+        expect(burnMessage.amount).toBe(BigInt(USDC_AMOUNT));
+
+        const attestation = await attestationProvider.getAttestation(message);
+        const messageBytes = Buffer.from(message.replace("0x", ""), "hex");
+
+        await receiveSui(suiContractDefinition, messageBytes, attestation);
+      }, 120_000)
+
+      test("EVM depositForBurnWithCaller is received on Sui", async () => {
+        const message = await generateEvmBurn(
+          evmContractDefinition,
+          evmUserAddress,
+          suiUserAddress,
+          suiContractDefinition.localDomain,
+          suiUserAddress
+        );
+
+        const { message: decodedMessage } = decodeBurnMessageFromMessage(message);
+        expect(decodedMessage.destinationCaller).toBe(normalizeAddress(suiUserAddress));
+
+        const attestation = await attestationProvider.getAttestation(message);
+        const messageBytes = Buffer.from(message.replace("0x", ""), "hex");
+
+        await receiveSui(suiContractDefinition, messageBytes, attestation);
+      })
+    })
+
+    describe("Sui -> EVM", () => {
+      test("Sui depositForBurn is received on EVM", async () => {
+        const message = await generateSuiBurn(suiContractDefinition, evmContractDefinition.domain, evmUserAddress);
+        const attestation = await attestationProvider.getAttestation(message);
+        await receiveEvm(evmContractDefinition, evmUserAddress, message, attestation);
+      })
+
+      test("Sui depositForBurnWithCaller is received on EVM", async () => {
+        const message = await generateSuiBurn(suiContractDefinition, evmContractDefinition.domain, evmUserAddress, evmUserAddress);
+        const attestation = await attestationProvider.getAttestation(message);
+        await receiveEvm(evmContractDefinition, evmUserAddress, message, attestation);
+      })
+
+      test("Sui depositForBurn is replaced and received on EVM", async () => {
+        const wrongRecipient = "0x000000000000000000000000000000000000dead";
+        const originalMessage = await generateSuiBurn(suiContractDefinition, evmContractDefinition.domain, wrongRecipient);
+        const originalAttestation = await attestationProvider.getAttestation(originalMessage);
+
+        const message = await replaceSuiBurn(suiContractDefinition, originalMessage, originalAttestation, {
+          newMintRecipient: evmUserAddress,
+          newDestinationCaller: evmUserAddress
+        });
+        const attestation = await attestationProvider.getAttestation(message);
+        await receiveEvm(evmContractDefinition, evmUserAddress, message, attestation);
+      })
+    })
+  })
 
-    test("EVM depositForBurnWithCaller is received on Sui", async () => {
-      const message = await generateEvmBurn(
-        evmContractDefinition,
-        evmUserAddress,
-        suiUserAddress,
-        8,
-        suiUserAddress
-      );
+  describe("EVM -> Sui with multiple attesters", () => {
+    // Second attester key, taken from the default Anvil accounts.
+    const secondAttesterKey = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+    const attesterSet = createLocalAttesterSet([LOCAL_ATTESTER_PRIVATE_KEY, secondAttesterKey]);
+    let evmContractDefinition: EvmContractDefinition;
+    const expectedFailures: Record<AttestationFault, AttestationVerificationFailure> = {
+      duplicate: "EInvalidSignatureOrder",
+      unsorted: "EInvalidSignatureOrder",
+      wrongSigner: "ESignerIsNotAttester"
+    };
+
+    // Verifies the attestation off-chain against the current attester set on Sui.
+    const verifyOnChain = (message: string, attestation: string) => verifyAttestationOnChain({
+      client: suiContractDefinition.client,
+      messageTransmitterStateId: suiContractDefinition.messageTransmitterStateId,
+      message,
+      attestation
+    });
 
-      const attestation = attestToMessage(evmContractDefinition.web3, message);
+    beforeAll(async () => {
+      evmContractDefinition = createEvmContractDefinition(getEvmChain(manifest, evmRemoteDomains[0].domain));
+      await executeAttesterManagerActions({
+        client: suiContractDefinition.client,
+        deployment: suiContractDefinition,
+        signer: suiContractDefinition.signer,
+        actions: [
+          { type: "enable_attester", attester: attesterAddressFromPrivateKey(secondAttesterKey) },
+          { type: "set_signature_threshold", signatureThreshold: 2 }
+        ]
+      });
+    }, 120_000);
+
+    afterAll(async () => {
+      await executeAttesterManagerActions({
+        client: suiContractDefinition.client,
+        deployment: suiContractDefinition,
+        signer: suiContractDefinition.signer,
+        actions: [
+          { type: "set_signature_threshold", signatureThreshold: 1 },
+          { type: "disable_attester", attester: attesterAddressFromPrivateKey(secondAttesterKey) }
+        ]
+      });
+    }, 120_000);
+
+    test("EVM depositForBurn is received on Sui with a 2 of 2 attestation", async () => {
+      const message = await generateEvmBurn(evmContractDefinition, evmUserAddress, suiUserAddress, suiContractDefinition.localDomain);
       const messageBytes = Buffer.from(message.replace("0x", ""), "hex");
+      const attestation = attesterSet.attest(message);
 
+      expect(await verifyOnChain(message, attestation)).toHaveLength(2);
       await receiveSui(suiContractDefinition, messageBytes, attestation);
-    })
-  })
+    }, 120_000)
 
-  describe("Sui -> EVM", () => {
-    test("Sui depositForBurn is received on EVM", async () => {
-      const message = await generateSuiBurn(suiContractDefinition, evmUserAddress);
-      const messageHex = `0x${message.toString("hex")}`;
-      const attestation = attestToMessage(evmContractDefinition.web3, messageHex);
-      await receiveEvm(evmContractDefinition, evmUserAddress, message, attestation);
-    })
+    test.each(["duplicate", "unsorted", "wrongSigner"] as AttestationFault[])(
+      "EVM depositForBurn is rejected on Sui with a %s attestation",
+      async (fault) => {
+        const message = await generateEvmBurn(evmContractDefinition, evmUserAddress, suiUserAddress, suiContractDefinition.localDomain);
+        const messageBytes = Buffer.from(message.replace("0x", ""), "hex");
+        const attestation = attesterSet.attest(message, { fault });
+
+        await expect(verifyOnChain(message, attestation)).rejects.toMatchObject({ reason: expectedFailures[fault] });
+        await expect(receiveSui(suiContractDefinition, messageBytes, attestation))
+          .rejects.toMatchObject({ module: "attestation", constant: expectedFailures[fault] });
+      },
+      120_000
+    )
+
+    test("EVM depositForBurn is rejected on Sui with too few signatures", async () => {
+      const message = await generateEvmBurn(evmContractDefinition, evmUserAddress, suiUserAddress, suiContractDefinition.localDomain);
+      const messageBytes = Buffer.from(message.replace("0x", ""), "hex");
+      const attestation = attesterSet.attest(message, { threshold: 1 });
 
-    test("Sui depositForBurnWithCaller is received on EVM", async () => {
-      const message = await generateSuiBurn(suiContractDefinition, evmUserAddress, evmUserAddress);
-      const messageHex = `0x${message.toString("hex")}`;
-      const attestation = attestToMessage(evmContractDefinition.web3, messageHex);
-      await receiveEvm(evmContractDefinition, evmUserAddress, message, attestation);
-    })
+      await expect(verifyOnChain(message, attestation)).rejects.toMatchObject({ reason: "EInvalidAttestationLength" });
+      await expect(receiveSui(suiContractDefinition, messageBytes, attestation))
+        .rejects.toMatchObject({ module: "attestation", constant: "EInvalidAttestationLength" });
+    }, 120_000)
   })
 });
 
+// Creates the contract definition of an EVM chain from the deployment manifest.
+const createEvmContractDefinition = (evmChain: EvmChain): EvmContractDefinition => {
+  const web3 = new Web3(new Web3.providers.HttpProvider(evmChain.rpcUrl));
+  const evmMessageTransmitterAddress = evmChain.messageTransmitter;
+  const evmTokenMessengerAddress = evmChain.tokenMessenger;
+  const evmTokenMinterAddress = evmChain.tokenMinter;
+  const evmUSDCAddress = evmChain.usdc;
+
+  const messageTransmitterInterface = JSON.parse(
+    fs.readFileSync("../evm-cctp-contracts/cctp-interfaces/MessageTransmitter.sol/MessageTransmitter.json").toString()
+  );
+
+  const tokenMessengerInterface = JSON.parse(
+    fs.readFileSync("../evm-cctp-contracts/cctp-interfaces/TokenMessenger.sol/TokenMessenger.json").toString()
+  );
+
+  const tokenMinterInterface = JSON.parse(
+    fs.readFileSync("../evm-cctp-contracts/cctp-interfaces/TokenMinter.sol/TokenMinter.json").toString()
+  );
+
+  const usdcInterface = JSON.parse(
+    fs.readFileSync("../evm-cctp-contracts/usdc-interfaces/FiatTokenV2_1.sol/FiatTokenV2_1.json").toString()
+  );
+
+  const messageTransmitterContract = new web3.eth.Contract(
+    messageTransmitterInterface.abi,
+    evmMessageTransmitterAddress
+  );
+  const tokenMessengerContract = new web3.eth.Contract(tokenMessengerInterface.abi, evmTokenMessengerAddress);
+  const tokenMinterContract = new web3.eth.Contract(tokenMinterInterface.abi, evmTokenMinterAddress);
+  const usdcContract = new web3.eth.Contract(usdcInterface.abi, evmUSDCAddress);
+
+  return {
+    domain: evmChain.domain,
+    messageTransmitterContract,
+    messageTransmitterContractAddress: evmMessageTransmitterAddress,
+    tokenMessengerContract,
+    tokenMessengerContractAddress: evmTokenMessengerAddress,
+    tokenMinterContract,
+    tokenMinterContractAddress: evmTokenMinterAddress,
+    usdcContract,
+    usdcContractAddress: evmUSDCAddress,
+    web3
+  };
+};
+
 // Generates a depositForBurn tx from the given EVM chain and returns the message as a string.
 const generateEvmBurn = async (
   contractDefinition: EvmContractDefinition,
@@ -227,49 +359,21 @@ const receiveEvm = async (
 // Executes a depositForBurn tx from Sui. Returns the message as a buffer.
 const generateSuiBurn = async (
   contractDefinition: SuiContractDefinition,
+  destinationDomain: number,
   mintRecipient: string,
   caller?: string
 ): Promise<Buffer> => {
-  // Create DepositForBurn tx
-  const depositForBurnTx = new Transaction();
-
-  // Split 1 unit of USDC to send in depositForBurn call
-  const [coin] = depositForBurnTx.splitCoins(
-    contractDefinition.usdcFundsObjectId,
-    [USDC_AMOUNT]
-  );
-
-  // If destination caller is provided, call deposit_for_burn_with_caller
-  if (caller) {
-    depositForBurnTx.moveCall({
-      target: `${contractDefinition.tokenMessengerMinterId}::deposit_for_burn::deposit_for_burn_with_caller`,
-      arguments: [
-        depositForBurnTx.object(coin), // Coin<USDC>
-        depositForBurnTx.pure.u32(0), // destination_domain
-        depositForBurnTx.pure.address(mintRecipient), // mint_recipient
-        depositForBurnTx.pure.address(caller), // destination_caller
-        depositForBurnTx.object(contractDefinition.tokenMessengerMinterStateId), // token_messenger_minter state
-        depositForBurnTx.object(contractDefinition.messageTransmitterStateId), // message_transmitter state
-        depositForBurnTx.object("0x403"), // deny_list id, fixed address
-        depositForBurnTx.object(contractDefinition.treasuryId) // treasury object Treasury<USDC>
-      ],
-      typeArguments: [`${contractDefinition.usdcId}::usdc::USDC`],
-    });
-  } else {
-    depositForBurnTx.moveCall({
-      target: `${contractDefinition.tokenMessengerMinterId}::deposit_for_burn::deposit_for_burn`,
-      arguments: [
-        depositForBurnTx.object(coin), // Coin<USDC>
-        depositForBurnTx.pure.u32(0), // destination_domain
-        depositForBurnTx.pure.address(mintRecipient), // mint_recipient
-        depositForBurnTx.object(contractDefinition.tokenMessengerMinterStateId), // token_messenger_minter state
-        depositForBurnTx.object(contractDefinition.messageTransmitterStateId), // message_transmitter state
-        depositForBurnTx.object("0x403"), // deny_list id, fixed address
-        depositForBurnTx.object(contractDefinition.treasuryId) // treasury object Treasury<USDC>
-      ],
-      typeArguments: [`${contractDefinition.usdcId}::usdc::USDC`],
-    });
-  }
+  // Create DepositForBurn tx, selecting and splitting 1 unit of USDC from the signer's coins
+  const depositForBurnTx = await buildDepositForBurnTransaction({
+    client: contractDefinition.client,
+    sender: contractDefinition.signer.toSuiAddress(),
+    amount: USDC_AMOUNT,
+    destinationDomain,
+    mintRecipient,
+    destinationCaller: caller,
+    deployment: contractDefinition,
+    coinType: `${contractDefinition.usdcId}::usdc::USDC`
+  });
 
   const depositForBurnOutput = await executeTransactionHelper({
     client: contractDefinition.client,
@@ -292,9 +396,51 @@ const generateSuiBurn = async (
     event.type.includes("send_message::MessageSent")
   )?.parsedJson as any).message;
 
+  // Validate the emitted message against the burn parameters.
+  const { message: decodedMessage, burnMessage } = decodeBurnMessageFromMessage(message);
+  expect(decodedMessage.sourceDomain).toBe(contractDefinition.localDomain);
+  expect(decodedMessage.destinationDomain).toBe(destinationDomain);
+  expect(decodedMessage.destinationCaller).toBe(normalizeAddress(caller ?? "0x0"));
+  expect(burnMessage.mintRecipient).toBe(normalizeAddress(mintRecipient));
+  expect(burnMessage.amount).toBe(BigInt(USDC_AMOUNT));
+  expect(burnMessage.messageSender).toBe(normalizeAddress(contractDefinition.signer.toSuiAddress()));
+
   return Buffer.from(message);
 }
 
+// Executes a replace_deposit_for_burn tx from Sui. Returns the new message as a buffer.
+const replaceSuiBurn = async (
+  contractDefinition: SuiContractDefinition,
+  originalMessage: Buffer,
+  originalAttestation: string,
+  replacement: { newMintRecipient?: string, newDestinationCaller?: string }
+): Promise<Buffer> => {
+  const replaceTx = buildReplaceDepositForBurnTransaction({
+    originalMessage,
+    originalAttestation,
+    ...replacement,
+    deployment: contractDefinition
+  });
+
+  const replaceOutput = await executeTransactionHelper({
+    client: contractDefinition.client,
+    signer: contractDefinition.signer,
+    transaction: replaceTx,
+  });
+
+  // Validate that the new message keeps the original nonce and amount with the replaced fields.
+  const original = decodeBurnMessageFromMessage(originalMessage);
+  const { message, decodedMessage, burnMessage, depositForBurnEvent } = parseDepositForBurnOutput(replaceOutput);
+  expect(decodedMessage.nonce).toBe(original.message.nonce);
+  expect(burnMessage.amount).toBe(original.burnMessage.amount);
+  expect(burnMessage.mintRecipient).toBe(normalizeAddress(replacement.newMintRecipient ?? original.burnMessage.mintRecipient));
+  expect(decodedMessage.destinationCaller).toBe(normalizeAddress(replacement.newDestinationCaller ?? original.message.destinationCaller));
+  expect(depositForBurnEvent.nonce).toBe(original.message.nonce);
+  expect(depositForBurnEvent.mintRecipient).toBe(burnMessage.mintRecipient);
+
+  return message;
+}
+
 // Executes a receiveMessage tx on Sui.
 const receiveSui = async (
   contractDefinition: SuiContractDefinition,
@@ -302,61 +448,13 @@ const receiveSui = async (
   attestation: string,
 ): Promise<void> => {
   // Create receiveMessage PTB
-  const receiveMessageTx = new Transaction();
-
-  // Add receive_message call
-  const [receipt] = receiveMessageTx.moveCall({
-    target: `${contractDefinition.messageTransmitterId}::receive_message::receive_message`,
-    arguments: [
-      receiveMessageTx.pure.vector("u8", message), // message
-      receiveMessageTx.pure.vector("u8", Buffer.from(attestation.replace("0x", ""), "hex")), // attestation as byte array
-      receiveMessageTx.object(contractDefinition.messageTransmitterStateId) // message_transmitter state
-    ]
-  });
-
-  // Add handle_receive_message call
-  const [stampReceiptTicketWithBurnMessage] = receiveMessageTx.moveCall({
-    target: `${contractDefinition.tokenMessengerMinterId}::handle_receive_message::handle_receive_message`,
-    arguments: [
-      receipt, // Receipt object returned from receive_message call
-      receiveMessageTx.object(contractDefinition.tokenMessengerMinterStateId), // token_messenger_minter state
-      receiveMessageTx.object("0x403"), // deny list, fixed address
-      receiveMessageTx.object(contractDefinition.treasuryId), // usdc treasury object Treasury<T>
-    ],
-    typeArguments: [`${contractDefinition.usdcId}::usdc::USDC`],
-  })
-
-  // Add deconstruct_stamp_receipt_ticket_with_burn_message call
-  const [stampReceiptTicket] = receiveMessageTx.moveCall({
-    target: `${contractDefinition.tokenMessengerMinterId}::handle_receive_message::deconstruct_stamp_receipt_ticket_with_burn_message`,
-    arguments: [
-      stampReceiptTicketWithBurnMessage
-    ]
+  const receiveMessageTx = buildReceiveMessageTransaction({
+    message,
+    attestation,
+    deployment: contractDefinition,
+    coinType: `${contractDefinition.usdcId}::usdc::USDC`
   });
 
-  // Add stamp_receipt call
-  const [stampedReceipt] = receiveMessageTx.moveCall({
-    target: `${contractDefinition.messageTransmitterId}::receive_message::stamp_receipt`,
-    arguments: [
-      stampReceiptTicket, // Receipt ticket returned from deconstruct_stamp_receipt_ticket_with_burn_message call
-      receiveMessageTx.object(contractDefinition.messageTransmitterStateId), // message_transmitter state
-    ],
-    typeArguments: [`${contractDefinition.tokenMessengerMinterId}::message_transmitter_authenticator::MessageTransmitterAuthenticator`],
-  })
-
-  // Add complete_receive_message call
-  receiveMessageTx.moveCall({
-    target: `${contractDefinition.messageTransmitterId}::receive_message::complete_receive_message`,
-    arguments: [
-      stampedReceipt, // Stamped receipt object returned from handle_receive_message call
-      receiveMessageTx.object(contractDefinition.messageTransmitterStateId) // message_transmitter state
-    ]
-  })
-
-  // Manually set the gas budget. This is sometimes required
-  // for PTBs that pass objects between transaction calls.
-  receiveMessageTx.setGasBudget(GAS_BUDGET);
-
   const receiveMessageOutput = await executeTransactionHelper({
     client: contractDefinition.client,
     signer: contractDefinition.signer,
@@ -375,21 +473,6 @@ const receiveSui = async (
   }).length).toBe(1);
 }
 
-// Given a hex-encoded message, produces an attestation.
-const attestToMessage = (
-  web3: Web3,
-  messageHex: string,
-): string => {
-  // Create an attestation using the initialized Anvil keypair
-  const attesterPrivateKey = "0xdbda1821b80551c9d65939329250298aa3472ba22feea921c0cf5d620ea67b97";
-
-  const messageHash = web3.utils.keccak256(messageHex);
-  const signedMessage = ethutil.ecsign(ethutil.toBuffer(messageHash), ethutil.toBuffer(attesterPrivateKey));
-  const attestation = ethutil.toRpcSig(signedMessage.v, signedMessage.r, signedMessage.s);
-  
-  return attestation;
-}
-
 // Fetches an EVM message body from event logs.
 const fetchEvmMessage = async (
   contractDefinition: EvmContractDefinition,
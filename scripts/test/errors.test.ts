@@ -0,0 +1,138 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from "fs";
+import path from "path";
+
+import { CCTP_PACKAGES } from "../sui-scripts/admin";
+import { CCTP_ERRORS, CctpError, decodeMoveAbort, parseMoveAbort, toTransactionError } from "../sui-scripts/errors";
+import { CctpDeployment } from "../sui-scripts/transactions";
+
+const PACKAGES_DIR = path.join(__dirname, "../../packages");
+const MESSAGE_TRANSMITTER_ID = "a".repeat(64);
+const TOKEN_MESSENGER_MINTER_ID = "b".repeat(64);
+const TOKEN_MESSENGER_MINTER_LATEST_ID = "c".repeat(64);
+const OTHER_PACKAGE_ID = "d".repeat(64);
+
+const deployment: CctpDeployment = {
+  messageTransmitterId: `0x${MESSAGE_TRANSMITTER_ID}`,
+  messageTransmitterStateId: "0x10",
+  tokenMessengerMinterId: `0x${TOKEN_MESSENGER_MINTER_ID}`,
+  tokenMessengerMinterStateId: "0x11",
+  treasuryId: "0x12",
+  tokenMessengerMinterLatestId: `0x${TOKEN_MESSENGER_MINTER_LATEST_ID}`
+};
+
+const moveAbort = (address: string, module: string, code: number, functionName = "function") =>
+  `MoveAbort(MoveLocation { module: ModuleId { address: ${address}, name: Identifier("${module}") }, ` +
+  `function: 3, instruction: 21, function_name: Some("${functionName}") }, ${code}) in command 1`;
+
+// Reads the error constants of the non-test modules of a package, as module => code => constant name.
+function readMoveErrorConstants(cctpPackage: string): Record<string, Record<number, string>> {
+  const constants: Record<string, Record<number, string>> = {};
+  const readDirectory = (directory: string) => fs.readdirSync(directory, { withFileTypes: true }).forEach((entry) => {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      readDirectory(entryPath);
+      return;
+    }
+    if (!entry.name.endsWith(".move")) {
+      return;
+    }
+
+    let module: string | null = null;
+    let testOnly = false;
+    for (const line of fs.readFileSync(entryPath, "utf-8").split("\n")) {
+      const moduleMatch = line.match(/^\s*module \w+::(\w+)/);
+      if (moduleMatch) {
+        module = testOnly ? null : moduleMatch[1];
+      }
+      testOnly = /^\s*#\[test_only\]/.test(line);
+      const constantMatch = line.match(/^\s*const (E\w+): u64 = (\d+);/);
+      if (module && constantMatch) {
+        constants[module] = { ...constants[module], [Number(constantMatch[2])]: constantMatch[1] };
+      }
+    }
+  });
+  readDirectory(path.join(PACKAGES_DIR, cctpPackage, "sources"));
+  return constants;
+}
+
+describe("CCTP errors", () => {
+  test.each(CCTP_PACKAGES)("match the error constants declared in the %s sources", (cctpPackage) => {
+    const declared = readMoveErrorConstants(cctpPackage);
+    const mapped = Object.fromEntries(Object.entries(CCTP_ERRORS[cctpPackage]).map(([module, errors]) => [
+      module,
+      Object.fromEntries(Object.entries(errors).map(([code, definition]) => [code, definition.constant]))
+    ]));
+
+    expect(Object.keys(declared).length).toBeGreaterThan(0);
+    expect(mapped).toEqual(declared);
+  });
+
+  test("Decodes Move aborts of CCTP modules", () => {
+    expect(parseMoveAbort(moveAbort(MESSAGE_TRANSMITTER_ID, "receive_message", 4, "receive_message"))).toEqual({
+      address: `0x${MESSAGE_TRANSMITTER_ID}`,
+      module: "receive_message",
+      functionName: "receive_message",
+      code: 4,
+      command: 1
+    });
+
+    const error = decodeMoveAbort(moveAbort(TOKEN_MESSENGER_MINTER_ID, "deposit_for_burn", 6, "deposit_for_burn"), deployment);
+    expect(error).toBeInstanceOf(CctpError);
+    expect(error).toMatchObject({
+      cctpPackage: "token_messenger_minter",
+      module: "deposit_for_burn",
+      functionName: "deposit_for_burn",
+      constant: "EBurnLimitExceeded",
+      code: 6,
+      message: "Transaction failed: token_messenger_minter::deposit_for_burn::deposit_for_burn aborted, " +
+        "the burn amount exceeds the per-message burn limit (EBurnLimitExceeded)."
+    });
+
+    // Modules of both packages are attributed to the package that aborted, including its upgraded version.
+    expect(decodeMoveAbort(moveAbort(MESSAGE_TRANSMITTER_ID, "pausable", 1), deployment))
+      .toMatchObject({ cctpPackage: "message_transmitter", constant: "EAlreadyPaused" });
+    expect(decodeMoveAbort(moveAbort(TOKEN_MESSENGER_MINTER_LATEST_ID, "pausable", 1), deployment))
+      .toMatchObject({ cctpPackage: "token_messenger_minter", constant: "EAlreadyPaused" });
+    expect(toTransactionError("Transaction failed", moveAbort(MESSAGE_TRANSMITTER_ID, "pausable", 1), deployment))
+      .toBeInstanceOf(CctpError);
+  });
+
+  test("Leaves other failures undecoded", () => {
+    expect(decodeMoveAbort(moveAbort(MESSAGE_TRANSMITTER_ID, "receive_message", 99), deployment)).toBeNull();
+    expect(decodeMoveAbort(moveAbort(MESSAGE_TRANSMITTER_ID, "unknown_module", 0), deployment)).toBeNull();
+    // Modules of the deployment's other package, of the framework and of other packages with the same names.
+    expect(decodeMoveAbort(moveAbort(MESSAGE_TRANSMITTER_ID, "deposit_for_burn", 6), deployment)).toBeNull();
+    expect(decodeMoveAbort(moveAbort("2", "pausable", 0), deployment)).toBeNull();
+    expect(decodeMoveAbort(moveAbort(OTHER_PACKAGE_ID, "version_control", 0), deployment)).toBeNull();
+    expect(decodeMoveAbort(moveAbort(OTHER_PACKAGE_ID, "pausable", 1), deployment)).toBeNull();
+
+    const abort = moveAbort(OTHER_PACKAGE_ID, "version_control", 0);
+    const otherPackageError = toTransactionError("Transaction failed", abort, deployment);
+    expect(otherPackageError).not.toBeInstanceOf(CctpError);
+    expect(otherPackageError.message).toBe(`Transaction failed: ${abort}`);
+    expect(toTransactionError("Transaction failed", moveAbort(MESSAGE_TRANSMITTER_ID, "pausable", 1)))
+      .not.toBeInstanceOf(CctpError);
+
+    const error = toTransactionError("Transaction failed", "InsufficientGas");
+    expect(error).not.toBeInstanceOf(CctpError);
+    expect(error.message).toBe("Transaction failed: InsufficientGas");
+  });
+});
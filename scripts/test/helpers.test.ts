@@ -0,0 +1,194 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SuiClient, SuiHTTPStatusError } from "@mysten/sui/client";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+import { executeTransaction, executeTransactionHelper, simulateTransaction } from "../sui-scripts/helpers";
+
+const signer = Ed25519Keypair.generate();
+const PACKAGE_ID = normalizeSuiAddress("0x1");
+const GAS_COIN_DIGEST = "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi";
+
+const transaction = () => {
+  const tx = new Transaction();
+  tx.moveCall({ target: `${PACKAGE_ID}::module::function`, arguments: [tx.pure.u64(1)] });
+  return tx;
+};
+
+type MockClient = SuiClient & {
+  [method in "dryRunTransactionBlock" | "executeTransactionBlock" | "getTransactionBlock" | "waitForTransaction"]: jest.Mock
+};
+
+// Returns a client whose dry runs end with the given status and gas costs, and whose submitted transactions succeed.
+const mockClient = (status: { status: "success" | "failure"; error?: string }, gasUsed = { computation: 1_000, storage: 5_000, rebate: 2_000 }) => ({
+  getReferenceGasPrice: jest.fn(async () => BigInt(1_000)),
+  dryRunTransactionBlock: jest.fn(async () => ({
+    effects: {
+      status,
+      transactionDigest: "digest",
+      gasUsed: {
+        computationCost: String(gasUsed.computation),
+        storageCost: String(gasUsed.storage),
+        storageRebate: String(gasUsed.rebate),
+        nonRefundableStorageFee: "0"
+      }
+    },
+    events: [],
+    objectChanges: [],
+    balanceChanges: [{ owner: { AddressOwner: signer.toSuiAddress() }, coinType: "0x2::sui::SUI", amount: "-4000" }],
+    input: {}
+  })),
+  getCoins: jest.fn(async () => ({
+    data: [{ coinObjectId: normalizeSuiAddress("0xc0"), version: "1", digest: GAS_COIN_DIGEST, balance: "1000000000" }],
+    hasNextPage: false
+  })),
+  executeTransactionBlock: jest.fn(async () => ({})),
+  getTransactionBlock: jest.fn(async () => {
+    throw new Error("Could not find the referenced transaction");
+  }),
+  waitForTransaction: jest.fn(async ({ digest }: { digest: string }) => executedTransaction(digest))
+}) as unknown as MockClient;
+
+const executedTransaction = (digest: string, status: { status: "success" | "failure"; error?: string } = { status: "success" }) =>
+  ({ digest, effects: { status } });
+
+const NO_BACKOFF = { initialBackoffMs: 0, maxBackoffMs: 0 };
+
+describe("Transaction simulation", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("Derives the gas budget from the simulated gas, the SDK's overhead and the safety margin", async () => {
+    const client = mockClient({ status: "success" });
+
+    const simulation = await simulateTransaction({ client, sender: signer.toSuiAddress(), transaction: transaction() });
+    expect(simulation.estimatedGas).toBe(BigInt(4_000));
+    // The overhead is 1000 times the reference gas price of 1000.
+    expect(simulation.gasOverhead).toBe(BigInt(1_000_000));
+    expect(simulation.gasBudget).toBe(BigInt(1_204_800));
+    expect(simulation.balanceChanges).toHaveLength(1);
+
+    // Storage rebates can exceed the storage cost, but the budget must still cover the computation.
+    const rebated = await simulateTransaction({
+      client: mockClient({ status: "success" }, { computation: 1_000, storage: 1_000, rebate: 9_000 }),
+      sender: signer.toSuiAddress(),
+      transaction: transaction(),
+      gasSafetyMarginPercent: 50
+    });
+    expect(rebated.gasBudget).toBe(BigInt(1_501_500));
+  });
+
+  test("Stops before broadcasting when the simulation fails or in a dry run", async () => {
+    const failingClient = mockClient({ status: "failure", error: "MoveAbort(..., 3) in command 0" });
+    await expect(executeTransactionHelper({ client: failingClient, signer, transaction: transaction() }))
+      .rejects.toThrow("Simulation failed, the transaction was not sent: MoveAbort(..., 3) in command 0");
+    expect(failingClient.executeTransactionBlock).not.toHaveBeenCalled();
+
+    const client = mockClient({ status: "success" });
+    const tx = transaction();
+    const response = await executeTransactionHelper({ client, signer, transaction: tx, dryRun: true });
+    expect(response.digest).toBe("digest");
+    expect(response.balanceChanges).toHaveLength(1);
+    expect(client.executeTransactionBlock).not.toHaveBeenCalled();
+    // The simulation doesn't change the transaction.
+    expect(tx.getData().gasData.budget).toBeNull();
+  });
+});
+
+describe("Transaction execution", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("Resubmits the same transaction after transient RPC errors, unless it executed", async () => {
+    const client = mockClient({ status: "success" });
+    client.executeTransactionBlock
+      .mockRejectedValueOnce(new SuiHTTPStatusError("Unavailable", 503, "Service Unavailable"))
+      .mockRejectedValueOnce(new TypeError("fetch failed"));
+
+    const result = await executeTransaction({ client, signer, transaction: transaction(), retry: NO_BACKOFF });
+    expect(result).toMatchObject({ status: "success", attempts: 3 });
+    const submissions = client.executeTransactionBlock.mock.calls.map(([input]) => input.transactionBlock as Uint8Array);
+    expect(submissions).toHaveLength(3);
+    expect(new Set(submissions.map((bytes) => Buffer.from(bytes).toString("hex"))).size).toBe(1);
+    expect(client.dryRunTransactionBlock).toHaveBeenCalledTimes(1);
+
+    // A submission whose response is lost but which executed is not sent again.
+    const landedClient = mockClient({ status: "success" });
+    landedClient.executeTransactionBlock.mockRejectedValueOnce(new TypeError("fetch failed"));
+    landedClient.getTransactionBlock.mockImplementation(async ({ digest }: { digest: string }) => executedTransaction(digest));
+    const landed = await executeTransaction({ client: landedClient, signer, transaction: transaction(), retry: NO_BACKOFF });
+    expect(landed).toMatchObject({ status: "success", attempts: 1 });
+    expect(landedClient.executeTransactionBlock).toHaveBeenCalledTimes(1);
+  });
+
+  test("Rebuilds the transaction after object version conflicts", async () => {
+    const client = mockClient({ status: "success" });
+    client.waitForTransaction.mockImplementationOnce(async ({ digest }: { digest: string }) => executedTransaction(digest, {
+      status: "failure",
+      error: "ExecutionCancelledDueToSharedObjectCongestion { congested_objects: [] }"
+    }));
+
+    const result = await executeTransaction({ client, signer, transaction: transaction(), retry: NO_BACKOFF });
+    expect(result).toMatchObject({ status: "success", attempts: 2 });
+    expect(client.dryRunTransactionBlock).toHaveBeenCalledTimes(2);
+
+    // Other failures are returned without retrying.
+    const abortingClient = mockClient({ status: "success" });
+    abortingClient.waitForTransaction.mockImplementation(async ({ digest }: { digest: string }) =>
+      executedTransaction(digest, { status: "failure", error: "InsufficientGas" }));
+    const failed = await executeTransaction({ client: abortingClient, signer, transaction: transaction(), retry: NO_BACKOFF });
+    expect(failed).toMatchObject({ status: "failure", attempts: 1 });
+    expect(failed.error?.message).toContain("InsufficientGas");
+  });
+
+  test("Reports submitted transactions that can't be confirmed or retried", async () => {
+    const client = mockClient({ status: "success" });
+    client.waitForTransaction.mockRejectedValue(new Error("The operation was aborted due to timeout"));
+
+    const result = await executeTransaction({ client, signer, transaction: transaction(), retry: NO_BACKOFF });
+    expect(result.status).toBe("unconfirmed");
+    expect(result.digest).toBeDefined();
+    expect(client.executeTransactionBlock).toHaveBeenCalledTimes(1);
+    await expect(executeTransactionHelper({ client, signer, transaction: transaction(), retry: NO_BACKOFF }))
+      .rejects.toThrow("check whether it executed before sending it again.");
+
+    const rejectingClient = mockClient({ status: "success" });
+    rejectingClient.executeTransactionBlock.mockRejectedValue(new SuiHTTPStatusError("Unavailable", 503, "Service Unavailable"));
+    const rejected = await executeTransaction({
+      client: rejectingClient,
+      signer,
+      transaction: transaction(),
+      retry: { ...NO_BACKOFF, maxAttempts: 2 }
+    });
+    expect(rejected).toMatchObject({ status: "rejected", attempts: 2 });
+    expect(rejectingClient.executeTransactionBlock).toHaveBeenCalledTimes(2);
+  });
+});
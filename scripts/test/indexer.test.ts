@@ -0,0 +1,150 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SuiClient, SuiEvent } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { indexEvents, openEventStore } from "../sui-scripts/indexer";
+import { CctpDeployment } from "../sui-scripts/transactions";
+
+const deployment: CctpDeployment = {
+  messageTransmitterId: normalizeSuiAddress("0x1"),
+  messageTransmitterStateId: normalizeSuiAddress("0x2"),
+  tokenMessengerMinterId: normalizeSuiAddress("0x3"),
+  tokenMessengerMinterStateId: normalizeSuiAddress("0x4"),
+  treasuryId: normalizeSuiAddress("0x5")
+};
+const DEPOSIT_FOR_BURN_TYPE = `${deployment.tokenMessengerMinterId}::deposit_for_burn::DepositForBurn`;
+const DEPOSITOR = normalizeSuiAddress("0xaa");
+const RECIPIENT = normalizeSuiAddress("0xbb");
+
+const depositForBurn = (seq: number, timestampMs: number): SuiEvent => ({
+  id: { txDigest: `digest${seq}`, eventSeq: "0" },
+  type: DEPOSIT_FOR_BURN_TYPE,
+  packageId: deployment.tokenMessengerMinterId,
+  transactionModule: "deposit_for_burn",
+  sender: DEPOSITOR,
+  timestampMs: String(timestampMs),
+  bcs: "",
+  parsedJson: {
+    nonce: String(seq),
+    burn_token: normalizeSuiAddress("0xcc"),
+    amount: "1000",
+    depositor: DEPOSITOR,
+    mint_recipient: RECIPIENT,
+    destination_domain: 0,
+    destination_token_messenger: normalizeSuiAddress("0xdd"),
+    destination_caller: normalizeSuiAddress("0x0")
+  }
+});
+
+// Returns a client serving the given DepositForBurn events one per page, and no events of other types.
+const mockClient = (events: SuiEvent[]) => ({
+  queryEvents: jest.fn(async ({ query, cursor }: { query: { MoveEventType: string }; cursor: { txDigest: string } | null }) => {
+    if (query.MoveEventType !== DEPOSIT_FOR_BURN_TYPE) {
+      return { data: [], hasNextPage: false, nextCursor: null };
+    }
+    const start = cursor ? events.findIndex((event) => event.id.txDigest === cursor.txDigest) + 1 : 0;
+    const data = events.slice(start, start + 1);
+    return { data, hasNextPage: start + 1 < events.length, nextCursor: data.length > 0 ? data[0].id : null };
+  })
+}) as unknown as SuiClient;
+
+describe("Event indexer", () => {
+  let directory: string;
+  let storePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "cctp-events-"));
+    storePath = path.join(directory, "events.db");
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("indexes every page and resumes from the stored cursor", async () => {
+    const events = [depositForBurn(1, 1_000), depositForBurn(2, 2_000)];
+    const firstStore = openEventStore(storePath);
+    await expect(indexEvents({ client: mockClient(events), deployment, store: firstStore })).resolves.toBe(2);
+    firstStore.close();
+
+    // A reopened store resumes after the last indexed event.
+    events.push(depositForBurn(3, 3_000));
+    const store = openEventStore(storePath);
+    await expect(indexEvents({ client: mockClient(events), deployment, store })).resolves.toBe(1);
+    expect(store.query({}).map((event) => event.nonce)).toEqual(["1", "2", "3"]);
+    store.close();
+  });
+
+  test("does not duplicate a page saved again", () => {
+    const indexedEvent = {
+      id: { txDigest: "digest1", eventSeq: "0" },
+      cctpPackage: "token_messenger_minter" as const,
+      name: "deposit_for_burn::DepositForBurn",
+      timestampMs: 1_000,
+      parsedJson: { amount: "1000" }
+    };
+    const store = openEventStore(storePath);
+    store.savePage(DEPOSIT_FOR_BURN_TYPE, [indexedEvent], indexedEvent.id);
+    store.close();
+
+    const reopened = openEventStore(storePath);
+    reopened.savePage(DEPOSIT_FOR_BURN_TYPE, [indexedEvent], indexedEvent.id);
+    expect(reopened.query({})).toEqual([indexedEvent]);
+    expect(reopened.getCursor(DEPOSIT_FOR_BURN_TYPE)).toEqual(indexedEvent.id);
+    expect(reopened.getCursor("unknown")).toBeNull();
+    reopened.close();
+  });
+
+  test("queries by digest, depositor, recipient, domain, nonce and time range", async () => {
+    const store = openEventStore(storePath);
+    await indexEvents({ client: mockClient([depositForBurn(1, 1_000), depositForBurn(2, 2_000)]), deployment, store });
+
+    expect(store.query({ txDigest: "digest1" }).map((event) => event.nonce)).toEqual(["1"]);
+    expect(store.query({ depositor: "0xaa", recipient: "0xbb" })).toHaveLength(2);
+    expect(store.query({ depositor: "0xbb" })).toHaveLength(0);
+    expect(store.query({ destinationDomain: 0 })).toHaveLength(2);
+    expect(store.query({ destinationDomain: 1 })).toHaveLength(0);
+    expect(store.query({ nonce: BigInt(2) }).map((event) => event.id.txDigest)).toEqual(["digest2"]);
+    expect(store.query({ fromMs: 1_500, toMs: 2_500, names: ["deposit_for_burn::DepositForBurn"] }).map((event) => event.nonce)).toEqual(["2"]);
+    store.close();
+  });
+
+  test("keeps events sorted by timestamp across event types", () => {
+    const indexedEvent = (txDigest: string, name: string, timestampMs: number) => ({
+      id: { txDigest, eventSeq: "0" },
+      cctpPackage: "token_messenger_minter" as const,
+      name,
+      timestampMs,
+      parsedJson: {}
+    });
+    const store = openEventStore(storePath);
+    store.savePage(DEPOSIT_FOR_BURN_TYPE, [indexedEvent("burn1", "deposit_for_burn::DepositForBurn", 1_000),
+      indexedEvent("burn3", "deposit_for_burn::DepositForBurn", 3_000)], null);
+    store.savePage("mint", [indexedEvent("mint2", "handle_receive_message::MintAndWithdraw", 2_000)], null);
+
+    expect(store.query({}).map((event) => event.id.txDigest)).toEqual(["burn1", "mint2", "burn3"]);
+    expect(store.query({ fromMs: 2_000 }).map((event) => event.id.txDigest)).toEqual(["mint2", "burn3"]);
+    expect(store.query({ toMs: 1_999 }).map((event) => event.id.txDigest)).toEqual(["burn1"]);
+    store.close();
+  });
+});
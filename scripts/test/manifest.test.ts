@@ -0,0 +1,196 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SuiClient } from "@mysten/sui/client";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  DeploymentManifest,
+  DEPLOYMENT_MANIFEST_VERSION,
+  getDeployerSigner,
+  getEvmChain,
+  loadDeploymentManifest,
+  readDeploymentManifest,
+  toCctpDeployment,
+  toEvmAddress,
+  validateDeploymentManifest,
+  writeDeploymentManifest
+} from "../sui-scripts/manifest";
+
+const deployer = Ed25519Keypair.generate();
+
+const manifest: DeploymentManifest = {
+  version: DEPLOYMENT_MANIFEST_VERSION,
+  network: "localnet",
+  deployer: deployer.toSuiAddress(),
+  localDomain: 8,
+  packages: {
+    messageTransmitter: normalizeSuiAddress("0x1"),
+    tokenMessengerMinter: normalizeSuiAddress("0x2"),
+    usdc: normalizeSuiAddress("0x3"),
+    stablecoin: normalizeSuiAddress("0x4"),
+    suiExtensions: normalizeSuiAddress("0x5")
+  },
+  objects: {
+    messageTransmitterState: normalizeSuiAddress("0x6"),
+    messageTransmitterUpgradeService: normalizeSuiAddress("0x7"),
+    tokenMessengerMinterState: normalizeSuiAddress("0x8"),
+    tokenMessengerMinterUpgradeService: normalizeSuiAddress("0x9"),
+    treasury: normalizeSuiAddress("0xa"),
+    mintCap: normalizeSuiAddress("0xb")
+  },
+  usdcTokenId: normalizeSuiAddress("0xc"),
+  remoteDomains: [{
+    domain: 0,
+    tokenMessenger: normalizeSuiAddress("0xd"),
+    token: normalizeSuiAddress("0xe"),
+    evm: {
+      rpcUrl: "http://localhost:8500",
+      messageTransmitter: "0x2E983A1Ba5e8b38AAAeC4B440B9dDcFBf72E15d1",
+      tokenMinter: "0xbdEd0D2bf404bdcBa897a74E6657f1f12e5C6fb6"
+    }
+  }]
+};
+
+// Returns a client where only the given object ids exist.
+const mockObjectClient = (existingIds: string[]) => ({
+  multiGetObjects: async ({ ids }: { ids: string[] }) => ids.map((id) =>
+    existingIds.includes(id) ? { data: { objectId: id } } : { error: { code: "notExists", object_id: id } }
+  )
+}) as unknown as SuiClient;
+
+describe("Deployment manifest", () => {
+  let manifestPath: string;
+
+  beforeEach(() => {
+    manifestPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "cctp-manifest-")), "deployment.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(manifestPath), { recursive: true, force: true });
+    delete process.env.DEPLOYER_PRIVATE_KEY;
+    delete process.env.DEPLOYER_SIGNER;
+  });
+
+  test("round trips through a file", () => {
+    writeDeploymentManifest(manifest, manifestPath);
+
+    expect(readDeploymentManifest(manifestPath)).toEqual(manifest);
+    expect(toCctpDeployment(manifest)).toEqual({
+      messageTransmitterId: manifest.packages.messageTransmitter,
+      messageTransmitterStateId: manifest.objects.messageTransmitterState,
+      tokenMessengerMinterId: manifest.packages.tokenMessengerMinter,
+      tokenMessengerMinterStateId: manifest.objects.tokenMessengerMinterState,
+      treasuryId: manifest.objects.treasury
+    });
+    expect(toEvmAddress(manifest.remoteDomains[0].tokenMessenger)).toBe(`0x${"0".repeat(39)}d`);
+  });
+
+  test("resolves the contracts of EVM remote domains", () => {
+    const evmChain = {
+      domain: 0,
+      rpcUrl: "http://localhost:8500",
+      messageTransmitter: "0x2E983A1Ba5e8b38AAAeC4B440B9dDcFBf72E15d1",
+      tokenMessenger: `0x${"0".repeat(39)}d`,
+      tokenMinter: "0xbdEd0D2bf404bdcBa897a74E6657f1f12e5C6fb6",
+      usdc: `0x${"0".repeat(39)}e`
+    };
+    expect(getEvmChain(manifest)).toEqual(evmChain);
+    expect(getEvmChain(manifest, 0)).toEqual(evmChain);
+
+    const withoutEvm = { ...manifest, remoteDomains: [{ domain: 1, tokenMessenger: normalizeSuiAddress("0xf") }] };
+    expect(() => getEvmChain(withoutEvm, 1)).toThrow("Domain 1 is not an EVM remote domain of localnet.");
+    expect(() => getEvmChain(withoutEvm)).toThrow("localnet has no EVM remote domain.");
+    expect(() => getEvmChain(manifest, 3)).toThrow("Domain 3 is not an EVM remote domain of localnet.");
+  });
+
+  test("targets the latest package versions once upgraded", () => {
+    const upgraded = { ...manifest, latestPackages: { tokenMessengerMinter: normalizeSuiAddress("0x22") } };
+    writeDeploymentManifest(upgraded, manifestPath);
+
+    expect(toCctpDeployment(readDeploymentManifest(manifestPath))).toMatchObject({
+      messageTransmitterId: manifest.packages.messageTransmitter,
+      tokenMessengerMinterId: manifest.packages.tokenMessengerMinter,
+      tokenMessengerMinterLatestId: normalizeSuiAddress("0x22")
+    });
+  });
+
+  test("lists every invalid field", () => {
+    const invalid = {
+      ...manifest,
+      version: 0,
+      packages: { ...manifest.packages, usdc: "0x3" },
+      latestPackages: { messageTransmitter: "0x11" },
+      objects: { ...manifest.objects, mintCap: undefined },
+      remoteDomains: [
+        ...manifest.remoteDomains,
+        { domain: 8, tokenMessenger: "not an address" },
+        { domain: 0, tokenMessenger: manifest.usdcTokenId, evm: { rpcUrl: "http://localhost:8501", messageTransmitter: "0x1234" } },
+        { domain: 2, tokenMessenger: manifest.usdcTokenId, evm: null },
+        null
+      ]
+    };
+
+    expect(() => validateDeploymentManifest(invalid)).toThrow([
+      "Invalid deployment manifest:",
+      "  - version must be 1, found 0",
+      "  - packages.usdc must be a Sui object id, found \"0x3\"",
+      "  - latestPackages.messageTransmitter must be a Sui object id, found \"0x11\"",
+      "  - objects.mintCap must be a Sui object id, found undefined",
+      "  - remoteDomains[1].tokenMessenger must be a 32 byte hex address, found \"not an address\"",
+      "  - remoteDomains[1].domain must differ from the local domain",
+      "  - remoteDomains[2].evm.messageTransmitter must be a 20 byte EVM address, found \"0x1234\"",
+      "  - remoteDomains[2].evm.tokenMinter must be a 20 byte EVM address, found undefined",
+      "  - remoteDomains[2].domain 0 is listed more than once",
+      "  - remoteDomains[3].evm must be an object, found null",
+      "  - remoteDomains[4] must be an object, found null"
+    ].join("\n"));
+    expect(() => readDeploymentManifest(manifestPath)).toThrow("Deployment manifest not found");
+  });
+
+  test("checks that every object exists on chain", async () => {
+    writeDeploymentManifest(manifest, manifestPath);
+    // The mint cap is wrapped in the token_messenger_minter state after deployment.
+    const allIds = [...Object.values(manifest.packages), ...Object.values(manifest.objects)]
+      .filter((id) => id !== manifest.objects.mintCap);
+
+    await expect(loadDeploymentManifest({ path: manifestPath, client: mockObjectClient(allIds) })).resolves.toEqual(manifest);
+    await expect(loadDeploymentManifest({
+      path: manifestPath,
+      client: mockObjectClient(allIds.filter((id) => id !== manifest.objects.treasury))
+    })).rejects.toThrow(`missing objects:\n  - objects.treasury (${manifest.objects.treasury})`);
+  });
+
+  test("returns the deployer signer only if it matches the manifest", () => {
+    expect(() => getDeployerSigner(manifest)).toThrow("DEPLOYER_SIGNER or DEPLOYER_PRIVATE_KEY must be set");
+
+    process.env.DEPLOYER_PRIVATE_KEY = Ed25519Keypair.generate().getSecretKey();
+    expect(() => getDeployerSigner(manifest)).toThrow(`was deployed by ${manifest.deployer}`);
+
+    process.env.DEPLOYER_SIGNER = deployer.getSecretKey();
+    expect(getDeployerSigner(manifest).toSuiAddress()).toBe(deployer.toSuiAddress());
+
+    delete process.env.DEPLOYER_SIGNER;
+    process.env.DEPLOYER_PRIVATE_KEY = deployer.getSecretKey();
+    expect(getDeployerSigner(manifest).toSuiAddress()).toBe(deployer.toSuiAddress());
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Web3 } from "web3";
+
+import {
+  decodeBurnMessage,
+  decodeBurnMessageFromMessage,
+  decodeMessage,
+  encodeBurnMessage,
+  encodeMessage,
+  hashMessage
+} from "../sui-scripts/message";
+
+// Test vectors taken from message_transmitter::message and token_messenger_minter::burn_message
+const RAW_MESSAGE = "0x000000000000000000000001000000000003f3140000000000000000000000009f3b8679c73c2fef8b59b4f3444d4e156fb70aa5000000000000000000000000eb08f243e5d3fcff26a9e38ae5520a669f4019d00000000000000000000000001f26414439c8d03fc4b9ca912cefd5cb508c9605000000000000000000000000000000001c7d4b196cb0c7b01d743fbc6116a902379c72380000000000000000000000001f26414439c8d03fc4b9ca912cefd5cb508c960500000000000000000000000000000000000000000000000000000000000004be0000000000000000000000003b61abee91852714e4e99b09a1af3e9c13893ef1";
+const RAW_BURN_MESSAGE = "0x000000000000000000000000000000001c7d4b196cb0c7b01d743fbc6116a902379c72380000000000000000000000001f26414439c8d03fc4b9ca912cefd5cb508c960500000000000000000000000000000000000000000000000000000000000004be0000000000000000000000003b61abee91852714e4e99b09a1af3e9c13893ef1";
+
+describe("CCTP message codec", () => {
+  test("decodes a message", () => {
+    const message = decodeMessage(RAW_MESSAGE);
+
+    expect(message.version).toBe(0);
+    expect(message.sourceDomain).toBe(0);
+    expect(message.destinationDomain).toBe(1);
+    expect(message.nonce).toBe(BigInt(258836));
+    expect(message.sender).toBe("0x0000000000000000000000009f3b8679c73c2fef8b59b4f3444d4e156fb70aa5");
+    expect(message.recipient).toBe("0x000000000000000000000000eb08f243e5d3fcff26a9e38ae5520a669f4019d0");
+    expect(message.destinationCaller).toBe("0x0000000000000000000000001f26414439c8d03fc4b9ca912cefd5cb508c9605");
+    expect(`0x${message.messageBody.toString("hex")}`).toBe(RAW_BURN_MESSAGE);
+  });
+
+  test("round trips a message", () => {
+    expect(`0x${encodeMessage(decodeMessage(RAW_MESSAGE)).toString("hex")}`).toBe(RAW_MESSAGE);
+  });
+
+  test("decodes a burn message", () => {
+    const burnMessage = decodeBurnMessage(RAW_BURN_MESSAGE);
+
+    expect(burnMessage.version).toBe(0);
+    expect(burnMessage.burnToken).toBe("0x0000000000000000000000001c7d4b196cb0c7b01d743fbc6116a902379c7238");
+    expect(burnMessage.mintRecipient).toBe("0x0000000000000000000000001f26414439c8d03fc4b9ca912cefd5cb508c9605");
+    expect(burnMessage.amount).toBe(BigInt(1214));
+    expect(burnMessage.messageSender).toBe("0x0000000000000000000000003b61abee91852714e4e99b09a1af3e9c13893ef1");
+  });
+
+  test("round trips a burn message", () => {
+    expect(`0x${encodeBurnMessage(decodeBurnMessage(RAW_BURN_MESSAGE)).toString("hex")}`).toBe(RAW_BURN_MESSAGE);
+  });
+
+  test("decodes a burn message nested in a message", () => {
+    const { message, burnMessage } = decodeBurnMessageFromMessage(Buffer.from(RAW_MESSAGE.slice(2), "hex"));
+
+    expect(message.nonce).toBe(BigInt(258836));
+    expect(burnMessage.amount).toBe(BigInt(1214));
+  });
+
+  test("normalizes short addresses when encoding", () => {
+    const encoded = encodeBurnMessage({
+      version: 0,
+      burnToken: "0x1c7d4b196cb0c7b01d743fbc6116a902379c7238",
+      mintRecipient: "0x1f26414439C8D03FC4b9CA912CeFd5Cb508C9605",
+      amount: BigInt(1214),
+      messageSender: "0x3b61abee91852714e4e99b09a1af3e9c13893ef1"
+    });
+
+    expect(`0x${encoded.toString("hex")}`).toBe(RAW_BURN_MESSAGE);
+  });
+
+  test("rejects invalid lengths and values", () => {
+    expect(() => decodeMessage("0x0102030405")).toThrow("Invalid message length");
+    expect(() => decodeBurnMessage(`${RAW_BURN_MESSAGE}00`)).toThrow("Invalid burn message length");
+    expect(() => encodeBurnMessage({ ...decodeBurnMessage(RAW_BURN_MESSAGE), amount: BigInt(-1) })).toThrow("u256");
+    expect(() => encodeMessage({ ...decodeMessage(RAW_MESSAGE), sourceDomain: 2 ** 32 })).toThrow("u32");
+  });
+
+  test("hashes a message the same way as the attester", () => {
+    const web3 = new Web3();
+    expect(hashMessage(RAW_MESSAGE)).toBe(web3.utils.keccak256(RAW_MESSAGE));
+  });
+});
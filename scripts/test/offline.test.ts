@@ -0,0 +1,148 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SuiClient } from "@mysten/sui/client";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Secp256k1Keypair } from "@mysten/sui/keypairs/secp256k1";
+import { Secp256r1Keypair } from "@mysten/sui/keypairs/secp256r1";
+import { Transaction } from "@mysten/sui/transactions";
+import { fromB64, normalizeSuiAddress, toB64 } from "@mysten/sui/utils";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+
+import {
+  buildUnsignedTransaction,
+  combineTransactionSignatures,
+  signUnsignedTransaction,
+  summarizeUnsignedTransaction,
+  UnsignedTransaction
+} from "../sui-scripts/offline";
+import { getMultisigPublicKey } from "../sui-scripts/signers";
+
+const PACKAGE_ID = normalizeSuiAddress("0xcc7b");
+const STATE_ID = normalizeSuiAddress("0x5");
+const NEW_OWNER = normalizeSuiAddress("0xb0b");
+const GAS_COIN_DIGEST = "4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi";
+
+const members = [Ed25519Keypair.generate(), Secp256k1Keypair.generate(), Secp256r1Keypair.generate()];
+const multisigPublicKey = getMultisigPublicKey({
+  threshold: 2,
+  publicKeys: members.map((member) => ({ publicKey: member.getPublicKey().toSuiPublicKey(), weight: 1 }))
+});
+const sender = multisigPublicKey.toSuiAddress();
+
+// Returns a client that simulates any transaction and describes the parameters of the Move functions it calls.
+const mockClient = () => ({
+  getReferenceGasPrice: jest.fn(async () => BigInt(1_000)),
+  dryRunTransactionBlock: jest.fn(async () => ({
+    effects: {
+      status: { status: "success" },
+      gasUsed: { computationCost: "1000", storageCost: "5000", storageRebate: "2000", nonRefundableStorageFee: "0" }
+    },
+    events: [],
+    balanceChanges: []
+  })),
+  getCoins: jest.fn(async () => ({
+    data: [{ coinObjectId: normalizeSuiAddress("0xc0"), version: "7", digest: GAS_COIN_DIGEST, balance: "1000000000" }],
+    hasNextPage: false
+  })),
+  getNormalizedMoveFunction: jest.fn(async () => ({
+    parameters: [
+      { MutableReference: { Struct: { address: PACKAGE_ID, module: "state", name: "State", typeArguments: [] } } },
+      "Address",
+      { Vector: "U8" },
+      "U64",
+      { Reference: { Struct: { address: "0x2", module: "tx_context", name: "TxContext", typeArguments: [] } } }
+    ]
+  }))
+}) as unknown as SuiClient;
+
+const buildOwnershipTransfer = async (): Promise<UnsignedTransaction> => {
+  const transaction = new Transaction();
+  transaction.moveCall({
+    target: `${PACKAGE_ID}::ownable::transfer_ownership`,
+    arguments: [
+      transaction.sharedObjectRef({ objectId: STATE_ID, initialSharedVersion: 3, mutable: true }),
+      transaction.pure.address(NEW_OWNER),
+      transaction.pure.vector("u8", [0xab, 0xcd]),
+      transaction.pure.u64(42)
+    ]
+  });
+  const { unsigned, simulation } = await buildUnsignedTransaction({
+    client: mockClient(),
+    sender,
+    transaction,
+    description: "message_transmitter::transfer_ownership"
+  });
+  expect(simulation.gasBudget).toBe(BigInt(1_204_800));
+  return unsigned;
+};
+
+describe("Offline signing", () => {
+  test("Builds unsigned transactions with a summary of their calls", async () => {
+    const unsigned = await buildOwnershipTransfer();
+    expect(unsigned.sender).toBe(sender);
+    expect(unsigned.parameterTypes[`${PACKAGE_ID}::ownable::transfer_ownership`]).toEqual([
+      `&mut ${PACKAGE_ID}::state::State`,
+      "address",
+      "vector<u8>",
+      "u64",
+      `&${normalizeSuiAddress("0x2")}::tx_context::TxContext`
+    ]);
+
+    const summary = summarizeUnsignedTransaction(unsigned);
+    expect(summary).toContain(`message_transmitter::transfer_ownership, transaction ${unsigned.digest}`);
+    expect(summary).toContain(`gas: budget 1204800 MIST at price 1000, paid with ${normalizeSuiAddress("0xc0")} v7`);
+    // Pure arguments are shown as the signed bytes, with their values decoded from the unsigned parameter types.
+    expect(summary).toContain(
+      `0. ${PACKAGE_ID}::ownable::transfer_ownership(mutable shared object ${STATE_ID}, ` +
+      `${NEW_OWNER} (unverified address: "${NEW_OWNER}"), 0x02abcd (unverified vector<u8>: 0xabcd), ` +
+      "0x2a00000000000000 (unverified u64: \"42\"))"
+    );
+
+    // Tampered parameter types change the decoded values but not the bytes, and leave the digest valid.
+    const retyped = {
+      ...unsigned,
+      parameterTypes: { [`${PACKAGE_ID}::ownable::transfer_ownership`]: ["&mut State", "address", "vector<u8>", "u32"] }
+    };
+    expect(summarizeUnsignedTransaction(retyped)).toContain("0x2a00000000000000 (not a valid u32)");
+
+    // The summary is decoded from the bytes, which must match the digest that is signed.
+    expect(() => summarizeUnsignedTransaction({ ...unsigned, bytes: toB64(fromB64(unsigned.bytes).reverse()) }))
+      .toThrow(`don't match the digest ${unsigned.digest}`);
+  });
+
+  test("Combines the offline signatures of multisig members", async () => {
+    const unsigned = await buildOwnershipTransfer();
+    const signatures = [
+      await signUnsignedTransaction(unsigned, members[0]),
+      await signUnsignedTransaction(unsigned, members[2])
+    ];
+    expect(signatures[1]).toMatchObject({ digest: unsigned.digest, signer: members[2].toSuiAddress() });
+
+    const signature = await combineTransactionSignatures(unsigned, signatures, multisigPublicKey);
+    expect((await verifyTransactionSignature(fromB64(unsigned.bytes), signature)).toSuiAddress()).toBe(sender);
+
+    await expect(combineTransactionSignatures(unsigned, signatures.slice(0, 1), multisigPublicKey))
+      .rejects.toThrow("combined weight of 1, below the multisig threshold of 2");
+    await expect(combineTransactionSignatures(unsigned, signatures))
+      .rejects.toThrow(`Expected a single signature from the sender ${sender}`);
+    const forged = { ...signatures[0], signer: members[1].toSuiAddress() };
+    await expect(combineTransactionSignatures(unsigned, [forged, signatures[1]], multisigPublicKey))
+      .rejects.toThrow(`The signature of ${members[1].toSuiAddress()} is not valid`);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { AttestationPendingError } from "../sui-scripts/attestation";
+import { encodeMessage, hashMessage } from "../sui-scripts/message";
+import { MessageDestination, MessageSource, openRelayerStore, RelayerConfig, relayOnce, runRelayer } from "../sui-scripts/relayer";
+
+const SUI_DOMAIN = 8;
+const EVM_DOMAIN = 0;
+const RELAYER = normalizeSuiAddress("0xaa");
+
+const message = (nonce: number, destinationCaller = "0x0", destinationDomain = SUI_DOMAIN) => encodeMessage({
+  version: 0,
+  sourceDomain: EVM_DOMAIN,
+  destinationDomain,
+  nonce: BigInt(nonce),
+  sender: normalizeSuiAddress("0x1"),
+  recipient: normalizeSuiAddress("0x2"),
+  destinationCaller: normalizeSuiAddress(destinationCaller),
+  messageBody: Buffer.from("body")
+});
+
+// Returns a source serving the given messages on its first poll only.
+const source = (messages: Buffer[]): MessageSource => ({
+  domain: EVM_DOMAIN,
+  fetchNewMessages: async (state) => {
+    const newMessages = state.evmBlocks[EVM_DOMAIN] === undefined ? messages : [];
+    state.evmBlocks[EVM_DOMAIN] = 1;
+    return newMessages;
+  }
+});
+
+const destination = (usedNonces: bigint[] = []) => ({
+  domain: SUI_DOMAIN,
+  isNonceUsed: jest.fn(async (_: number, nonce: bigint) => usedNonces.includes(nonce)),
+  receive: jest.fn(async () => "digest")
+});
+
+const config = (sources: MessageSource[], destinations: MessageDestination[]): RelayerConfig => ({
+  sources,
+  destinations,
+  attestationProvider: { getAttestation: async () => "0xattestation" },
+  destinationCallers: [RELAYER],
+  relayOpenMessages: true,
+  maxAttempts: 3,
+  initialBackoffMs: 1_000,
+  maxBackoffMs: 1_500,
+  attestationPollMs: 500
+});
+
+describe("Relayer", () => {
+  let statePath: string;
+
+  beforeEach(() => {
+    statePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "cctp-relayer-")), "state.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(statePath), { recursive: true, force: true });
+  });
+
+  test("Delivers new messages, skips used nonces and ignores other destinations", async () => {
+    const sui = destination([BigInt(2)]);
+    const relayerConfig = config([source([message(1), message(2), message(3, "0x0", 6)])], [sui]);
+
+    const result = await relayOnce({ config: relayerConfig, store: openRelayerStore(statePath), now: 0 });
+    expect(result).toEqual({ enqueued: 2, delivered: 1, skipped: 1, retried: 0, awaitingAttestation: 0, failed: 0 });
+    expect(sui.receive).toHaveBeenCalledTimes(1);
+    expect(sui.receive).toHaveBeenCalledWith(message(1), "0xattestation");
+
+    // The reopened state keeps the source position and the jobs, so nothing is relayed twice.
+    const store = openRelayerStore(statePath);
+    expect(store.state.jobs[hashMessage(message(1))]).toMatchObject({ status: "delivered", deliveryTx: "digest", nonce: "1" });
+    expect(store.state.jobs[hashMessage(message(2))]).toMatchObject({ status: "skipped" });
+    expect(await relayOnce({ config: relayerConfig, store, now: 0 }))
+      .toEqual({ enqueued: 0, delivered: 0, skipped: 0, retried: 0, awaitingAttestation: 0, failed: 0 });
+    expect(sui.receive).toHaveBeenCalledTimes(1);
+  });
+
+  test("Retries failed deliveries with backoff until the maximum attempts", async () => {
+    const sui = destination();
+    sui.receive.mockRejectedValue(new Error("RPC unavailable"));
+    const relayerConfig = config([source([message(1)])], [sui]);
+    const store = openRelayerStore(statePath);
+    const job = () => store.state.jobs[hashMessage(message(1))];
+
+    expect((await relayOnce({ config: relayerConfig, store, now: 0 })).retried).toBe(1);
+    expect(job()).toMatchObject({ status: "pending", attempts: 1, nextAttemptMs: 1_000, lastError: "RPC unavailable" });
+
+    // Not due yet.
+    await relayOnce({ config: relayerConfig, store, now: 999 });
+    expect(sui.receive).toHaveBeenCalledTimes(1);
+
+    await relayOnce({ config: relayerConfig, store, now: 1_000 });
+    expect(job()).toMatchObject({ status: "pending", attempts: 2, nextAttemptMs: 2_500 });
+
+    expect((await relayOnce({ config: relayerConfig, store, now: 2_500 })).failed).toBe(1);
+    expect(job()).toMatchObject({ status: "failed", attempts: 3 });
+  });
+
+  test("Polls pending attestations without spending attempts", async () => {
+    const sui = destination();
+    const getAttestation = jest.fn()
+      .mockRejectedValueOnce(new AttestationPendingError("0xhash", "pending"))
+      .mockRejectedValueOnce(new AttestationPendingError("0xhash", "pending"))
+      .mockResolvedValue("0xattestation");
+    const relayerConfig = { ...config([source([message(1)])], [sui]), attestationProvider: { getAttestation }, maxAttempts: 1 };
+    const store = openRelayerStore(statePath);
+    const job = () => store.state.jobs[hashMessage(message(1))];
+
+    expect((await relayOnce({ config: relayerConfig, store, now: 0 })).awaitingAttestation).toBe(1);
+    expect(job()).toMatchObject({ status: "pending", attempts: 0, nextAttemptMs: 500 });
+    await relayOnce({ config: relayerConfig, store, now: 500 });
+    expect(job()).toMatchObject({ status: "pending", attempts: 0, nextAttemptMs: 1_000 });
+
+    expect((await relayOnce({ config: relayerConfig, store, now: 1_000 })).delivered).toBe(1);
+    expect(job()).toMatchObject({ status: "delivered", attempts: 0 });
+  });
+
+  test("Only relays messages the relayer is allowed to deliver", async () => {
+    const sui = destination();
+    const messages = [message(1), message(2, RELAYER), message(3, "0xbb")];
+
+    await relayOnce({ config: { ...config([source(messages)], [sui]), relayOpenMessages: false }, store: openRelayerStore(statePath), now: 0 });
+
+    expect(sui.receive).toHaveBeenCalledTimes(1);
+    expect(sui.receive).toHaveBeenCalledWith(message(2, RELAYER), "0xattestation");
+    const jobs = openRelayerStore(statePath).state.jobs;
+    expect(jobs[hashMessage(message(1))].status).toBe("skipped");
+    expect(jobs[hashMessage(message(3, "0xbb"))]).toMatchObject({
+      status: "skipped",
+      lastError: `Destination caller ${normalizeSuiAddress("0xbb")} is not allowed.`
+    });
+  });
+
+  test("Keeps running after a failed poll and stops waiting when aborted", async () => {
+    const sui = destination();
+    const failingSource: MessageSource = {
+      domain: EVM_DOMAIN,
+      fetchNewMessages: jest.fn()
+        .mockRejectedValueOnce(new Error("RPC unavailable"))
+        .mockResolvedValue([message(1)])
+    };
+    const controller = new AbortController();
+    const errors: [unknown, number][] = [];
+
+    const started = Date.now();
+    await runRelayer({
+      config: { ...config([failingSource], [sui]), initialBackoffMs: 10 },
+      store: openRelayerStore(statePath),
+      pollIntervalMs: 60 * 60_000,
+      signal: controller.signal,
+      onError: (error, delayMs) => errors.push([error, delayMs]),
+      // Aborts during the wait after the first successful run, which would otherwise last an hour.
+      onResult: () => setTimeout(() => controller.abort(), 0)
+    });
+
+    expect(errors).toEqual([[new Error("RPC unavailable"), 10]]);
+    expect(sui.receive).toHaveBeenCalledWith(message(1), "0xattestation");
+    expect(Date.now() - started).toBeLessThan(5_000);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { decodeSuiPrivateKey, Keypair, SIGNATURE_SCHEME_TO_FLAG } from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Secp256k1Keypair } from "@mysten/sui/keypairs/secp256k1";
+import { Secp256r1Keypair } from "@mysten/sui/keypairs/secp256r1";
+import { toB64 } from "@mysten/sui/utils";
+import { verifyTransactionSignature } from "@mysten/sui/verify";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { getKeypairFromPrivateKey, getMultisigPublicKey, loadSigner, loadSignerFromEnv, MultisigConfig } from "../sui-scripts/signers";
+
+const keypairs = [Ed25519Keypair.generate(), Secp256k1Keypair.generate(), Secp256r1Keypair.generate()];
+
+// Encodes a key as the Sui CLI stores it in sui.keystore.
+const keystoreEntry = (keypair: Keypair) => {
+  const { schema, secretKey } = decodeSuiPrivateKey(keypair.getSecretKey());
+  return toB64(Uint8Array.from([SIGNATURE_SCHEME_TO_FLAG[schema], ...secretKey]));
+};
+
+describe("Signers", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "cctp-signers-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    delete process.env.SUI_KEYSTORE_PATH;
+    delete process.env.TEST_SIGNER;
+  });
+
+  test("Loads private keys of every scheme", () => {
+    for (const keypair of keypairs) {
+      const loaded = getKeypairFromPrivateKey(keypair.getSecretKey());
+      expect(loaded.getKeyScheme()).toBe(keypair.getKeyScheme());
+      expect(loaded.toSuiAddress()).toBe(keypair.toSuiAddress());
+      expect(loadSigner(keypair.getSecretKey()).toSuiAddress()).toBe(keypair.toSuiAddress());
+    }
+
+    expect(loadSignerFromEnv("UNSET_SIGNER")).toBeUndefined();
+  });
+
+  test("Names the variable of an invalid signer without echoing its value", () => {
+    const hexKey = `0x${"ab".repeat(32)}`;
+    process.env.TEST_SIGNER = hexKey;
+    expect(() => loadSignerFromEnv("UNSET_SIGNER", "TEST_SIGNER")).toThrow(
+      "TEST_SIGNER: Unrecognized signer, expected a private key starting with \"suiprivkey\", " +
+      "\"keystore:<alias or address>\" or \"multisig:<path>\"."
+    );
+
+    // A mistyped private key fails its checksum.
+    const privateKey = keypairs[0].getSecretKey();
+    const mistyped = `${privateKey.slice(0, -1)}${privateKey.endsWith("q") ? "p" : "q"}`;
+    for (const value of [hexKey, mistyped]) {
+      process.env.TEST_SIGNER = value;
+      expect(() => loadSignerFromEnv("TEST_SIGNER")).toThrow(/^TEST_SIGNER: /);
+      expect(() => loadSignerFromEnv("TEST_SIGNER")).not.toThrow(value.slice(0, 12));
+      expect(() => loadSignerFromEnv("TEST_SIGNER")).not.toThrow(value.slice(-12));
+    }
+  });
+
+  test("Loads keys of the Sui keystore by alias or address", () => {
+    process.env.SUI_KEYSTORE_PATH = path.join(directory, "sui.keystore");
+    fs.writeFileSync(process.env.SUI_KEYSTORE_PATH, JSON.stringify(keypairs.map(keystoreEntry)));
+    fs.writeFileSync(path.join(directory, "sui.aliases"), JSON.stringify([
+      { alias: "pauser", public_key_base64: keypairs[1].getPublicKey().toSuiPublicKey() }
+    ]));
+
+    expect(loadSigner("keystore:pauser").toSuiAddress()).toBe(keypairs[1].toSuiAddress());
+    expect(loadSigner(`keystore:${keypairs[2].toSuiAddress()}`).getKeyScheme()).toBe("Secp256r1");
+    expect(() => loadSigner("keystore:owner")).toThrow("has the alias or address owner");
+  });
+
+  test("Signs as a multisig account with the partial signatures of its members", async () => {
+    const config: MultisigConfig = {
+      threshold: 2,
+      publicKeys: keypairs.map((keypair) => ({ publicKey: keypair.getPublicKey().toSuiPublicKey(), weight: 1 })),
+      signers: [keypairs[0].getSecretKey(), keypairs[2].getSecretKey()]
+    };
+    const configPath = path.join(directory, "multisig.json");
+    fs.writeFileSync(configPath, JSON.stringify(config));
+
+    const signer = loadSigner(`multisig:${configPath}`);
+    const address = getMultisigPublicKey(config).toSuiAddress();
+    expect(signer.toSuiAddress()).toBe(address);
+
+    const bytes = Uint8Array.from([1, 2, 3]);
+    const { signature } = await signer.signTransaction(bytes);
+    expect((await verifyTransactionSignature(bytes, signature)).toSuiAddress()).toBe(address);
+
+    fs.writeFileSync(configPath, JSON.stringify({ ...config, signers: [keypairs[0].getSecretKey()] }));
+    expect(() => loadSigner(`multisig:${configPath}`)).toThrow("less than threshold");
+  });
+});
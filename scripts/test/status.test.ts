@@ -0,0 +1,113 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { bcs } from "@mysten/sui/bcs";
+import { SuiClient } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+import { fetchCctpStatus, formatCctpStatusJson, formatCctpStatusText } from "../sui-scripts/status";
+import { CctpDeployment } from "../sui-scripts/transactions";
+
+const deployment: CctpDeployment = {
+  messageTransmitterId: normalizeSuiAddress("0x1"),
+  messageTransmitterStateId: normalizeSuiAddress("0x2"),
+  tokenMessengerMinterId: normalizeSuiAddress("0x3"),
+  tokenMessengerMinterStateId: normalizeSuiAddress("0x4"),
+  treasuryId: normalizeSuiAddress("0x5")
+};
+const OWNER = normalizeSuiAddress("0xa");
+const ATTESTER = "0x23618e81e3f5cdf7f54c3d65f7fbc0abf5b21e8f";
+const COIN_TYPE = `${normalizeSuiAddress("0x6")}::usdc::USDC`;
+const TOKEN_ID = normalizeSuiAddress("0x7");
+const REMOTE_TOKEN_MESSENGER = normalizeSuiAddress("0x057ef64e23666f000b34ae31332854acbd1c8544");
+
+// Getter values, keyed by `module::function` and by package for getters both packages have.
+const values: Record<string, Uint8Array> = {
+  "state::local_domain": bcs.u32().serialize(8).toBytes(),
+  "state::message_version": bcs.u32().serialize(0).toBytes(),
+  "state::max_message_body_size": bcs.u64().serialize(8192).toBytes(),
+  "state::next_available_nonce": bcs.u64().serialize(42).toBytes(),
+  "state::enabled_attesters": bcs.vector(bcs.Address).serialize([ATTESTER]).toBytes(),
+  "state::signature_threshold": bcs.u64().serialize(1).toBytes(),
+  "state::message_body_version": bcs.u32().serialize(0).toBytes(),
+  "state::remote_token_messenger_for_remote_domain_exists": bcs.bool().serialize(true).toBytes(),
+  "state::remote_token_messenger_from_remote_domain": bcs.Address.serialize(REMOTE_TOKEN_MESSENGER).toBytes(),
+  "token_utils::calculate_token_id": bcs.Address.serialize(TOKEN_ID).toBytes(),
+  "state::burn_limit_for_token_id_exists": bcs.bool().serialize(false).toBytes(),
+  "state::mint_cap_for_local_token_exists": bcs.bool().serialize(true).toBytes(),
+  "roles::owner": bcs.Address.serialize(OWNER).toBytes(),
+  "roles::pending_owner": bcs.option(bcs.Address).serialize(null).toBytes(),
+  "roles::pauser": bcs.Address.serialize(OWNER).toBytes(),
+  "roles::attester_manager": bcs.Address.serialize(OWNER).toBytes(),
+  "roles::token_controller": bcs.Address.serialize(OWNER).toBytes(),
+  [`${deployment.messageTransmitterId}::state::paused`]: bcs.bool().serialize(false).toBytes(),
+  [`${deployment.tokenMessengerMinterId}::state::paused`]: bcs.bool().serialize(true).toBytes(),
+  [`${deployment.messageTransmitterId}::state::compatible_versions`]: bcs.vector(bcs.u64()).serialize([2]).toBytes(),
+  [`${deployment.tokenMessengerMinterId}::state::compatible_versions`]: bcs.vector(bcs.u64()).serialize([1]).toBytes()
+};
+
+// Answers the getter called by the last command of a transaction.
+const client = {
+  devInspectTransactionBlock: async ({ transactionBlock }: { transactionBlock: Transaction }) => {
+    const commands = transactionBlock.getData().commands;
+    const call = commands[commands.length - 1].MoveCall!;
+    const value = values[`${call.module}::${call.function}`] ?? values[`${call.package}::${call.module}::${call.function}`];
+    return {
+      results: commands.map((_, i) => i === commands.length - 1 ? { returnValues: [[Array.from(value), "type"]] } : {})
+    };
+  }
+} as unknown as SuiClient;
+
+describe("CCTP status", () => {
+  test("reads every getter of both State objects", async () => {
+    const status = await fetchCctpStatus({ client, deployment, remoteDomains: [0], tokens: [{ coinType: COIN_TYPE, remoteTokens: [] }] });
+
+    expect(status.messageTransmitter).toEqual({
+      packageId: deployment.messageTransmitterId,
+      stateId: deployment.messageTransmitterStateId,
+      localDomain: 8,
+      messageVersion: 0,
+      maxMessageBodySize: BigInt(8192),
+      nextAvailableNonce: BigInt(42),
+      enabledAttesters: [ATTESTER],
+      signatureThreshold: 1,
+      paused: false,
+      roles: { owner: OWNER, pendingOwner: null, pauser: OWNER, attesterManager: OWNER },
+      compatibleVersions: [2]
+    });
+    expect(status.tokenMessengerMinter).toEqual({
+      packageId: deployment.tokenMessengerMinterId,
+      stateId: deployment.tokenMessengerMinterStateId,
+      messageBodyVersion: 0,
+      paused: true,
+      roles: { owner: OWNER, pendingOwner: null, pauser: OWNER, tokenController: OWNER },
+      compatibleVersions: [1],
+      remoteTokenMessengers: [{ domain: 0, tokenMessenger: REMOTE_TOKEN_MESSENGER }],
+      tokens: [{ coinType: COIN_TYPE, tokenId: TOKEN_ID, burnLimitPerMessage: null, mintCapAdded: true, tokenPairs: [] }]
+    });
+  });
+
+  test("formats the status as text and JSON", async () => {
+    const status = await fetchCctpStatus({ client, deployment, remoteDomains: [0], tokens: [] });
+
+    expect(formatCctpStatusText(status)).toContain("next available nonce:  42");
+    expect(formatCctpStatusText(status)).toContain(`domain 0 token messenger: ${REMOTE_TOKEN_MESSENGER}`);
+    expect(JSON.parse(formatCctpStatusJson(status)).messageTransmitter).toMatchObject({ maxMessageBodySize: "8192", nextAvailableNonce: "42" });
+  });
+});
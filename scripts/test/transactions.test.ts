@@ -0,0 +1,222 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SuiClient } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+import { splitCoinForAmount } from "../sui-scripts/coins";
+import {
+  buildDepositForBurnTransaction,
+  buildReceiveMessageTransaction,
+  buildReplaceDepositForBurnTransaction,
+  CctpDeployment
+} from "../sui-scripts/transactions";
+
+const deployment: CctpDeployment = {
+  messageTransmitterId: normalizeSuiAddress("0x1"),
+  messageTransmitterStateId: normalizeSuiAddress("0x2"),
+  tokenMessengerMinterId: normalizeSuiAddress("0x3"),
+  tokenMessengerMinterStateId: normalizeSuiAddress("0x4"),
+  treasuryId: normalizeSuiAddress("0x5")
+};
+const COIN_TYPE = `${normalizeSuiAddress("0x6")}::usdc::USDC`;
+const SENDER = normalizeSuiAddress("0xa");
+
+// Returns a client serving the given coin balances of COIN_TYPE, one coin per page.
+const mockCoinClient = (balances: number[]) => ({
+  getCoins: async ({ cursor }: { cursor?: string | null }) => {
+    const index = cursor ? Number(cursor) : 0;
+    return {
+      data: [{
+        coinType: COIN_TYPE,
+        coinObjectId: normalizeSuiAddress(`0x${(index + 100).toString(16)}`),
+        balance: balances[index].toString()
+      }],
+      hasNextPage: index + 1 < balances.length,
+      nextCursor: (index + 1).toString()
+    };
+  }
+}) as unknown as SuiClient;
+
+// Returns the `module::function` and type arguments of each Move call in a transaction.
+const moveCalls = (commands: any[]) => commands.filter((command) => command.MoveCall).map((command) => ({
+  target: `${command.MoveCall.package}::${command.MoveCall.module}::${command.MoveCall.function}`,
+  typeArguments: command.MoveCall.typeArguments
+}));
+
+describe("CCTP transaction builders", () => {
+  test("builds the receive message call chain", () => {
+    const transaction = buildReceiveMessageTransaction({
+      message: "0x00",
+      attestation: "0x01",
+      deployment,
+      coinType: COIN_TYPE
+    });
+
+    expect(moveCalls(transaction.getData().commands)).toEqual([
+      { target: `${deployment.messageTransmitterId}::receive_message::receive_message`, typeArguments: [] },
+      { target: `${deployment.tokenMessengerMinterId}::handle_receive_message::handle_receive_message`, typeArguments: [COIN_TYPE] },
+      { target: `${deployment.tokenMessengerMinterId}::handle_receive_message::deconstruct_stamp_receipt_ticket_with_burn_message`, typeArguments: [] },
+      {
+        target: `${deployment.messageTransmitterId}::receive_message::stamp_receipt`,
+        typeArguments: [`${deployment.tokenMessengerMinterId}::message_transmitter_authenticator::MessageTransmitterAuthenticator`]
+      },
+      { target: `${deployment.messageTransmitterId}::receive_message::complete_receive_message`, typeArguments: [] }
+    ]);
+  });
+
+  test("calls the latest package versions, keeping types on the original packages", () => {
+    const upgraded: CctpDeployment = {
+      ...deployment,
+      messageTransmitterLatestId: normalizeSuiAddress("0x11"),
+      tokenMessengerMinterLatestId: normalizeSuiAddress("0x33")
+    };
+    const transaction = buildReceiveMessageTransaction({
+      message: "0x00",
+      attestation: "0x01",
+      deployment: upgraded,
+      coinType: COIN_TYPE
+    });
+
+    const calls = moveCalls(transaction.getData().commands);
+    expect(calls.map(({ target }) => target.split("::")[0])).toEqual([
+      upgraded.messageTransmitterLatestId,
+      upgraded.tokenMessengerMinterLatestId,
+      upgraded.tokenMessengerMinterLatestId,
+      upgraded.messageTransmitterLatestId,
+      upgraded.messageTransmitterLatestId
+    ]);
+    expect(calls[3].typeArguments).toEqual([
+      `${deployment.tokenMessengerMinterId}::message_transmitter_authenticator::MessageTransmitterAuthenticator`
+    ]);
+  });
+
+  test("uses a custom authenticator type", () => {
+    const authenticatorType = `${normalizeSuiAddress("0x7")}::auth::Auth`;
+    const transaction = buildReceiveMessageTransaction({
+      message: "0x00",
+      attestation: "0x01",
+      deployment,
+      coinType: COIN_TYPE,
+      authenticatorType
+    });
+
+    expect(moveCalls(transaction.getData().commands)[3].typeArguments).toEqual([authenticatorType]);
+  });
+
+  test("merges coins across pages to cover a burn", async () => {
+    const transaction = await buildDepositForBurnTransaction({
+      client: mockCoinClient([2, 5, 3]),
+      sender: SENDER,
+      amount: 7,
+      destinationDomain: 0,
+      mintRecipient: "0xfabb0ac9d68b0b445fb7357272ff202c5651694a",
+      deployment,
+      coinType: COIN_TYPE
+    });
+    const commands = transaction.getData().commands;
+
+    expect(commands.map((command) => command.$kind)).toEqual(["MergeCoins", "SplitCoins", "MoveCall"]);
+    expect(commands[0].MergeCoins!.sources.length).toBe(1);
+    expect(moveCalls(commands)).toEqual([
+      { target: `${deployment.tokenMessengerMinterId}::deposit_for_burn::deposit_for_burn`, typeArguments: [COIN_TYPE] }
+    ]);
+  });
+
+  test("calls deposit_for_burn_with_caller when a destination caller is provided", async () => {
+    const transaction = await buildDepositForBurnTransaction({
+      client: mockCoinClient([10]),
+      sender: SENDER,
+      amount: 1,
+      destinationDomain: 0,
+      mintRecipient: "0xfabb0ac9d68b0b445fb7357272ff202c5651694a",
+      destinationCaller: "0xfabb0ac9d68b0b445fb7357272ff202c5651694a",
+      deployment,
+      coinType: COIN_TYPE
+    });
+    const commands = transaction.getData().commands;
+
+    expect(commands.map((command) => command.$kind)).toEqual(["SplitCoins", "MoveCall"]);
+    expect(moveCalls(commands)[0].target).toBe(`${deployment.tokenMessengerMinterId}::deposit_for_burn::deposit_for_burn_with_caller`);
+  });
+
+  test("reports the shortfall when the balance is too low", async () => {
+    await expect(buildDepositForBurnTransaction({
+      client: mockCoinClient([2, 3]),
+      sender: SENDER,
+      amount: 7,
+      destinationDomain: 0,
+      mintRecipient: "0xfabb0ac9d68b0b445fb7357272ff202c5651694a",
+      deployment,
+      coinType: COIN_TYPE
+    })).rejects.toThrow("required 7, available 5, shortfall 2");
+  });
+
+  test("rejects splitting a zero or negative amount", async () => {
+    for (const amount of [BigInt(0), BigInt(-1)]) {
+      await expect(splitCoinForAmount({
+        client: mockCoinClient([2, 3]),
+        transaction: new Transaction(),
+        owner: SENDER,
+        coinType: COIN_TYPE,
+        amount
+      })).rejects.toThrow(`Invalid amount ${amount} of ${COIN_TYPE}, expected a positive amount to split.`);
+    }
+  });
+
+  test("builds a replace_deposit_for_burn call", () => {
+    const transaction = buildReplaceDepositForBurnTransaction({
+      originalMessage: "0x00",
+      originalAttestation: "0x01",
+      newMintRecipient: "0xfabb0ac9d68b0b445fb7357272ff202c5651694a",
+      deployment
+    });
+
+    expect(moveCalls(transaction.getData().commands)).toEqual([
+      { target: `${deployment.tokenMessengerMinterId}::deposit_for_burn::replace_deposit_for_burn`, typeArguments: [] }
+    ]);
+  });
+
+  test("builds a replace_deposit_for_burn_with_package_auth call", () => {
+    const transaction = new Transaction();
+    const authType = `${normalizeSuiAddress("0x7")}::auth::Auth`;
+    const [auth] = transaction.moveCall({ target: `${normalizeSuiAddress("0x7")}::auth::new` });
+    buildReplaceDepositForBurnTransaction({
+      originalMessage: "0x00",
+      originalAttestation: "0x01",
+      newDestinationCaller: "0xfabb0ac9d68b0b445fb7357272ff202c5651694a",
+      deployment,
+      packageAuth: { auth, authType },
+      transaction
+    });
+
+    expect(moveCalls(transaction.getData().commands).slice(1)).toEqual([
+      { target: `${deployment.tokenMessengerMinterId}::deposit_for_burn::create_replace_deposit_for_burn_ticket`, typeArguments: [authType] },
+      { target: `${deployment.tokenMessengerMinterId}::deposit_for_burn::replace_deposit_for_burn_with_package_auth`, typeArguments: [authType] }
+    ]);
+  });
+
+  test("requires a replaced field", () => {
+    expect(() => buildReplaceDepositForBurnTransaction({
+      originalMessage: "0x00",
+      originalAttestation: "0x01",
+      deployment
+    })).toThrow("A new mint recipient or destination caller is required");
+  });
+});
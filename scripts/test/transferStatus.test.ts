@@ -0,0 +1,123 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { bcs } from "@mysten/sui/bcs";
+import { SuiClient } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+import { encodeBurnMessage, encodeMessage, hashMessage } from "../sui-scripts/message";
+import { CctpDeployment } from "../sui-scripts/transactions";
+import { fetchTransferStatus, formatTransferStatusJson, formatTransferStatusText } from "../sui-scripts/transferStatus";
+
+const deployment: CctpDeployment = {
+  messageTransmitterId: normalizeSuiAddress("0x1"),
+  messageTransmitterStateId: normalizeSuiAddress("0x2"),
+  tokenMessengerMinterId: normalizeSuiAddress("0x3"),
+  tokenMessengerMinterStateId: normalizeSuiAddress("0x4"),
+  treasuryId: normalizeSuiAddress("0x5")
+};
+const LOCAL_DOMAIN = 8;
+const MINT_RECIPIENT = normalizeSuiAddress("0x70997970c51812dc3a010c7d01b50e0d17dc79c8");
+
+const createMessage = (nonce: number) => encodeMessage({
+  version: 0,
+  sourceDomain: LOCAL_DOMAIN,
+  destinationDomain: 0,
+  nonce: BigInt(nonce),
+  sender: normalizeSuiAddress("0xaa"),
+  recipient: normalizeSuiAddress("0xbb"),
+  destinationCaller: normalizeSuiAddress("0x0"),
+  messageBody: encodeBurnMessage({
+    version: 0,
+    burnToken: normalizeSuiAddress("0xcc"),
+    mintRecipient: MINT_RECIPIENT,
+    amount: BigInt(1000),
+    messageSender: normalizeSuiAddress("0xdd")
+  })
+});
+
+// Returns a client whose transactions emit the given messages and whose is_nonce_used returns nonceUsed.
+const mockClient = (messages: Buffer[], nonceUsed: boolean) => ({
+  getTransactionBlock: async ({ digest }: { digest: string }) => ({
+    digest,
+    events: messages.map((message) => ({
+      type: `${deployment.messageTransmitterId}::send_message::MessageSent`,
+      parsedJson: { message: Array.from(message) }
+    }))
+  }),
+  devInspectTransactionBlock: jest.fn(async ({ transactionBlock }: { transactionBlock: Transaction }) => {
+    expect(transactionBlock.getData().commands[0].MoveCall!.function).toBe("is_nonce_used");
+    return { results: [{ returnValues: [[Array.from(bcs.bool().serialize(nonceUsed).toBytes()), "bool"]] }] };
+  })
+}) as unknown as SuiClient;
+
+describe("Transfer status", () => {
+  test("reports a message burned on Sui for an unknown destination chain", async () => {
+    const message = createMessage(7);
+    const status = await fetchTransferStatus({
+      client: mockClient([message], false),
+      deployment,
+      localDomain: LOCAL_DOMAIN,
+      evmChains: [],
+      lookup: { suiDigest: "digest" }
+    });
+
+    expect(status).toMatchObject({
+      stage: "burned",
+      sourceDomain: LOCAL_DOMAIN,
+      nonce: BigInt(7),
+      message: { hash: hashMessage(message), burnMessage: { amount: BigInt(1000), mintRecipient: MINT_RECIPIENT } },
+      attestation: null,
+      destination: null
+    });
+    expect(formatTransferStatusText(status)).toContain("nonce used on destination: unknown destination chain");
+    expect(JSON.parse(formatTransferStatusJson(status))).toMatchObject({ nonce: "7", message: { raw: `0x${message.toString("hex")}` } });
+  });
+
+  test("picks the message of a transaction by nonce", async () => {
+    const client = mockClient([createMessage(1), createMessage(2)], false);
+    const lookup = { client, deployment, localDomain: LOCAL_DOMAIN, evmChains: [] };
+
+    await expect(fetchTransferStatus({ ...lookup, lookup: { suiDigest: "digest" } }))
+      .rejects.toThrow("Transaction digest sent 2 messages, pass the nonce of one of them.");
+    await expect(fetchTransferStatus({ ...lookup, lookup: { suiDigest: "digest", nonce: BigInt(2) } }))
+      .resolves.toMatchObject({ nonce: BigInt(2) });
+  });
+
+  test("checks the nonce on Sui for a message from an unknown chain", async () => {
+    const client = mockClient([], true);
+    const status = await fetchTransferStatus({
+      client,
+      deployment,
+      localDomain: LOCAL_DOMAIN,
+      evmChains: [],
+      lookup: { sourceDomain: 5, nonce: BigInt(3) }
+    });
+
+    expect(status).toEqual({
+      stage: "received",
+      sourceDomain: 5,
+      nonce: BigInt(3),
+      message: null,
+      attestation: null,
+      destination: { domain: LOCAL_DOMAIN, nonceUsed: true }
+    });
+    expect(client.devInspectTransactionBlock).toHaveBeenCalledTimes(1);
+  });
+});
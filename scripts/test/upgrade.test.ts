@@ -0,0 +1,103 @@
+/**
+ * Copyright (c) 2024, Circle Internet Group, Inc. All rights reserved.
+ *
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { bcs } from "@mysten/sui/bcs";
+import { SuiClient } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+import { CctpDeployment } from "../sui-scripts/transactions";
+import {
+  buildMigrationTransaction,
+  buildUpgradeTransaction,
+  checkCompatibleVersions,
+  checkMigrationStep,
+  fetchCompatibleVersions,
+  MigrationStep
+} from "../sui-scripts/upgrade";
+
+const deployment: CctpDeployment = {
+  messageTransmitterId: normalizeSuiAddress("0x1"),
+  messageTransmitterStateId: normalizeSuiAddress("0x2"),
+  tokenMessengerMinterId: normalizeSuiAddress("0x3"),
+  tokenMessengerMinterStateId: normalizeSuiAddress("0x4"),
+  treasuryId: normalizeSuiAddress("0x5")
+};
+
+describe("Migration steps", () => {
+  test("returns the compatible versions after each step", () => {
+    expect(checkMigrationStep([1], "start_migration", 2)).toEqual([1, 2]);
+    expect(checkMigrationStep([1, 2], "abort_migration", 2)).toEqual([1]);
+    expect(checkMigrationStep([1, 2], "complete_migration", 2)).toEqual([2]);
+  });
+
+  test.each([
+    ["EMigrationStarted", [1, 2], "start_migration", 3],
+    ["EObjectMigrated", [2], "start_migration", 2],
+    ["EMigrationNotStarted", [1], "abort_migration", 2],
+    ["EMigrationNotStarted", [2], "complete_migration", 2],
+    ["ENotPendingVersion", [1, 2], "complete_migration", 3]
+  ] as [string, number[], MigrationStep, number][])("refuses a step that would abort with %s", (error, versions, step, packageVersion) => {
+    expect(() => checkMigrationStep(versions, step, packageVersion)).toThrow(`(${error}).`);
+  });
+
+  test("reads the compatible versions of both State objects", async () => {
+    const client = {
+      devInspectTransactionBlock: async ({ transactionBlock }: { transactionBlock: Transaction }) => {
+        const call = transactionBlock.getData().commands[0].MoveCall!;
+        const versions = call.package === deployment.messageTransmitterId ? [3, 2] : [1];
+        return { results: [{ returnValues: [[Array.from(bcs.vector(bcs.u64()).serialize(versions).toBytes()), "type"]] }] };
+      }
+    } as unknown as SuiClient;
+
+    const compatibleVersions = await fetchCompatibleVersions(client, deployment);
+    expect(compatibleVersions).toEqual({ message_transmitter: [2, 3], token_messenger_minter: [1] });
+    expect(() => checkCompatibleVersions(compatibleVersions, { message_transmitter: [2, 3], token_messenger_minter: [2] }))
+      .toThrow("token_messenger_minter State is compatible with versions [1], expected [2].");
+  });
+
+  test("calls the migration step from the upgraded package", () => {
+    const transaction = buildMigrationTransaction({ packageId: normalizeSuiAddress("0x6"), stateId: deployment.messageTransmitterStateId, step: "start_migration" });
+
+    expect(transaction.getData().commands.map((command) => command.MoveCall!.function)).toEqual(["start_migration"]);
+    expect(transaction.getData().commands[0].MoveCall!.package).toBe(normalizeSuiAddress("0x6"));
+  });
+});
+
+describe("Package upgrades", () => {
+  test("authorizes, upgrades and commits through the UpgradeService", () => {
+    const suiExtensionsId = normalizeSuiAddress("0x7");
+    const witnessType = `${deployment.messageTransmitterId}::initialize::INITIALIZE`;
+    const transaction = buildUpgradeTransaction({
+      suiExtensionsId,
+      upgradeServiceId: normalizeSuiAddress("0x8"),
+      witnessType,
+      packageId: deployment.messageTransmitterId,
+      build: { modules: [], dependencies: [normalizeSuiAddress("0x2")], digest: [1, 2, 3] },
+      upgradeCapId: normalizeSuiAddress("0x9")
+    });
+
+    expect(transaction.getData().commands.map((command) => command.$kind)).toEqual(["MoveCall", "MoveCall", "Upgrade", "MoveCall"]);
+    expect(transaction.getData().commands.filter((command) => command.MoveCall).map((command) => command.MoveCall)).toMatchObject([
+      { package: suiExtensionsId, module: "upgrade_service", function: "deposit", typeArguments: [witnessType] },
+      { package: suiExtensionsId, module: "upgrade_service", function: "authorize_upgrade", typeArguments: [witnessType] },
+      { package: suiExtensionsId, module: "upgrade_service", function: "commit_upgrade", typeArguments: [witnessType] }
+    ]);
+    expect(transaction.getData().commands[2].Upgrade!.package).toBe(deployment.messageTransmitterId);
+  });
+});
@@ -15,7 +15,18 @@
 # See the License for the specific language governing permissions and
 # limitations under the License.
 
-echo "Deploying evm-cctp-contracts contracts"
+# Usage: ./setup-evm-contracts.sh [port] [domain]
+# Starts an Anvil node on the given port (default 8500) and deploys the CCTP contracts to it with the given
+# domain (default 0). Run it once per EVM chain listed in the deployment config, e.g. `./setup-evm-contracts.sh 8501 1`.
+EVM_PORT=${1:-8500}
+EVM_DOMAIN=${2:-0}
+if [ "$EVM_PORT" = "8500" ]; then
+  CONTAINER_NAME=anvil
+else
+  CONTAINER_NAME=anvil-$EVM_PORT
+fi
+
+echo "Deploying evm-cctp-contracts contracts to domain $EVM_DOMAIN on port $EVM_PORT"
 
 # Check if foundry is installed
 if ! ~/.foundry/bin/forge -V; then
@@ -36,11 +47,11 @@ yarn install
 docker build --no-cache -f Dockerfile -t foundry .
 
 # Create the anvil container
-docker rm -f anvil || true
-docker run -d -p 8500:8545 --platform linux/amd64 --name anvil --rm foundry "anvil --host 0.0.0.0 -a 13 --code-size-limit 250000"
+docker rm -f $CONTAINER_NAME || true
+docker run -d -p $EVM_PORT:8545 --platform linux/amd64 --name $CONTAINER_NAME --label cctp-anvil --rm foundry "anvil --host 0.0.0.0 -a 13 --code-size-limit 250000"
 
 # Define the contract parameters
-RPC_URL_ETH=http://localhost:8500
+RPC_URL_ETH=http://localhost:$EVM_PORT
 SENDER='0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc'
 
 export MESSAGE_TRANSMITTER_DEPLOYER_KEY=0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a
@@ -73,12 +84,12 @@ export UPGRADEABLE_ADDRESS=0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266
 sleep 10;
 
 # Deploy the contracts
-export DOMAIN=0
+export DOMAIN=$EVM_DOMAIN
 ~/.foundry/bin/forge script ../scripts/evm-scripts/cctp_deploy.s.sol:DeployScript --rpc-url $RPC_URL_ETH --sender $SENDER --broadcast
-mkdir cctp-interfaces
+mkdir -p cctp-interfaces
 cp -R ./out/* ./cctp-interfaces
 ~/.foundry/bin/forge script ../scripts/evm-scripts/usdc_deploy.s.sol:USDCDeployScript --rpc-url $RPC_URL_ETH --sender $SENDER --broadcast --force --use 0.6.12
-mkdir usdc-interfaces
+mkdir -p usdc-interfaces
 cp -R ./out/* ./usdc-interfaces
 
 cd ..